@@ -0,0 +1,16 @@
+-- Separate head and tail positions for each creator's sync
+-- Incremental syncs start at the newest post and stop once they reach head_post_id (or two pages of
+-- posts already saved). Backfills catch up at the head first, then continue walking history from
+-- tail_cursor, a page at a time across syncs, until they reach the oldest post.
+ALTER TABLE creators
+ADD COLUMN IF NOT EXISTS head_post_id BIGINT,
+ADD COLUMN IF NOT EXISTS tail_cursor TEXT,
+ADD COLUMN IF NOT EXISTS backfill_images INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS backfill_total_images INTEGER,
+ADD COLUMN IF NOT EXISTS backfill_completed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN creators.head_post_id IS 'Newest post a sync has caught up to; incremental syncs stop when they reach it';
+COMMENT ON COLUMN creators.tail_cursor IS 'Cursor where the history backfill continues; NULL before it starts and once it is complete';
+COMMENT ON COLUMN creators.backfill_images IS 'Images the backfill has walked, newest to tail_cursor';
+COMMENT ON COLUMN creators.backfill_total_images IS 'Total images on the site for the creator, when the site reports it (for the progress percentage)';
+COMMENT ON COLUMN creators.backfill_completed_at IS 'When the backfill reached the creator''s oldest post';
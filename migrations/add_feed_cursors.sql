@@ -0,0 +1,74 @@
+-- Keyset (cursor) pages for feed_posts (see migrations/add_feed_posts.sql)
+-- Offsets shift when a sync saves new posts or a post is hidden mid-scroll, so the next page repeats or
+-- skips posts. A page now starts after the last post of the previous one in the feed's sort instead.
+DROP FUNCTION IF EXISTS public.feed_posts(TEXT, TEXT, TEXT, TIMESTAMPTZ, BOOLEAN, BOOLEAN, BIGINT[], INTEGER, INTEGER);
+
+-- One page of a feed in its sort
+-- The first page (no cursor) has the number of posts in the whole feed on every row, later pages NULL,
+-- so paging down doesn't count the whole feed again
+-- p_sort: 'newest' orders by post_id, the reaction sorts by reaction_count then post_id, highest first
+-- p_post_ids: only these posts (merging in posts a sync just saved)
+-- p_after_post_id / p_after_reaction_count: the last post of the previous page (NULL for the first page)
+--   The reaction count is the one the client was given, so a count refreshed since doesn't move the cursor
+CREATE OR REPLACE FUNCTION public.feed_posts(
+  p_source TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_published_since TIMESTAMPTZ DEFAULT NULL,
+  p_include_nsfw BOOLEAN DEFAULT FALSE,
+  p_include_hidden BOOLEAN DEFAULT FALSE,
+  p_post_ids BIGINT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 30,
+  p_after_post_id BIGINT DEFAULT NULL,
+  p_after_reaction_count INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  creator_username TEXT,
+  cover_image_url TEXT,
+  cover_width INTEGER,
+  cover_height INTEGER,
+  image_count INTEGER,
+  reaction_count INTEGER,
+  nsfw BOOLEAN,
+  published_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  is_favorited BOOLEAN,
+  is_hidden BOOLEAN,
+  via_source_type TEXT,
+  via_source_civitai_id BIGINT,
+  via_source_name TEXT,
+  total_count BIGINT
+) AS $$
+  WITH feed AS (
+    SELECT
+      f.*,
+      CASE WHEN p_sort = 'newest' THEN 0 ELSE f.reaction_count END AS sort_key
+    FROM public.feed_filter(p_source, p_creator, p_published_since, p_include_nsfw, p_include_hidden) f
+    WHERE p_post_ids IS NULL OR f.post_id = ANY(p_post_ids)
+  )
+  SELECT
+    feed.post_id,
+    feed.creator_username,
+    feed.cover_image_url,
+    feed.cover_width,
+    feed.cover_height,
+    feed.image_count,
+    feed.reaction_count,
+    feed.nsfw,
+    feed.published_at,
+    feed.updated_at,
+    feed.is_favorited,
+    feed.is_hidden,
+    feed.via_source_type,
+    feed.via_source_civitai_id,
+    feed.via_source_name,
+    -- Counted before the cursor applies (an init plan, run only when the first page asks for it)
+    CASE WHEN p_after_post_id IS NULL THEN (SELECT COUNT(*) FROM feed) END AS total_count
+  FROM feed
+  WHERE p_after_post_id IS NULL
+    OR (feed.sort_key, feed.post_id) <
+      (CASE WHEN p_sort = 'newest' THEN 0 ELSE COALESCE(p_after_reaction_count, 0) END, p_after_post_id)
+  ORDER BY feed.sort_key DESC, feed.post_id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,168 @@
+-- Feed pages in one call (see src/lib/feedQuery.ts)
+-- The feed's posts, already without hidden posts and annotated with the user's interactions, so a page
+-- no longer needs the user's creators, sources, hidden posts and interactions fetched separately.
+-- Runs as the caller, so RLS applies and a signed-out caller gets no posts.
+
+CREATE INDEX IF NOT EXISTS idx_post_interactions_user_post ON post_interactions(user_id, post_id);
+
+-- Every post in a feed, unsorted
+-- p_source: 'following' (followed creators and sources, not the user's own posts), 'creator' (p_creator's
+-- posts), 'favorites' or 'hidden'
+-- p_published_since: only posts published since then (the "this week" sort)
+-- p_include_nsfw: NSFW posts even when the user's show_nsfw setting is off
+-- p_include_hidden: hidden posts too (the hidden feed always has them)
+-- via_source_*: for following, the user's oldest source that brought in a post by a creator who isn't followed
+CREATE OR REPLACE FUNCTION public.feed_filter(
+  p_source TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_published_since TIMESTAMPTZ DEFAULT NULL,
+  p_include_nsfw BOOLEAN DEFAULT FALSE,
+  p_include_hidden BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  creator_username TEXT,
+  cover_image_url TEXT,
+  cover_width INTEGER,
+  cover_height INTEGER,
+  image_count INTEGER,
+  reaction_count INTEGER,
+  nsfw BOOLEAN,
+  published_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  is_favorited BOOLEAN,
+  is_hidden BOOLEAN,
+  via_source_type TEXT,
+  via_source_civitai_id BIGINT,
+  via_source_name TEXT
+) AS $$
+  WITH me AS (
+    SELECT
+      us.civitai_username AS username,
+      COALESCE(us.show_nsfw, TRUE) AS show_nsfw
+    FROM (SELECT 1) AS one
+    LEFT JOIN user_settings us ON us.user_id = auth.uid()
+  ),
+  followed AS (
+    SELECT c.username FROM creators c WHERE c.user_id = auth.uid()
+  )
+  SELECT
+    p.post_id::BIGINT,
+    p.creator_username::TEXT,
+    p.cover_image_url::TEXT,
+    p.cover_width::INTEGER,
+    p.cover_height::INTEGER,
+    p.image_count::INTEGER,
+    p.reaction_count::INTEGER,
+    p.nsfw::BOOLEAN,
+    p.published_at::TIMESTAMPTZ,
+    p.updated_at::TIMESTAMPTZ,
+    COALESCE(pi.is_favorited, FALSE),
+    COALESCE(pi.is_hidden, FALSE),
+    via.type::TEXT,
+    via.civitai_id::BIGINT,
+    via.name::TEXT
+  FROM posts p
+  CROSS JOIN me
+  LEFT JOIN post_interactions pi ON pi.post_id = p.post_id AND pi.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT s.type, s.civitai_id, s.name
+    FROM source_posts sp
+    JOIN sources s ON s.id = sp.source_id
+    WHERE p_source = 'following'
+      AND sp.post_id = p.post_id
+      AND s.user_id = auth.uid()
+      AND p.creator_username NOT IN (SELECT username FROM followed)
+    ORDER BY s.created_at, s.id
+    LIMIT 1
+  ) via ON TRUE
+  -- Only synced posts, except in the user's own lists, so every favorite and hidden post can be reached
+  WHERE (p.cover_image_url IS NOT NULL OR p_source IN ('favorites', 'hidden'))
+    AND CASE p_source
+      WHEN 'following' THEN
+        (p.creator_username IN (SELECT username FROM followed) OR via.type IS NOT NULL)
+        AND (me.username IS NULL OR p.creator_username <> me.username)
+      WHEN 'creator' THEN p.creator_username = p_creator
+      WHEN 'favorites' THEN COALESCE(pi.is_favorited, FALSE)
+      WHEN 'hidden' THEN COALESCE(pi.is_hidden, FALSE)
+      ELSE FALSE
+    END
+    AND (p_source = 'hidden' OR p_include_hidden OR NOT COALESCE(pi.is_hidden, FALSE))
+    AND (p_include_nsfw OR me.show_nsfw OR NOT p.nsfw)
+    AND (p_published_since IS NULL OR p.published_at >= p_published_since);
+$$ LANGUAGE sql STABLE;
+
+-- One page of a feed in its sort, with the number of posts in the whole feed on every row
+-- p_sort: 'newest' orders by post_id, the reaction sorts by reaction_count then post_id, highest first
+-- p_post_ids: only these posts (merging in posts a sync just saved)
+CREATE OR REPLACE FUNCTION public.feed_posts(
+  p_source TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_published_since TIMESTAMPTZ DEFAULT NULL,
+  p_include_nsfw BOOLEAN DEFAULT FALSE,
+  p_include_hidden BOOLEAN DEFAULT FALSE,
+  p_post_ids BIGINT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 30,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  creator_username TEXT,
+  cover_image_url TEXT,
+  cover_width INTEGER,
+  cover_height INTEGER,
+  image_count INTEGER,
+  reaction_count INTEGER,
+  nsfw BOOLEAN,
+  published_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  is_favorited BOOLEAN,
+  is_hidden BOOLEAN,
+  via_source_type TEXT,
+  via_source_civitai_id BIGINT,
+  via_source_name TEXT,
+  total_count BIGINT
+) AS $$
+  SELECT f.*, COUNT(*) OVER ()
+  FROM public.feed_filter(p_source, p_creator, p_published_since, p_include_nsfw, p_include_hidden) f
+  WHERE p_post_ids IS NULL OR f.post_id = ANY(p_post_ids)
+  ORDER BY CASE WHEN p_sort = 'newest' THEN 0 ELSE f.reaction_count END DESC, f.post_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- The posts shown before and after one in a feed's sort, for previous/next navigation
+-- Works whether or not the post itself is still in the feed (e.g. it was just hidden)
+CREATE OR REPLACE FUNCTION public.feed_neighbours(
+  p_post_id BIGINT,
+  p_source TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_published_since TIMESTAMPTZ DEFAULT NULL,
+  p_include_nsfw BOOLEAN DEFAULT FALSE,
+  p_include_hidden BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  prev_post_id BIGINT,
+  next_post_id BIGINT
+) AS $$
+  WITH current_post AS (
+    SELECT CASE WHEN p_sort = 'newest' THEN 0 ELSE COALESCE(p.reaction_count, 0) END AS sort_key
+    FROM posts p
+    WHERE p.post_id = p_post_id
+  ),
+  feed AS (
+    SELECT f.post_id, CASE WHEN p_sort = 'newest' THEN 0 ELSE f.reaction_count END AS sort_key
+    FROM public.feed_filter(p_source, p_creator, p_published_since, p_include_nsfw, p_include_hidden) f
+  )
+  SELECT
+    (SELECT feed.post_id FROM feed, current_post
+      WHERE (feed.sort_key, feed.post_id) > (current_post.sort_key, p_post_id)
+      ORDER BY feed.sort_key, feed.post_id
+      LIMIT 1)::BIGINT,
+    (SELECT feed.post_id FROM feed, current_post
+      WHERE (feed.sort_key, feed.post_id) < (current_post.sort_key, p_post_id)
+      ORDER BY feed.sort_key DESC, feed.post_id DESC
+      LIMIT 1)::BIGINT;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,21 @@
+-- Generation metadata for every image, as reported by the Civitai /images API
+-- The common settings get their own columns; meta keeps everything Civitai sent (LoRAs, hashes, clip skip...)
+-- Images synced before this migration are filled in by the next reconcile of their creator, or Sync images on a post
+ALTER TABLE images
+ADD COLUMN IF NOT EXISTS prompt TEXT,
+ADD COLUMN IF NOT EXISTS negative_prompt TEXT,
+ADD COLUMN IF NOT EXISTS seed BIGINT,
+ADD COLUMN IF NOT EXISTS steps INTEGER,
+ADD COLUMN IF NOT EXISTS sampler TEXT,
+ADD COLUMN IF NOT EXISTS cfg_scale REAL,
+ADD COLUMN IF NOT EXISTS model_name TEXT,
+ADD COLUMN IF NOT EXISTS base_model TEXT,
+ADD COLUMN IF NOT EXISTS meta JSONB,
+ADD COLUMN IF NOT EXISTS stats JSONB;
+
+COMMENT ON COLUMN images.meta IS 'Raw generation metadata from Civitai (prompt, seed, sampler, resources...)';
+COMMENT ON COLUMN images.stats IS 'Reaction and comment counts from Civitai at the last sync';
+COMMENT ON COLUMN images.model_name IS 'Checkpoint name from meta.Model';
+COMMENT ON COLUMN images.base_model IS 'Base model family reported by Civitai (SDXL 1.0, Pony, Flux.1 D...)';
+
+CREATE INDEX IF NOT EXISTS idx_images_base_model ON images(base_model);
@@ -0,0 +1,7 @@
+-- Fields of a Civitai image the app doesn't read (yet), kept as sent
+-- Responses are validated in src/lib/civitaiSchema.ts; the fields it knows get their own columns,
+-- everything else lands here so a new or renamed field can be picked up without a resync
+ALTER TABLE images
+ADD COLUMN IF NOT EXISTS raw JSONB;
+
+COMMENT ON COLUMN images.raw IS 'Fields from the Civitai /images API not stored in other columns (browsingLevel, modelVersionIds...)';
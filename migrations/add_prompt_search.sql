@@ -0,0 +1,87 @@
+-- Full-text search over image prompts (prompt and negative_prompt come from add_image_generation_meta.sql)
+ALTER TABLE images
+ADD COLUMN IF NOT EXISTS prompt_search TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(prompt, ''))) STORED,
+ADD COLUMN IF NOT EXISTS negative_prompt_search TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(negative_prompt, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_images_prompt_search ON images USING GIN (prompt_search);
+CREATE INDEX IF NOT EXISTS idx_images_negative_prompt_search ON images USING GIN (negative_prompt_search);
+
+-- Search the current user's creators, one result per post (its best matching image), best matches first
+-- p_query uses web search syntax: "quoted phrases", -excluded words, OR
+-- p_nsfw: NULL = any, TRUE = NSFW images only, FALSE = SFW images only
+-- Runs as the caller, so RLS applies; hidden posts and images removed on Civitai are left out
+CREATE OR REPLACE FUNCTION public.search_prompts(
+  p_query TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_nsfw BOOLEAN DEFAULT NULL,
+  p_published_from TIMESTAMPTZ DEFAULT NULL,
+  p_published_to TIMESTAMPTZ DEFAULT NULL,
+  p_negative BOOLEAN DEFAULT FALSE,
+  p_limit INTEGER DEFAULT 30,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  image_id BIGINT,
+  url TEXT,
+  width INTEGER,
+  height INTEGER,
+  nsfw BOOLEAN,
+  creator_username TEXT,
+  published_at TIMESTAMPTZ,
+  rank REAL,
+  snippet TEXT
+) AS $$
+  WITH search AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  best AS (
+    SELECT DISTINCT ON (i.post_id)
+      i.post_id,
+      i.image_id,
+      i.url,
+      i.width,
+      i.height,
+      i.nsfw,
+      p.creator_username,
+      p.published_at,
+      ts_rank(CASE WHEN p_negative THEN i.negative_prompt_search ELSE i.prompt_search END, search.query) AS rank,
+      CASE WHEN p_negative THEN i.negative_prompt ELSE i.prompt END AS matched_text,
+      search.query
+    FROM images i
+    JOIN posts p ON p.post_id = i.post_id
+    CROSS JOIN search
+    WHERE ((NOT p_negative AND i.prompt_search @@ search.query)
+        OR (p_negative AND i.negative_prompt_search @@ search.query))
+      AND p.creator_username IN (SELECT c.username FROM creators c WHERE c.user_id = auth.uid())
+      AND (p_creator IS NULL OR p.creator_username = p_creator)
+      AND (p_nsfw IS NULL OR i.nsfw = p_nsfw)
+      AND (p_published_from IS NULL OR p.published_at >= p_published_from)
+      AND (p_published_to IS NULL OR p.published_at < p_published_to)
+      AND i.removed_upstream = FALSE
+      AND p.removed_upstream = FALSE
+      AND NOT EXISTS (
+        SELECT 1 FROM post_interactions pi
+        WHERE pi.post_id = i.post_id AND pi.user_id = auth.uid() AND pi.is_hidden
+      )
+    ORDER BY i.post_id, rank DESC, i.image_id
+  )
+  SELECT
+    best.post_id::BIGINT,
+    best.image_id::BIGINT,
+    best.url::TEXT,
+    best.width::INTEGER,
+    best.height::INTEGER,
+    best.nsfw::BOOLEAN,
+    best.creator_username::TEXT,
+    best.published_at::TIMESTAMPTZ,
+    best.rank::REAL,
+    ts_headline('english', best.matched_text, best.query,
+      'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "')
+  FROM best
+  ORDER BY best.rank DESC, best.published_at DESC NULLS LAST, best.post_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
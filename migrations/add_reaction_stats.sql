@@ -0,0 +1,46 @@
+-- Reaction and comment counts per post, rolled up from images.stats (see add_image_generation_meta.sql)
+-- reaction_count = likes + hearts + laughs + cries, the number the "Most reacted" sorts use
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS like_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS heart_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS laugh_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cry_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS comment_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS reaction_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS stats_updated_at TIMESTAMPTZ;
+
+-- "Most reacted all time" orders by reaction_count, "this week" also filters on published_at
+CREATE INDEX IF NOT EXISTS idx_posts_creator_reactions ON posts(creator_username, reaction_count DESC, post_id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_published_at ON posts(published_at DESC);
+
+-- Recompute the counts of some posts from their images' stats (images removed on Civitai don't count)
+-- Every post passed in is updated, so one whose images were all removed goes back to 0
+-- Called by the sync after it saves images; runs as the caller, like the sync's own post updates
+CREATE OR REPLACE FUNCTION public.refresh_post_stats(p_post_ids BIGINT[])
+RETURNS VOID AS $$
+  UPDATE posts p
+  SET
+    like_count = s.like_count,
+    heart_count = s.heart_count,
+    laugh_count = s.laugh_count,
+    cry_count = s.cry_count,
+    comment_count = s.comment_count,
+    reaction_count = s.like_count + s.heart_count + s.laugh_count + s.cry_count,
+    stats_updated_at = NOW()
+  FROM (
+    SELECT
+      ids.post_id,
+      COALESCE(SUM((i.stats->>'likeCount')::INTEGER), 0) AS like_count,
+      COALESCE(SUM((i.stats->>'heartCount')::INTEGER), 0) AS heart_count,
+      COALESCE(SUM((i.stats->>'laughCount')::INTEGER), 0) AS laugh_count,
+      COALESCE(SUM((i.stats->>'cryCount')::INTEGER), 0) AS cry_count,
+      COALESCE(SUM((i.stats->>'commentCount')::INTEGER), 0) AS comment_count
+    FROM unnest(p_post_ids) AS ids(post_id)
+    LEFT JOIN images i ON i.post_id = ids.post_id AND i.removed_upstream = FALSE
+    GROUP BY ids.post_id
+  ) s
+  WHERE p.post_id = s.post_id;
+$$ LANGUAGE sql VOLATILE;
+
+-- Backfill from the stats already saved
+SELECT public.refresh_post_stats(ARRAY(SELECT DISTINCT post_id FROM images WHERE stats IS NOT NULL));
@@ -0,0 +1,19 @@
+-- Track posts and images that were deleted on Civitai
+-- Reconciliation syncs flag them instead of deleting, so favorites and interactions survive
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS removed_upstream BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS removed_upstream_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE images
+ADD COLUMN IF NOT EXISTS removed_upstream BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS removed_upstream_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_posts_removed_upstream ON posts(creator_username) WHERE removed_upstream;
+
+-- Reconciliation runs as its own job kind and stores its diff summary on the job
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_kind_check;
+ALTER TABLE sync_jobs
+ADD CONSTRAINT sync_jobs_kind_check CHECK (kind IN ('check', 'sync', 'reconcile'));
+
+ALTER TABLE sync_jobs
+ADD COLUMN IF NOT EXISTS reconcile_summary JSONB;
@@ -0,0 +1,84 @@
+-- Checkpoints, LoRAs and embeddings used to generate images, read from the image metadata at sync time
+-- key identifies a resource across images: version:<modelVersionId>, hash:<hash> or name:<type>:<name>
+-- (see getImageResources in src/lib/civitai.ts). Links are filled in whenever images are saved
+-- (sync, reconcile, Sync images on a post)
+CREATE TABLE IF NOT EXISTS resources (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL CHECK (type IN ('checkpoint', 'lora', 'embedding', 'other')),
+  name TEXT,
+  hash TEXT,
+  model_version_id BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS image_resources (
+  image_id BIGINT NOT NULL REFERENCES images(image_id) ON DELETE CASCADE,
+  resource_id BIGINT NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  weight REAL,
+  PRIMARY KEY (image_id, resource_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_resources_resource ON image_resources(resource_id);
+
+-- Enable RLS
+ALTER TABLE resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE image_resources ENABLE ROW LEVEL SECURITY;
+
+-- Shared like posts and images; the browser saves links when it syncs a post
+CREATE POLICY "All authenticated users can view resources" ON resources
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can insert resources" ON resources
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "All authenticated users can view image resources" ON image_resources
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can insert image resources" ON image_resources
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete image resources" ON image_resources
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+-- Most used resources across the current user's creators (or one creator), hidden posts included
+CREATE OR REPLACE FUNCTION public.resource_usage(
+  p_creator TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id BIGINT,
+  key TEXT,
+  type TEXT,
+  name TEXT,
+  hash TEXT,
+  model_version_id BIGINT,
+  image_count BIGINT,
+  post_count BIGINT,
+  creator_count BIGINT,
+  last_used_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    r.id,
+    r.key,
+    r.type,
+    r.name,
+    r.hash,
+    r.model_version_id,
+    COUNT(*) AS image_count,
+    COUNT(DISTINCT p.post_id) AS post_count,
+    COUNT(DISTINCT p.creator_username) AS creator_count,
+    MAX(p.published_at) AS last_used_at
+  FROM resources r
+  JOIN image_resources ir ON ir.resource_id = r.id
+  JOIN images i ON i.image_id = ir.image_id
+  JOIN posts p ON p.post_id = i.post_id
+  WHERE p.creator_username IN (SELECT c.username FROM creators c WHERE c.user_id = auth.uid())
+    AND (p_creator IS NULL OR p.creator_username = p_creator)
+    AND (p_type IS NULL OR r.type = p_type)
+    AND i.removed_upstream = FALSE
+  GROUP BY r.id
+  ORDER BY post_count DESC, image_count DESC, r.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
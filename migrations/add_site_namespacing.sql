@@ -0,0 +1,74 @@
+-- Namespace posts and images by the site they came from (see src/lib/sourceAdapters.ts)
+-- post_id and image_id stay the keys everything else references. Civitai rows keep Civitai's own
+-- (positive) IDs; rows from other sites get negative IDs from resolve_site_ids(), so they can't collide.
+-- (site, external_id) is the site's own ID for every row.
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS site TEXT NOT NULL DEFAULT 'civitai',
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+ALTER TABLE images
+ADD COLUMN IF NOT EXISTS site TEXT NOT NULL DEFAULT 'civitai',
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+-- Civitai rows are written with post_id/image_id only; fill in their external_id
+-- TG_ARGV[0] is the ID column of the table
+CREATE OR REPLACE FUNCTION public.set_civitai_external_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.external_id IS NULL AND NEW.site = 'civitai' THEN
+    NEW.external_id := to_jsonb(NEW) ->> TG_ARGV[0];
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_set_external_id ON posts;
+CREATE TRIGGER posts_set_external_id
+  BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION public.set_civitai_external_id('post_id');
+
+DROP TRIGGER IF EXISTS images_set_external_id ON images;
+CREATE TRIGGER images_set_external_id
+  BEFORE INSERT OR UPDATE ON images
+  FOR EACH ROW EXECUTE FUNCTION public.set_civitai_external_id('image_id');
+
+-- Backfill
+UPDATE posts SET external_id = post_id::TEXT WHERE external_id IS NULL;
+UPDATE images SET external_id = image_id::TEXT WHERE external_id IS NULL;
+
+ALTER TABLE posts ALTER COLUMN external_id SET NOT NULL;
+ALTER TABLE images ALTER COLUMN external_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_site_external_id ON posts(site, external_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_images_site_external_id ON images(site, external_id);
+
+-- Local IDs for sites other than Civitai count down from -1
+CREATE SEQUENCE IF NOT EXISTS site_post_id_seq INCREMENT BY -1 MAXVALUE -1 START WITH -1;
+CREATE SEQUENCE IF NOT EXISTS site_image_id_seq INCREMENT BY -1 MAXVALUE -1 START WITH -1;
+
+-- Only checked for new rows: older browser extension rows may not follow it
+ALTER TABLE posts
+ADD CONSTRAINT posts_site_id_range CHECK ((site = 'civitai') = (post_id > 0)) NOT VALID;
+ALTER TABLE images
+ADD CONSTRAINT images_site_id_range CHECK ((site = 'civitai') = (image_id > 0)) NOT VALID;
+
+-- Map a site's post or image IDs to local IDs, allocating new ones for IDs not seen before
+-- Civitai IDs map to themselves. Called by a sync before it saves rows from a site other than Civitai.
+-- p_kind: 'post' or 'image'
+CREATE OR REPLACE FUNCTION public.resolve_site_ids(p_site TEXT, p_kind TEXT, p_external_ids TEXT[])
+RETURNS TABLE (external_id TEXT, local_id BIGINT) AS $$
+  SELECT
+    e.external_id,
+    CASE
+      WHEN p_site = 'civitai' THEN e.external_id::BIGINT
+      WHEN p_kind = 'post' THEN COALESCE(
+        (SELECT p.post_id FROM posts p WHERE p.site = p_site AND p.external_id = e.external_id),
+        nextval('site_post_id_seq')
+      )
+      ELSE COALESCE(
+        (SELECT i.image_id FROM images i WHERE i.site = p_site AND i.external_id = e.external_id),
+        nextval('site_image_id_seq')
+      )
+    END
+  FROM unnest(p_external_ids) AS e(external_id);
+$$ LANGUAGE sql VOLATILE;
@@ -0,0 +1,287 @@
+-- Smart feeds: named feeds the user defines with filter rules, each shown as its own tab (see src/lib/smartFeeds.ts)
+-- A smart feed is evaluated by the same feed_filter / feed_posts / feed_neighbours as the Feed, with the new
+-- 'creators' source when it's limited to some creators (the Feed's following source otherwise).
+DROP FUNCTION IF EXISTS public.feed_neighbours(BIGINT, TEXT, TEXT, TEXT, TIMESTAMPTZ, BOOLEAN, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.feed_posts(TEXT, TEXT, TEXT, TIMESTAMPTZ, BOOLEAN, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER, TEXT, TEXT, TEXT, BIGINT[], INTEGER, BIGINT, INTEGER);
+DROP FUNCTION IF EXISTS public.feed_filter(TEXT, TEXT, TIMESTAMPTZ, BOOLEAN, BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER, TEXT, TEXT, TEXT);
+
+-- Every post in a feed, unsorted
+-- p_source: 'following' (followed creators and sources, not the user's own posts), 'creator' (p_creator's
+-- posts), 'creators' (posts by any of p_creators, for smart feeds), 'favorites' or 'hidden'
+-- p_published_since: only posts published since then (the "this week" sort)
+-- p_include_nsfw: NSFW posts even when the user's show_nsfw setting is off
+-- p_include_hidden: hidden posts too (the hidden feed always has them)
+-- p_published_from / p_published_to: published on or after / before (p_published_to is exclusive)
+-- p_min_images / p_max_images: image count range, both included
+-- p_orientation: 'portrait', 'landscape' or 'square' cover (within 5%); posts without cover dimensions don't match
+-- p_media: 'video' (.mp4 cover) or 'image'
+-- p_nsfw: 'sfw' or 'nsfw' for only those, whatever show_nsfw is; NULL follows show_nsfw
+-- via_source_*: for following, the user's oldest source that brought in a post by a creator who isn't followed
+CREATE OR REPLACE FUNCTION public.feed_filter(
+  p_source TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_creators TEXT[] DEFAULT NULL,
+  p_published_since TIMESTAMPTZ DEFAULT NULL,
+  p_include_nsfw BOOLEAN DEFAULT FALSE,
+  p_include_hidden BOOLEAN DEFAULT FALSE,
+  p_published_from TIMESTAMPTZ DEFAULT NULL,
+  p_published_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_orientation TEXT DEFAULT NULL,
+  p_media TEXT DEFAULT NULL,
+  p_nsfw TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  creator_username TEXT,
+  cover_image_url TEXT,
+  cover_width INTEGER,
+  cover_height INTEGER,
+  image_count INTEGER,
+  reaction_count INTEGER,
+  nsfw BOOLEAN,
+  published_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  is_favorited BOOLEAN,
+  is_hidden BOOLEAN,
+  via_source_type TEXT,
+  via_source_civitai_id BIGINT,
+  via_source_name TEXT
+) AS $$
+  WITH me AS (
+    SELECT
+      us.civitai_username AS username,
+      COALESCE(us.show_nsfw, TRUE) AS show_nsfw
+    FROM (SELECT 1) AS one
+    LEFT JOIN user_settings us ON us.user_id = auth.uid()
+  ),
+  followed AS (
+    SELECT c.username FROM creators c WHERE c.user_id = auth.uid()
+  )
+  SELECT
+    p.post_id::BIGINT,
+    p.creator_username::TEXT,
+    p.cover_image_url::TEXT,
+    p.cover_width::INTEGER,
+    p.cover_height::INTEGER,
+    p.image_count::INTEGER,
+    p.reaction_count::INTEGER,
+    p.nsfw::BOOLEAN,
+    p.published_at::TIMESTAMPTZ,
+    p.updated_at::TIMESTAMPTZ,
+    COALESCE(pi.is_favorited, FALSE),
+    COALESCE(pi.is_hidden, FALSE),
+    via.type::TEXT,
+    via.civitai_id::BIGINT,
+    via.name::TEXT
+  FROM posts p
+  CROSS JOIN me
+  LEFT JOIN post_interactions pi ON pi.post_id = p.post_id AND pi.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT s.type, s.civitai_id, s.name
+    FROM source_posts sp
+    JOIN sources s ON s.id = sp.source_id
+    WHERE p_source = 'following'
+      AND sp.post_id = p.post_id
+      AND s.user_id = auth.uid()
+      AND p.creator_username NOT IN (SELECT username FROM followed)
+    ORDER BY s.created_at, s.id
+    LIMIT 1
+  ) via ON TRUE
+  -- Only synced posts, except in the user's own lists, so every favorite and hidden post can be reached
+  WHERE (p.cover_image_url IS NOT NULL OR p_source IN ('favorites', 'hidden'))
+    AND CASE p_source
+      WHEN 'following' THEN
+        (p.creator_username IN (SELECT username FROM followed) OR via.type IS NOT NULL)
+        AND (me.username IS NULL OR p.creator_username <> me.username)
+      WHEN 'creator' THEN p.creator_username = p_creator
+      WHEN 'creators' THEN p.creator_username = ANY(p_creators)
+      WHEN 'favorites' THEN COALESCE(pi.is_favorited, FALSE)
+      WHEN 'hidden' THEN COALESCE(pi.is_hidden, FALSE)
+      ELSE FALSE
+    END
+    AND (p_source = 'hidden' OR p_include_hidden OR NOT COALESCE(pi.is_hidden, FALSE))
+    AND CASE p_nsfw
+      WHEN 'sfw' THEN NOT p.nsfw
+      WHEN 'nsfw' THEN p.nsfw
+      ELSE p_include_nsfw OR me.show_nsfw OR NOT p.nsfw
+    END
+    AND (p_published_since IS NULL OR p.published_at >= p_published_since)
+    AND (p_published_from IS NULL OR p.published_at >= p_published_from)
+    AND (p_published_to IS NULL OR p.published_at < p_published_to)
+    AND (p_min_images IS NULL OR COALESCE(p.image_count, 0) >= p_min_images)
+    AND (p_max_images IS NULL OR COALESCE(p.image_count, 0) <= p_max_images)
+    AND CASE p_orientation
+      WHEN 'square' THEN ABS(p.cover_width - p.cover_height) <= 0.05 * GREATEST(p.cover_width, p.cover_height)
+      WHEN 'portrait' THEN p.cover_height - p.cover_width > 0.05 * p.cover_height
+      WHEN 'landscape' THEN p.cover_width - p.cover_height > 0.05 * p.cover_width
+      ELSE TRUE
+    END
+    AND CASE p_media
+      WHEN 'video' THEN p.cover_image_url ILIKE '%.mp4'
+      WHEN 'image' THEN p.cover_image_url NOT ILIKE '%.mp4'
+      ELSE TRUE
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- One page of a feed in its sort
+-- The first page (no cursor) has the number of posts in the whole feed on every row, later pages NULL,
+-- so paging down doesn't count the whole feed again
+-- p_sort: 'newest' orders by post_id, the reaction sorts by reaction_count then post_id, highest first
+-- p_post_ids: only these posts (merging in posts a sync just saved)
+-- p_after_post_id / p_after_reaction_count: the last post of the previous page (NULL for the first page)
+--   The reaction count is the one the client was given, so a count refreshed since doesn't move the cursor
+CREATE OR REPLACE FUNCTION public.feed_posts(
+  p_source TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_creators TEXT[] DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_published_since TIMESTAMPTZ DEFAULT NULL,
+  p_include_nsfw BOOLEAN DEFAULT FALSE,
+  p_include_hidden BOOLEAN DEFAULT FALSE,
+  p_published_from TIMESTAMPTZ DEFAULT NULL,
+  p_published_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_orientation TEXT DEFAULT NULL,
+  p_media TEXT DEFAULT NULL,
+  p_nsfw TEXT DEFAULT NULL,
+  p_post_ids BIGINT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 30,
+  p_after_post_id BIGINT DEFAULT NULL,
+  p_after_reaction_count INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  post_id BIGINT,
+  creator_username TEXT,
+  cover_image_url TEXT,
+  cover_width INTEGER,
+  cover_height INTEGER,
+  image_count INTEGER,
+  reaction_count INTEGER,
+  nsfw BOOLEAN,
+  published_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  is_favorited BOOLEAN,
+  is_hidden BOOLEAN,
+  via_source_type TEXT,
+  via_source_civitai_id BIGINT,
+  via_source_name TEXT,
+  total_count BIGINT
+) AS $$
+  WITH feed AS (
+    SELECT
+      f.*,
+      CASE WHEN p_sort = 'newest' THEN 0 ELSE f.reaction_count END AS sort_key
+    FROM public.feed_filter(
+      p_source, p_creator, p_creators, p_published_since, p_include_nsfw, p_include_hidden,
+      p_published_from, p_published_to, p_min_images, p_max_images, p_orientation, p_media, p_nsfw
+    ) f
+    WHERE p_post_ids IS NULL OR f.post_id = ANY(p_post_ids)
+  )
+  SELECT
+    feed.post_id,
+    feed.creator_username,
+    feed.cover_image_url,
+    feed.cover_width,
+    feed.cover_height,
+    feed.image_count,
+    feed.reaction_count,
+    feed.nsfw,
+    feed.published_at,
+    feed.updated_at,
+    feed.is_favorited,
+    feed.is_hidden,
+    feed.via_source_type,
+    feed.via_source_civitai_id,
+    feed.via_source_name,
+    -- Counted before the cursor applies (an init plan, run only when the first page asks for it)
+    CASE WHEN p_after_post_id IS NULL THEN (SELECT COUNT(*) FROM feed) END AS total_count
+  FROM feed
+  WHERE p_after_post_id IS NULL
+    OR (feed.sort_key, feed.post_id) <
+      (CASE WHEN p_sort = 'newest' THEN 0 ELSE COALESCE(p_after_reaction_count, 0) END, p_after_post_id)
+  ORDER BY feed.sort_key DESC, feed.post_id DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- The posts shown before and after one in a feed's sort, for previous/next navigation
+-- Works whether or not the post itself is still in the feed (e.g. it was just hidden)
+CREATE OR REPLACE FUNCTION public.feed_neighbours(
+  p_post_id BIGINT,
+  p_source TEXT,
+  p_creator TEXT DEFAULT NULL,
+  p_creators TEXT[] DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_published_since TIMESTAMPTZ DEFAULT NULL,
+  p_include_nsfw BOOLEAN DEFAULT FALSE,
+  p_include_hidden BOOLEAN DEFAULT FALSE,
+  p_published_from TIMESTAMPTZ DEFAULT NULL,
+  p_published_to TIMESTAMPTZ DEFAULT NULL,
+  p_min_images INTEGER DEFAULT NULL,
+  p_max_images INTEGER DEFAULT NULL,
+  p_orientation TEXT DEFAULT NULL,
+  p_media TEXT DEFAULT NULL,
+  p_nsfw TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  prev_post_id BIGINT,
+  next_post_id BIGINT
+) AS $$
+  WITH current_post AS (
+    SELECT CASE WHEN p_sort = 'newest' THEN 0 ELSE COALESCE(p.reaction_count, 0) END AS sort_key
+    FROM posts p
+    WHERE p.post_id = p_post_id
+  ),
+  feed AS (
+    SELECT f.post_id, CASE WHEN p_sort = 'newest' THEN 0 ELSE f.reaction_count END AS sort_key
+    FROM public.feed_filter(
+      p_source, p_creator, p_creators, p_published_since, p_include_nsfw, p_include_hidden,
+      p_published_from, p_published_to, p_min_images, p_max_images, p_orientation, p_media, p_nsfw
+    ) f
+  )
+  SELECT
+    (SELECT feed.post_id FROM feed, current_post
+      WHERE (feed.sort_key, feed.post_id) > (current_post.sort_key, p_post_id)
+      ORDER BY feed.sort_key, feed.post_id
+      LIMIT 1)::BIGINT,
+    (SELECT feed.post_id FROM feed, current_post
+      WHERE (feed.sort_key, feed.post_id) < (current_post.sort_key, p_post_id)
+      ORDER BY feed.sort_key DESC, feed.post_id DESC
+      LIMIT 1)::BIGINT;
+$$ LANGUAGE sql STABLE;
+
+-- Smart feed definitions, in tab order
+-- creators: only posts by these creators (empty: everything the Feed shows)
+-- filters: the filters as the app encodes them (PostFilters in src/lib/feedQuery.ts)
+CREATE TABLE IF NOT EXISTS smart_feeds (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  creators TEXT[] NOT NULL DEFAULT '{}',
+  filters JSONB NOT NULL DEFAULT '{}',
+  sort TEXT NOT NULL DEFAULT 'newest' CHECK (sort IN ('newest', 'reacted-week', 'reacted-all')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_feeds_user_position ON smart_feeds(user_id, position);
+
+-- Enable RLS
+ALTER TABLE smart_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view own smart feeds" ON smart_feeds
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own smart feeds" ON smart_feeds
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own smart feeds" ON smart_feeds
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own smart feeds" ON smart_feeds
+  FOR DELETE USING (auth.uid() = user_id);
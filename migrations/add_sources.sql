@@ -0,0 +1,59 @@
+-- Follow a model, a model version (e.g. one LoRA release) or a collection, not just a creator
+-- Their images are synced into the same posts/images tables; source_posts records which source
+-- brought each post in, so the Feed can show it and say where it came from.
+-- The Civitai images API can't filter by tag, so tags can't be followed.
+CREATE TABLE IF NOT EXISTS sources (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('model', 'model_version', 'collection')),
+  civitai_id BIGINT NOT NULL,
+  name TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'pending' CHECK (sync_status IN ('pending', 'syncing', 'completed', 'error')),
+  sync_error TEXT,
+  last_synced_at TIMESTAMPTZ,
+  total_posts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, type, civitai_id)
+);
+
+CREATE TABLE IF NOT EXISTS source_posts (
+  source_id BIGINT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+  post_id BIGINT NOT NULL REFERENCES posts(post_id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_posts_post ON source_posts(post_id);
+
+-- Enable RLS
+ALTER TABLE sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE source_posts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (the sync worker uses the service role and bypasses these)
+CREATE POLICY "Users can view own sources" ON sources
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own sources" ON sources
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own sources" ON sources
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own sources" ON sources
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own source posts" ON source_posts
+  FOR SELECT USING (source_id IN (SELECT id FROM sources WHERE user_id = auth.uid()));
+
+-- Sync jobs run for either a creator or a source
+ALTER TABLE sync_jobs
+ALTER COLUMN creator_username DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS source_id BIGINT REFERENCES sources(id) ON DELETE CASCADE;
+
+ALTER TABLE sync_jobs
+ADD CONSTRAINT sync_jobs_creator_or_source CHECK ((creator_username IS NULL) <> (source_id IS NULL));
+
+-- Only one active job per source
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_active_source
+  ON sync_jobs(source_id)
+  WHERE status IN ('queued', 'running');
@@ -0,0 +1,49 @@
+-- Classify sync failures and schedule retries per category (see src/lib/syncErrors.ts)
+ALTER TABLE creators
+ADD COLUMN IF NOT EXISTS sync_error TEXT,
+ADD COLUMN IF NOT EXISTS sync_error_category TEXT,
+ADD COLUMN IF NOT EXISTS sync_failures INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS parked_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN creators.next_sync_at IS 'Earliest time the background sync may retry this creator after a failure';
+COMMENT ON COLUMN creators.parked_at IS 'Set when the creator was not found on Civitai; parked creators are only synced by hand';
+
+-- Requeued jobs wait for their retry delay before a worker may claim them
+ALTER TABLE sync_jobs
+ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.claim_sync_job(p_worker_id TEXT, p_stale_after INTERVAL DEFAULT '2 minutes')
+RETURNS SETOF sync_jobs AS $$
+BEGIN
+  -- Give up on jobs that keep crashing their workers
+  UPDATE sync_jobs
+  SET status = 'failed',
+      error = 'Worker stopped heartbeating after ' || attempts || ' attempts',
+      finished_at = NOW(),
+      updated_at = NOW()
+  WHERE status = 'running'
+    AND heartbeat_at < NOW() - p_stale_after
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE sync_jobs
+  SET status = 'running',
+      locked_by = p_worker_id,
+      attempts = attempts + 1,
+      started_at = COALESCE(started_at, NOW()),
+      heartbeat_at = NOW(),
+      updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM sync_jobs
+    WHERE (status = 'queued' AND (run_after IS NULL OR run_after <= NOW()))
+       OR (status = 'running' AND heartbeat_at < NOW() - p_stale_after)
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.claim_sync_job(TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,15 @@
+-- Per-creator sync frequency, replacing the global "not synced in the last 24 hours" rule
+-- next_sync_at (added in add_sync_error_scheduling.sql) now holds the next planned check as well as retry delays
+ALTER TABLE creators
+ADD COLUMN IF NOT EXISTS sync_frequency TEXT NOT NULL DEFAULT 'daily'
+  CHECK (sync_frequency IN ('hourly', 'daily', 'weekly', 'adaptive', 'manual'));
+
+COMMENT ON COLUMN creators.sync_frequency IS 'How often the background sync checks for new posts; adaptive learns it from published_at history (see src/lib/syncSchedule.ts)';
+COMMENT ON COLUMN creators.next_sync_at IS 'Next planned check, or the earliest retry after a failure; NULL means due now (manual creators are never due)';
+
+-- Keep the old 24-hour schedule for creators synced before this migration
+UPDATE creators
+SET next_sync_at = last_synced_at + INTERVAL '1 day'
+WHERE next_sync_at IS NULL AND last_synced_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_creators_next_sync ON creators(user_id, next_sync_at);
@@ -0,0 +1,3 @@
+-- Record which posts a sync job saved, so the UI can add just those posts to open feeds
+ALTER TABLE sync_jobs
+ADD COLUMN IF NOT EXISTS new_post_ids BIGINT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,40 @@
+-- Users can only queue jobs for their own creators and sources, and can only cancel jobs
+-- The worker runs every job with the service role, so a job naming another user's source would
+-- otherwise sync (and update) it; status, cursor, attempts, locks and run_after are the worker's alone.
+DROP POLICY IF EXISTS "Users can insert own sync jobs" ON sync_jobs;
+CREATE POLICY "Users can insert own sync jobs" ON sync_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (creator_username IS NULL OR EXISTS (
+      SELECT 1 FROM creators c WHERE c.user_id = auth.uid() AND c.username = sync_jobs.creator_username
+    ))
+    AND (source_id IS NULL OR EXISTS (
+      SELECT 1 FROM sources s WHERE s.user_id = auth.uid() AND s.id = sync_jobs.source_id
+    ))
+    -- New jobs start queued, with none of the worker's state
+    AND status = 'queued'
+    AND attempts = 0
+    AND cursor IS NULL
+    AND locked_by IS NULL
+    AND heartbeat_at IS NULL
+    AND run_after IS NULL
+  );
+
+-- No UPDATE policy: the browser cancels through cancel_sync_jobs()
+DROP POLICY IF EXISTS "Users can update own sync jobs" ON sync_jobs;
+
+-- Cancel the caller's queued and running jobs for a creator
+-- A running job's worker sees the status on its cancel poll and aborts the sync
+CREATE OR REPLACE FUNCTION public.cancel_sync_jobs(p_creator_username TEXT)
+RETURNS VOID AS $$
+  UPDATE sync_jobs
+  SET status = 'cancelled',
+      finished_at = NOW(),
+      updated_at = NOW()
+  WHERE user_id = auth.uid()
+    AND creator_username = p_creator_username
+    AND status IN ('queued', 'running');
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_sync_jobs(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_sync_jobs(TEXT) TO authenticated;
@@ -0,0 +1,81 @@
+-- Server-side sync job queue
+-- The UI enqueues jobs, the sync worker (worker/syncWorker.ts) claims and runs them.
+-- Jobs store their cursor after every page so a crashed worker's job can resume.
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  creator_username TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'sync' CHECK (kind IN ('check', 'sync')),
+  full_backfill BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  cursor TEXT,
+  pages_fetched INTEGER NOT NULL DEFAULT 0,
+  total_posts INTEGER NOT NULL DEFAULT 0,
+  total_images INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  locked_by TEXT,
+  heartbeat_at TIMESTAMPTZ,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one active job per creator per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_active_creator
+  ON sync_jobs(user_id, creator_username)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status, created_at);
+
+-- Enable RLS
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (the worker uses the service role and bypasses these)
+CREATE POLICY "Users can view own sync jobs" ON sync_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own sync jobs" ON sync_jobs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own sync jobs" ON sync_jobs
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Claim the oldest queued job, or a running job whose worker stopped heartbeating
+CREATE OR REPLACE FUNCTION public.claim_sync_job(p_worker_id TEXT, p_stale_after INTERVAL DEFAULT '2 minutes')
+RETURNS SETOF sync_jobs AS $$
+BEGIN
+  -- Give up on jobs that keep crashing their workers
+  UPDATE sync_jobs
+  SET status = 'failed',
+      error = 'Worker stopped heartbeating after ' || attempts || ' attempts',
+      finished_at = NOW(),
+      updated_at = NOW()
+  WHERE status = 'running'
+    AND heartbeat_at < NOW() - p_stale_after
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE sync_jobs
+  SET status = 'running',
+      locked_by = p_worker_id,
+      attempts = attempts + 1,
+      started_at = COALESCE(started_at, NOW()),
+      heartbeat_at = NOW(),
+      updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM sync_jobs
+    WHERE status = 'queued'
+       OR (status = 'running' AND heartbeat_at < NOW() - p_stale_after)
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claiming is for the worker only
+REVOKE EXECUTE ON FUNCTION public.claim_sync_job(TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,35 @@
+-- Sync history: one row per syncCreator / checkForNewPosts / syncIncompletePosts run
+-- Shown per creator in Settings to diagnose missing posts without reading console logs
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  creator_username TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('sync', 'check', 'incomplete', 'reconcile')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  requests INTEGER NOT NULL DEFAULT 0,
+  pages INTEGER NOT NULL DEFAULT 0,
+  new_posts INTEGER NOT NULL DEFAULT 0,
+  new_images INTEGER NOT NULL DEFAULT 0,
+  errors TEXT[] NOT NULL DEFAULT '{}',
+  stop_reason TEXT CHECK (stop_reason IN (
+    'caught_up', 'end_of_feed', 'max_requests', 'completed', 'new_posts_found',
+    'cancelled', 'rate_limited', 'error'
+  )),
+  details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_creator ON sync_runs(user_id, creator_username, started_at DESC);
+
+-- Enable RLS
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (the worker uses the service role and bypasses these)
+CREATE POLICY "Users can view own sync runs" ON sync_runs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own sync runs" ON sync_runs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own sync runs" ON sync_runs
+  FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- Sync worker status: one row per running worker (worker/syncWorker.ts)
+-- Workers publish their Civitai rate limiter state here so Settings can show when syncs are throttled;
+-- the limiter in the browser tab sends no sync requests and never sees the 429s.
+CREATE TABLE IF NOT EXISTS sync_workers (
+  worker_id TEXT PRIMARY KEY,
+  rate_limit JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE sync_workers ENABLE ROW LEVEL SECURITY;
+
+-- Workers are shared by every user (the worker uses the service role and bypasses this)
+CREATE POLICY "All authenticated users can view sync workers" ON sync_workers
+  FOR SELECT USING (auth.role() = 'authenticated');
@@ -0,0 +1,54 @@
+-- Base schema: the tables that predate the add_*.sql migrations
+-- Run this first on a fresh database, then the migrations in the order worker/test/testDatabase.ts lists them.
+-- Only the columns the migrations don't add themselves; user_id, RLS and everything else come from them.
+CREATE TABLE IF NOT EXISTS creators (
+  id BIGSERIAL PRIMARY KEY,
+  username TEXT NOT NULL,
+  display_name TEXT,
+  avatar_url TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'pending',
+  last_cursor TEXT,
+  last_synced_at TIMESTAMPTZ,
+  total_posts INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS posts (
+  post_id BIGINT PRIMARY KEY,
+  creator_username TEXT NOT NULL,
+  title TEXT,
+  -- NULL for posts the browser extension saved before a sync filled them in
+  cover_image_url TEXT,
+  cover_image_hash TEXT,
+  image_count INTEGER NOT NULL DEFAULT 0,
+  nsfw BOOLEAN NOT NULL DEFAULT false,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_posts_creator ON posts(creator_username, post_id DESC);
+
+CREATE TABLE IF NOT EXISTS images (
+  image_id BIGINT PRIMARY KEY,
+  post_id BIGINT NOT NULL REFERENCES posts(post_id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  hash TEXT,
+  nsfw BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_images_post ON images(post_id);
+
+CREATE TABLE IF NOT EXISTS post_interactions (
+  id BIGSERIAL PRIMARY KEY,
+  post_id BIGINT NOT NULL REFERENCES posts(post_id) ON DELETE CASCADE,
+  is_hidden BOOLEAN NOT NULL DEFAULT false,
+  is_favorited BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_interactions_post ON post_interactions(post_id);
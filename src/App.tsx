@@ -8,12 +8,28 @@ import { Slideshow } from './components/Slideshow';
 import { CreatorFeed } from './components/CreatorFeed';
 import { HiddenPosts } from './components/HiddenPosts';
 import { UnclaimedPosts } from './components/UnclaimedPosts';
+import { PromptSearch } from './components/PromptSearch';
+import { Resources } from './components/Resources';
 import { Login } from './components/Login';
+import { SmartFeedEditor } from './components/SmartFeedEditor';
 import { CivitaiImage } from './lib/civitai';
 import { supabase } from './lib/supabase';
+import { fetchFeedNeighbours, type FeedQuery, type PostFilters } from './lib/feedQuery';
+import { readFiltersFromUrl, writeFiltersToUrl } from './lib/feedFilters';
+import { fetchSmartFeeds, type SmartFeed } from './lib/smartFeeds';
+import { on, emit } from './lib/events';
 import type { User } from '@supabase/supabase-js';
 
-type View = 'feed' | 'myposts' | 'favorites' | 'settings' | 'post-detail' | 'creator-feed' | 'hidden-posts' | 'unclaimed-posts';
+// How often the open tab looks for creators whose next planned check has come up
+const SYNC_SCHEDULE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+type View = 'feed' | 'myposts' | 'favorites' | 'smart-feed' | 'search' | 'settings' | 'post-detail' | 'creator-feed' | 'hidden-posts' | 'unclaimed-posts' | 'resources';
+
+// Views with a filter panel
+type FilterView = 'feed' | 'myposts' | 'creator-feed';
+
+const isFilterView = (view: string): view is FilterView =>
+  view === 'feed' || view === 'myposts' || view === 'creator-feed';
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
@@ -23,7 +39,10 @@ function App() {
   const [selectedPostId, setSelectedPostId] = useState<number | null>(null);
   const [selectedCreator, setSelectedCreator] = useState<string | null>(null);
   const [selectedCreatorForBack, setSelectedCreatorForBack] = useState<string | null>(null);
-  const [postSourceView, setPostSourceView] = useState<'feed' | 'myposts' | 'favorites' | 'creator-feed'>('feed');
+  const [selectedResourceKey, setSelectedResourceKey] = useState<string | null>(null);
+  const [postSourceView, setPostSourceView] = useState<'feed' | 'myposts' | 'favorites' | 'smart-feed' | 'search' | 'creator-feed'>('feed');
+  // Feed the open post was clicked in, for prev/next navigation (null for search results and other lists)
+  const [postFeed, setPostFeed] = useState<FeedQuery | null>(null);
   const [creatorFeedSourceView, setCreatorFeedSourceView] = useState<'feed' | 'myposts' | 'favorites' | 'settings' | 'none'>('feed');
   const [slideshowImages, setSlideshowImages] = useState<CivitaiImage[] | null>(null);
   const [slideshowStartIndex, setSlideshowStartIndex] = useState(0);
@@ -32,18 +51,45 @@ function App() {
   const [feedRefreshTrigger, setFeedRefreshTrigger] = useState(0);
   const [creatorFeedRefreshTrigger, setCreatorFeedRefreshTrigger] = useState(0);
   const [favoritesRefreshTrigger, setFavoritesRefreshTrigger] = useState(0);
+  const [smartFeedRefreshTrigger, setSmartFeedRefreshTrigger] = useState(0);
   const [updatedPostData, setUpdatedPostData] = useState<{ postId: number; imageCount?: number; coverImageUrl?: string } | null>(null);
   const [shouldRemount, setShouldRemount] = useState(true);
   const [myUsername, setMyUsername] = useState<string | null>(null);
+  // Filters of each filterable view; the app opens on the Feed, so a filtered link filters the Feed
+  const [viewFilters, setViewFilters] = useState<Record<FilterView, PostFilters>>(() => ({
+    feed: readFiltersFromUrl(),
+    myposts: {},
+    'creator-feed': {}
+  }));
+  // The user's smart feeds (a Navigation tab each), the open one and the one in the editor ('new' for a new one)
+  const [smartFeeds, setSmartFeeds] = useState<SmartFeed[]>([]);
+  const [selectedSmartFeedId, setSelectedSmartFeedId] = useState<number | null>(null);
+  const [editingSmartFeed, setEditingSmartFeed] = useState<SmartFeed | 'new' | null>(null);
+  const backgroundSyncActive = useRef(false);
+  // Missing sync worker is reported once per page load, not on every scheduled sync
+  const noSyncWorkerReported = useRef(false);
+
+  const selectedSmartFeed = smartFeeds.find(feed => feed.id === selectedSmartFeedId) ?? null;
 
   // Handler for when favorites/interactions change in any feed
-  const handlePostInteractionChange = (sourceView: 'feed' | 'creator' | 'favorites') => {
+  const handlePostInteractionChange = (sourceView: 'feed' | 'creator' | 'favorites' | 'smart-feed') => {
     // Trigger refresh for all OTHER feeds (not the source)
     if (sourceView !== 'feed') setFeedRefreshTrigger(prev => prev + 1);
     if (sourceView !== 'creator') setCreatorFeedRefreshTrigger(prev => prev + 1);
     if (sourceView !== 'favorites') setFavoritesRefreshTrigger(prev => prev + 1);
+    if (sourceView !== 'smart-feed') setSmartFeedRefreshTrigger(prev => prev + 1);
+  };
+
+  const setFiltersOf = (view: FilterView) => (filters: PostFilters) => {
+    setViewFilters(prev => ({ ...prev, [view]: filters }));
   };
 
+  // Keep the open view's filters in the URL (a post keeps the filters of the view it was opened from)
+  useEffect(() => {
+    const filterView = currentView === 'post-detail' ? postSourceView : currentView;
+    writeFiltersToUrl(isFilterView(filterView) ? viewFilters[filterView] : {});
+  }, [currentView, postSourceView, viewFilters]);
+
   // Fetch user's username from settings
   useEffect(() => {
     if (user) {
@@ -58,6 +104,15 @@ function App() {
     }
   }, [user]);
 
+  // Load the user's smart feeds for the Navigation tabs
+  useEffect(() => {
+    if (user) {
+      fetchSmartFeeds()
+        .then(setSmartFeeds)
+        .catch(err => console.error('Error loading smart feeds:', err));
+    }
+  }, [user]);
+
   // Check for existing auth session
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -82,49 +137,57 @@ function App() {
     });
 
     // Listen for manual sync trigger from Settings
-    const handleTriggerSync = () => {
-      console.log('🔄 Manual sync triggered from Settings...');
+    const unsubscribeTriggerSync = on('triggerSync', ({ creator }) => {
+      console.log(`🔄 Manual sync triggered from Settings${creator ? ` (${creator})` : ''}...`);
       startBackgroundSync();
-    };
+    });
 
-    window.addEventListener('triggerSync', handleTriggerSync);
+    // Creators are checked on their own schedule (hourly, adaptive...), so keep looking while the tab is open
+    const scheduleTimer = setInterval(() => {
+      if (!backgroundSyncActive.current) startBackgroundSync();
+    }, SYNC_SCHEDULE_CHECK_INTERVAL_MS);
 
     return () => {
       subscription.unsubscribe();
-      window.removeEventListener('triggerSync', handleTriggerSync);
+      unsubscribeTriggerSync();
+      clearInterval(scheduleTimer);
     };
   }, []);
 
-  // Background sync - check for stale creators and sync them
+  // Background sync - queue jobs for stale creators and sources, and wait for the sync worker to finish them
   const startBackgroundSync = async () => {
     try {
       console.log('🔍 Checking if sync is needed...');
-      const { needsSync, syncAllCreators } = await import('./lib/sync');
+      const { needsSync } = await import('./lib/sync');
+      const { enqueueStaleCreators, enqueueStaleSources, waitForSyncJobs, summarizeSyncJobs, isNoSyncWorkerError } = await import('./lib/syncJobs');
 
       // Check if any creators need syncing
       const shouldSync = await needsSync();
       console.log(`   needsSync returned: ${shouldSync}`);
-
-      if (shouldSync) {
-        console.log('🔄 Starting background sync for stale creators...');
-        // Run sync in background without blocking UI
-        syncAllCreators().then(() => {
-          console.log('✅ Background sync completed');
-          // Trigger refresh of feeds - but don't interrupt active viewing
-          // Only refresh if user is not currently viewing that specific feed
-          setFeedRefreshTrigger((prev: number) => prev + 1);
-          // Don't refresh creator feed if user is actively viewing it
-          if (currentView !== 'creator-feed' && currentView !== 'myposts') {
-            setCreatorFeedRefreshTrigger((prev: number) => prev + 1);
-          }
-          setFavoritesRefreshTrigger((prev: number) => prev + 1);
-          // Dispatch event for Settings to refresh stats
-          window.dispatchEvent(new Event('syncCompleted'));
+      // Followed models and collections are queued as soon as they're due
+      const sourceJobs = await enqueueStaleSources();
+
+      if (shouldSync || sourceJobs.length > 0) {
+        console.log('🔄 Queueing background sync for stale creators...');
+        const jobs = [...(shouldSync ? await enqueueStaleCreators() : []), ...sourceJobs];
+        backgroundSyncActive.current = true;
+        // Watch the jobs in background without blocking UI
+        waitForSyncJobs(jobs.map(job => job.id)).then(finishedJobs => {
+          const summary = summarizeSyncJobs(finishedJobs);
+          console.log(`✅ Background sync completed (${summary.totalNewPosts} new posts)`);
+          // Feeds and Settings merge the new posts in place, without remounting or losing scroll
+          emit('syncCompleted', summary);
         }).catch(err => {
           console.error('❌ Background sync failed:', err);
+          if (isNoSyncWorkerError(err) && !noSyncWorkerReported.current) {
+            noSyncWorkerReported.current = true;
+            alert('Background sync: ' + err.message);
+          }
+        }).finally(() => {
+          backgroundSyncActive.current = false;
         });
       } else {
-        console.log('✅ All creators are up to date (synced within last 24 hours)');
+        console.log('✅ All creators are up to date (no checks due)');
       }
     } catch (err) {
       console.error('Error checking sync status:', err);
@@ -143,7 +206,7 @@ function App() {
     }
   }, [currentView, shouldRestoreScroll, scrollPositions]);
 
-  const handlePostClick = async (postId: number) => {
+  const handlePostClick = async (postId: number, feed?: FeedQuery) => {
     // Save current scroll position
     const scrollY = window.scrollY;
     setScrollPositions(prev => new Map(prev).set(currentView, scrollY));
@@ -151,6 +214,7 @@ function App() {
     setViewHistory([...viewHistory, currentView]);
     setSelectedCreatorForBack(selectedCreator);
     setSelectedPostId(postId);
+    setPostFeed(feed ?? null);
 
     // Track which view the post was opened from
     if (currentView === 'creator-feed') {
@@ -164,6 +228,10 @@ function App() {
       setPostSourceView('myposts');
     } else if (currentView === 'favorites') {
       setPostSourceView('favorites');
+    } else if (currentView === 'smart-feed') {
+      setPostSourceView('smart-feed');
+    } else if (currentView === 'search') {
+      setPostSourceView('search');
     } else {
       setPostSourceView('feed');
     }
@@ -211,6 +279,15 @@ function App() {
     window.scrollTo(0, 0);
   };
 
+  const handleResourceClick = (key: string) => {
+    setViewHistory([...viewHistory, currentView]);
+    setSelectedResourceKey(key);
+    setCurrentView('resources');
+
+    // Scroll to top when opening a resource
+    window.scrollTo(0, 0);
+  };
+
   // Track current post image count for updates
   const [currentPostImageCount, setCurrentPostImageCount] = useState<number | null>(null);
   const [currentPostCoverUrl, setCurrentPostCoverUrl] = useState<string | null>(null);
@@ -302,7 +379,7 @@ function App() {
 
       const { data: imageData, error } = await supabase
         .from('images')
-        .select('image_id, url, nsfw, width, height, hash, post_id, created_at')
+        .select('image_id, url, nsfw, width, height, hash, post_id, created_at, meta, base_model')
         .eq('post_id', nextPostId)
         .order('position', { ascending: true, nullsFirst: false })
         .order('image_id', { ascending: true });
@@ -321,7 +398,9 @@ function App() {
           height: img.height,
           hash: img.hash,
           postId: img.post_id,
-          createdAt: img.created_at
+          createdAt: img.created_at,
+          meta: img.meta,
+          baseModel: img.base_model
         }));
         console.log(`➡️ Slideshow navigating to next post ${nextPostId}: ${images.length} DB images`);
       } else if (postData?.cover_image_url) {
@@ -354,152 +433,18 @@ function App() {
         setSlideshowStartIndex(0);
         console.log(`➡️ Final sorted images: ${sortedImages.length}, starting at first image (index 0)`);
 
-        // Fetch the next-next post ID based on source view context
-        let nextQuery = supabase.from('posts').select('post_id');
-
-        // Check if we came from a specific creator's page (selectedCreatorForBack is set)
-        if (selectedCreatorForBack) {
-          nextQuery = nextQuery.eq('creator_username', selectedCreatorForBack);
-        } else if (postSourceView === 'myposts') {
-          // MyPosts tab (not from creator page)
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              nextQuery = nextQuery.eq('creator_username', myUsername);
-            }
-          }
-        } else if (postSourceView === 'favorites') {
-          const { data: favInteractions } = await supabase
-            .from('post_interactions')
-            .select('post_id')
-            .eq('is_favorited', true);
-
-          const favPostIds = favInteractions?.map(i => i.post_id) || [];
-          if (favPostIds.length > 0) {
-            nextQuery = nextQuery.in('post_id', favPostIds);
-          } else {
-            setSlideshowNextPostId(null);
-            return;
-          }
-        } else if (postSourceView === 'feed') {
-          // Get user's followed creators
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: myCreators } = await supabase
-              .from('creators')
-              .select('username')
-              .eq('user_id', currentUser.id);
-
-            const creatorUsernames = myCreators?.map(c => c.username) || [];
-
-            if (creatorUsernames.length === 0) {
-              setSlideshowNextPostId(null);
-              return;
-            }
-
-            // Filter by followed creators
-            nextQuery = nextQuery.in('creator_username', creatorUsernames);
-
-            // Exclude user's own posts if username is set
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              nextQuery = nextQuery.neq('creator_username', myUsername);
-            }
-          }
-        }
-
-        const { data: nextPostData } = await nextQuery
-          .lt('post_id', nextPostId)
-          .not('cover_image_url', 'is', null)
-          .order('post_id', { ascending: false })
-          .limit(1)
-          .maybeSingle();
-
-        setSlideshowNextPostId(nextPostData?.post_id ?? null);
-
-        // Also fetch the previous post ID from the new current post (nextPostId)
-        let newPrevQuery = supabase.from('posts').select('post_id');
-
-        // Apply same filters as nextQuery
-        if (selectedCreatorForBack) {
-          newPrevQuery = newPrevQuery.eq('creator_username', selectedCreatorForBack);
-        } else if (postSourceView === 'myposts') {
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              newPrevQuery = newPrevQuery.eq('creator_username', myUsername);
-            }
-          }
-        } else if (postSourceView === 'favorites') {
-          const { data: favInteractions } = await supabase
-            .from('post_interactions')
-            .select('post_id')
-            .eq('is_favorited', true);
-
-          const favPostIds = favInteractions?.map(i => i.post_id) || [];
-          if (favPostIds.length > 0) {
-            newPrevQuery = newPrevQuery.in('post_id', favPostIds);
-          }
-        } else if (postSourceView === 'feed') {
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: myCreators } = await supabase
-              .from('creators')
-              .select('username')
-              .eq('user_id', currentUser.id);
-
-            const creatorUsernames = myCreators?.map(c => c.username) || [];
-            if (creatorUsernames.length > 0) {
-              newPrevQuery = newPrevQuery.in('creator_username', creatorUsernames);
-            }
-
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              newPrevQuery = newPrevQuery.neq('creator_username', myUsername);
-            }
-          }
-        }
-
-        const { data: prevPostData } = await newPrevQuery
-          .gt('post_id', nextPostId)
-          .not('cover_image_url', 'is', null)
-          .order('post_id', { ascending: true })
-          .limit(1)
-          .maybeSingle();
-
-        setSlideshowPrevPostId(prevPostData?.post_id ?? null);
-        console.log(`   Updated slideshow navigation - prev: ${prevPostData?.post_id ?? null}, next: ${nextPostData?.post_id ?? null}`);
+        // Neighbours of the new current post in the feed it was opened from
+        const adjacent = postFeed
+          ? await fetchFeedNeighbours(postFeed, nextPostId)
+          : { prevPostId: null, nextPostId: null };
+        setSlideshowNextPostId(adjacent.nextPostId);
+        setSlideshowPrevPostId(adjacent.prevPostId);
+        console.log(`   Updated slideshow navigation - prev: ${adjacent.prevPostId}, next: ${adjacent.nextPostId}`);
       }
     } catch (err) {
       console.error('Error fetching next post images:', err);
     }
-  }, [postSourceView, selectedCreatorForBack, handleNavigatePost]);
+  }, [postFeed, handleNavigatePost]);
 
   const handleSlideshowNavigatePrevious = useCallback(async () => {
     const prevPostId = slideshowPrevPostIdRef.current;
@@ -523,7 +468,7 @@ function App() {
 
       const { data: imageData, error } = await supabase
         .from('images')
-        .select('image_id, url, nsfw, width, height, hash, post_id, created_at')
+        .select('image_id, url, nsfw, width, height, hash, post_id, created_at, meta, base_model')
         .eq('post_id', prevPostId)
         .order('position', { ascending: true, nullsFirst: false })
         .order('image_id', { ascending: true });
@@ -542,7 +487,9 @@ function App() {
           height: img.height,
           hash: img.hash,
           postId: img.post_id,
-          createdAt: img.created_at
+          createdAt: img.created_at,
+          meta: img.meta,
+          baseModel: img.base_model
         }));
         console.log(`⬅️ Slideshow navigating to prev post ${prevPostId}: ${images.length} DB images`);
       } else if (postData?.cover_image_url) {
@@ -576,152 +523,18 @@ function App() {
         setSlideshowImages(sortedImages);
         setSlideshowStartIndex(sortedImages.length - 1);
 
-        // Fetch the prev-prev post ID based on source view context
-        let prevQuery = supabase.from('posts').select('post_id');
-
-        // Check if we came from a specific creator's page (selectedCreatorForBack is set)
-        if (selectedCreatorForBack) {
-          prevQuery = prevQuery.eq('creator_username', selectedCreatorForBack);
-        } else if (postSourceView === 'myposts') {
-          // MyPosts tab (not from creator page)
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              prevQuery = prevQuery.eq('creator_username', myUsername);
-            }
-          }
-        } else if (postSourceView === 'favorites') {
-          const { data: favInteractions } = await supabase
-            .from('post_interactions')
-            .select('post_id')
-            .eq('is_favorited', true);
-
-          const favPostIds = favInteractions?.map(i => i.post_id) || [];
-          if (favPostIds.length > 0) {
-            prevQuery = prevQuery.in('post_id', favPostIds);
-          } else {
-            setSlideshowPrevPostId(null);
-            return;
-          }
-        } else if (postSourceView === 'feed') {
-          // Get user's followed creators
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: myCreators } = await supabase
-              .from('creators')
-              .select('username')
-              .eq('user_id', currentUser.id);
-
-            const creatorUsernames = myCreators?.map(c => c.username) || [];
-
-            if (creatorUsernames.length === 0) {
-              setSlideshowPrevPostId(null);
-              return;
-            }
-
-            // Filter by followed creators
-            prevQuery = prevQuery.in('creator_username', creatorUsernames);
-
-            // Exclude user's own posts if username is set
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              prevQuery = prevQuery.neq('creator_username', myUsername);
-            }
-          }
-        }
-
-        const { data: prevPostData } = await prevQuery
-          .gt('post_id', prevPostId)
-          .not('cover_image_url', 'is', null)
-          .order('post_id', { ascending: true })
-          .limit(1)
-          .maybeSingle();
-
-        setSlideshowPrevPostId(prevPostData?.post_id ?? null);
-
-        // Also fetch the next post ID from the new current post (prevPostId)
-        let newNextQuery = supabase.from('posts').select('post_id');
-
-        // Apply same filters as prevQuery
-        if (selectedCreatorForBack) {
-          newNextQuery = newNextQuery.eq('creator_username', selectedCreatorForBack);
-        } else if (postSourceView === 'myposts') {
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              newNextQuery = newNextQuery.eq('creator_username', myUsername);
-            }
-          }
-        } else if (postSourceView === 'favorites') {
-          const { data: favInteractions } = await supabase
-            .from('post_interactions')
-            .select('post_id')
-            .eq('is_favorited', true);
-
-          const favPostIds = favInteractions?.map(i => i.post_id) || [];
-          if (favPostIds.length > 0) {
-            newNextQuery = newNextQuery.in('post_id', favPostIds);
-          }
-        } else if (postSourceView === 'feed') {
-          const { data: { user: currentUser } } = await supabase.auth.getUser();
-          if (currentUser) {
-            const { data: myCreators } = await supabase
-              .from('creators')
-              .select('username')
-              .eq('user_id', currentUser.id);
-
-            const creatorUsernames = myCreators?.map(c => c.username) || [];
-            if (creatorUsernames.length > 0) {
-              newNextQuery = newNextQuery.in('creator_username', creatorUsernames);
-            }
-
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('civitai_username')
-              .eq('user_id', currentUser.id)
-              .maybeSingle();
-
-            const myUsername = userSettings?.civitai_username;
-            if (myUsername) {
-              newNextQuery = newNextQuery.neq('creator_username', myUsername);
-            }
-          }
-        }
-
-        const { data: nextPostData } = await newNextQuery
-          .lt('post_id', prevPostId)
-          .not('cover_image_url', 'is', null)
-          .order('post_id', { ascending: false })
-          .limit(1)
-          .maybeSingle();
-
-        setSlideshowNextPostId(nextPostData?.post_id ?? null);
-        console.log(`   Updated slideshow navigation - prev: ${prevPostData?.post_id ?? null}, next: ${nextPostData?.post_id ?? null}`);
+        // Neighbours of the new current post in the feed it was opened from
+        const adjacent = postFeed
+          ? await fetchFeedNeighbours(postFeed, prevPostId)
+          : { prevPostId: null, nextPostId: null };
+        setSlideshowPrevPostId(adjacent.prevPostId);
+        setSlideshowNextPostId(adjacent.nextPostId);
+        console.log(`   Updated slideshow navigation - prev: ${adjacent.prevPostId}, next: ${adjacent.nextPostId}`);
       }
     } catch (err) {
       console.error('Error fetching previous post images:', err);
     }
-  }, [postSourceView, selectedCreatorForBack, handleNavigatePost]);
+  }, [postFeed, handleNavigatePost]);
 
   const handleCloseSlideshow = () => {
     setSlideshowImages(null);
@@ -732,7 +545,7 @@ function App() {
     }, 100);
   };
 
-  const handleNavChange = (view: 'feed' | 'myposts' | 'favorites' | 'settings') => {
+  const handleNavChange = (view: 'feed' | 'myposts' | 'favorites' | 'search' | 'settings') => {
     setCurrentView(view);
     setSelectedPostId(null);
     setSelectedCreator(null);
@@ -746,6 +559,33 @@ function App() {
     setShouldRemount(false);
   };
 
+  const handleSmartFeedSelect = (id: number) => {
+    // The open smart feed stays mounted (and keeps its posts) until another one is opened
+    setSelectedSmartFeedId(id);
+    setCurrentView('smart-feed');
+    setSelectedPostId(null);
+    setSelectedCreator(null);
+    setSelectedCreatorForBack(null);
+    setViewHistory(['smart-feed']);
+    window.scrollTo(0, 0);
+    setShouldRemount(false);
+  };
+
+  const handleSmartFeedSaved = (feed: SmartFeed) => {
+    setSmartFeeds(prev => prev.some(f => f.id === feed.id) ? prev.map(f => f.id === feed.id ? feed : f) : [...prev, feed]);
+    setEditingSmartFeed(null);
+    handleSmartFeedSelect(feed.id);
+  };
+
+  const handleSmartFeedDeleted = (id: number) => {
+    setSmartFeeds(prev => prev.filter(feed => feed.id !== id));
+    setEditingSmartFeed(null);
+    if (selectedSmartFeedId === id) {
+      setSelectedSmartFeedId(null);
+      handleNavChange('feed');
+    }
+  };
+
   // Show loading spinner while checking auth
   if (loading) {
     return (
@@ -767,12 +607,16 @@ function App() {
           currentView === 'post-detail'
             ? (postSourceView === 'creator-feed'
                 ? creatorFeedSourceView
-                : (postSourceView as 'feed' | 'myposts' | 'favorites' | 'settings' | 'none'))
+                : (postSourceView as 'feed' | 'myposts' | 'favorites' | 'smart-feed' | 'search' | 'settings' | 'none'))
             : currentView === 'creator-feed'
               ? creatorFeedSourceView
-              : (currentView as 'feed' | 'myposts' | 'favorites' | 'settings')
+              : (currentView as 'feed' | 'myposts' | 'favorites' | 'smart-feed' | 'search' | 'settings')
         }
         onViewChange={handleNavChange}
+        smartFeeds={smartFeeds}
+        currentSmartFeedId={selectedSmartFeedId}
+        onSmartFeedSelect={handleSmartFeedSelect}
+        onNewSmartFeed={() => setEditingSmartFeed('new')}
         showBackButton={currentView === 'post-detail' || currentView === 'creator-feed'}
         onBack={handleBackToFeed}
       />
@@ -784,6 +628,8 @@ function App() {
           refreshTrigger={feedRefreshTrigger}
           updatedPostData={updatedPostData}
           onPostInteractionChange={() => handlePostInteractionChange('feed')}
+          filters={viewFilters.feed}
+          onFiltersChange={setFiltersOf('feed')}
         />
       </div>
       <div style={{ display: currentView === 'myposts' ? 'block' : 'none' }} key={shouldRemount && currentView === 'myposts' ? `myposts-${creatorFeedRefreshTrigger}` : 'myposts-persistent'}>
@@ -794,6 +640,8 @@ function App() {
             refreshTrigger={creatorFeedRefreshTrigger}
             updatedPostData={updatedPostData}
             onPostInteractionChange={() => handlePostInteractionChange('creator')}
+            filters={viewFilters.myposts}
+            onFiltersChange={setFiltersOf('myposts')}
           />
         )}
       </div>
@@ -806,15 +654,41 @@ function App() {
           onPostInteractionChange={() => handlePostInteractionChange('favorites')}
         />
       </div>
+      <div style={{ display: currentView === 'smart-feed' ? 'block' : 'none' }}>
+        {/* An edited definition is a new feed: remount to fetch it with its own sort */}
+        {selectedSmartFeed && (
+          <Feed
+            key={`smart-feed-${selectedSmartFeed.id}-${selectedSmartFeed.updated_at}`}
+            smartFeed={selectedSmartFeed}
+            onEditSmartFeed={() => setEditingSmartFeed(selectedSmartFeed)}
+            onPostClick={handlePostClick}
+            onCreatorClick={handleCreatorClick}
+            refreshTrigger={smartFeedRefreshTrigger}
+            updatedPostData={updatedPostData}
+            onPostInteractionChange={() => handlePostInteractionChange('smart-feed')}
+          />
+        )}
+      </div>
+      <div style={{ display: currentView === 'search' ? 'block' : 'none' }}>
+        <PromptSearch
+          onPostClick={handlePostClick}
+          onCreatorClick={handleCreatorClick}
+        />
+      </div>
       <div style={{ display: currentView === 'settings' ? 'block' : 'none' }}>
         <Settings
           onCreatorClick={handleCreatorClick}
           onViewHidden={() => setCurrentView('hidden-posts')}
           onViewUnclaimed={() => setCurrentView('unclaimed-posts')}
+          onViewResources={() => {
+            setSelectedResourceKey(null);
+            setCurrentView('resources');
+          }}
           onNSFWToggle={() => {
             setFeedRefreshTrigger(prev => prev + 1);
             setCreatorFeedRefreshTrigger(prev => prev + 1);
             setFavoritesRefreshTrigger(prev => prev + 1);
+            setSmartFeedRefreshTrigger(prev => prev + 1);
           }}
         />
       </div>
@@ -834,6 +708,19 @@ function App() {
           />
         )}
       </div>
+      <div style={{ display: currentView === 'resources' ? 'block' : 'none' }}>
+        {currentView === 'resources' && (
+          <Resources
+            resourceKey={selectedResourceKey}
+            onResourceChange={(key) => {
+              setSelectedResourceKey(key);
+              window.scrollTo(0, 0);
+            }}
+            onPostClick={handlePostClick}
+            onCreatorClick={handleCreatorClick}
+          />
+        )}
+      </div>
       <div style={{ display: currentView === 'creator-feed' ? 'block' : 'none' }}>
         {selectedCreator && (
           <CreatorFeed
@@ -843,6 +730,8 @@ function App() {
             refreshTrigger={creatorFeedRefreshTrigger}
             updatedPostData={updatedPostData}
             onPostInteractionChange={() => handlePostInteractionChange('creator')}
+            filters={viewFilters['creator-feed']}
+            onFiltersChange={setFiltersOf('creator-feed')}
           />
         )}
       </div>
@@ -853,10 +742,20 @@ function App() {
           onBack={handleBackToFeed}
           onNavigatePost={handleNavigatePost}
           onCreatorClick={handleCreatorClick}
-          sourceView={postSourceView}
-          creatorUsername={postSourceView === 'creator-feed' ? selectedCreatorForBack || undefined : undefined}
+          feed={postFeed}
           onImageCountChange={setCurrentPostImageCount}
           onCoverImageChange={setCurrentPostCoverUrl}
+          onResourceClick={handleResourceClick}
+        />
+      )}
+
+      {editingSmartFeed && (
+        <SmartFeedEditor
+          feed={editingSmartFeed === 'new' ? null : editingSmartFeed}
+          position={smartFeeds.reduce((last, feed) => Math.max(last, feed.position + 1), 0)}
+          onSaved={handleSmartFeedSaved}
+          onDeleted={handleSmartFeedDeleted}
+          onClose={() => setEditingSmartFeed(null)}
         />
       )}
 
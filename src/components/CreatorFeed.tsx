@@ -1,7 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { supabase, getUserNSFWPreference, ensureHttps } from '../lib/supabase';
+import { on, emit } from '../lib/events';
+import { FEED_SORTS, FEED_SORT_LABELS, type FeedSort } from '../lib/reactions';
+import { fetchFeedPage, fetchFeedPosts, countFeedPosts, appendFeedPosts, mergeFeedPosts, type FeedCursor, type FeedQuery, type PostFilters } from '../lib/feedQuery';
+import { countActiveFilters } from '../lib/feedFilters';
 import Masonry from 'react-masonry-css';
 import { RefreshCw, ExternalLink, ArrowUp } from 'lucide-react';
+import { getSourceAdapter } from '../lib/sourceAdapters';
+import { NewPostsBanner } from './NewPostsBanner';
+import { FeedFilterPanel } from './FeedFilterPanel';
+
+// Scrolled further than this, new posts from a sync wait behind the banner instead of pushing the grid down
+const NEW_POSTS_SCROLL_THRESHOLD = 300;
+
+const NO_FILTERS: PostFilters = {};
 
 interface PostPreview {
   postId: number;
@@ -11,15 +23,19 @@ interface PostPreview {
   isFavorited: boolean;
   coverWidth?: number;
   coverHeight?: number;
+  reactionCount?: number;
 }
 
 interface CreatorFeedProps {
   username: string;
-  onPostClick?: (postId: number) => void;
+  onPostClick?: (postId: number, feed: FeedQuery) => void;
   onBack?: () => void;
   refreshTrigger?: number;
   updatedPostData?: { postId: number; imageCount?: number; coverImageUrl?: string } | null;
   onPostInteractionChange?: () => void;
+  // Filters picked in the filter panel; App keeps them (and the URL) across remounts
+  filters?: PostFilters;
+  onFiltersChange?: (filters: PostFilters) => void;
 }
 
 interface PostCardProps {
@@ -27,9 +43,10 @@ interface PostCardProps {
   onPostClick?: (postId: number) => void;
   onToggleFavorite: (postId: number, currentState: boolean, e: React.MouseEvent) => void;
   onToggleHide: (postId: number, e: React.MouseEvent) => void;
+  showReactions?: boolean;
 }
 
-const PostCard = ({ post, onPostClick, onToggleFavorite, onToggleHide }: PostCardProps) => {
+const PostCard = ({ post, onPostClick, onToggleFavorite, onToggleHide, showReactions }: PostCardProps) => {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [mediaType, setMediaType] = useState<'video' | 'image'>(
     post.coverImageUrl.endsWith('.mp4') ? 'video' : 'image'
@@ -100,6 +117,13 @@ const PostCard = ({ post, onPostClick, onToggleFavorite, onToggleHide }: PostCar
 
         {/* Toolbar */}
         <div className="p-3 flex items-center justify-end gap-2">
+          {/* Reaction count (when sorted by reactions) */}
+          {showReactions && (
+            <span className="text-xs text-gray-500 mr-auto" title="Reactions on Civitai">
+              {(post.reactionCount || 0).toLocaleString()} reactions
+            </span>
+          )}
+
           {/* Icons */}
           <div className="flex items-center gap-2">
             {/* Heart (favorite) */}
@@ -125,7 +149,7 @@ const PostCard = ({ post, onPostClick, onToggleFavorite, onToggleHide }: PostCar
 
             {/* Link out */}
             <a
-              href={`https://civitai.com/posts/${post.postId}`}
+              href={getSourceAdapter().getPostUrl(post.postId)}
               target="_blank"
               rel="noopener noreferrer"
               className="p-1 hover:bg-gray-100 rounded transition-colors"
@@ -174,7 +198,7 @@ const PostCard = ({ post, onPostClick, onToggleFavorite, onToggleHide }: PostCar
   );
 };
 
-export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, updatedPostData, onPostInteractionChange }: CreatorFeedProps) => {
+export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, updatedPostData, onPostInteractionChange, filters = NO_FILTERS, onFiltersChange }: CreatorFeedProps) => {
   const [posts, setPosts] = useState<PostPreview[]>([]);
   const [displayedPosts, setDisplayedPosts] = useState<PostPreview[]>([]);
   const [page, setPage] = useState(1);
@@ -187,8 +211,27 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
   const [nsfwFilterActive, setNsfwFilterActive] = useState(false);
   const [showBackToTop, setShowBackToTop] = useState(false);
   const [hasMore, setHasMore] = useState(true);
-  const [offset, setOffset] = useState(0);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
   const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [sort, setSort] = useState<FeedSort>('newest');
+  // New posts from a sync, waiting for "show" while the user is scrolled down
+  const [pendingPosts, setPendingPosts] = useState<PostPreview[]>([]);
+  // Latest posts, cursor and sort for event listeners
+  const postsRef = useRef<PostPreview[]>([]);
+  postsRef.current = posts;
+  const pendingPostsRef = useRef<PostPreview[]>([]);
+  pendingPostsRef.current = pendingPosts;
+  const cursorRef = useRef<FeedCursor | null>(null);
+  cursorRef.current = cursor;
+  // Bumped by every reload from the top, so responses fetched for an older sort or filters are dropped
+  const feedGenerationRef = useRef(0);
+  const sortRef = useRef<FeedSort>(sort);
+  sortRef.current = sort;
+  const filtersRef = useRef<PostFilters>(filters);
+  filtersRef.current = filters;
+  // Filters the posts shown were fetched with
+  const filtersKey = JSON.stringify(filters);
+  const fetchedFiltersKey = useRef(filtersKey);
   const POSTS_PER_PAGE = 100;
   const INITIAL_POSTS = 50;
 
@@ -242,121 +285,50 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  // Fetch posts when username changes or on initial mount
-  useEffect(() => {
+  const handleSortChange = (newSort: FeedSort) => {
+    sortRef.current = newSort;
+    setSort(newSort);
+    setPage(1);
+    window.scrollTo(0, 0);
     fetchCreatorPosts();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [username]);
-
-  // Refresh when trigger changes
-  useEffect(() => {
-    if (refreshTrigger !== undefined && refreshTrigger > 0) {
-      fetchCreatorPosts();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [refreshTrigger]);
+  };
 
+  // What this feed shows, for pages, counts and prev/next navigation in PostDetail
+  const getFeedQuery = useCallback(
+    (): FeedQuery => ({ source: { type: 'creator', username }, sort: sortRef.current, filters: filtersRef.current }),
+    [username]
+  );
 
-  async function fetchCreatorPosts() {
+  const fetchCreatorPosts = useCallback(async () => {
+    const generation = ++feedGenerationRef.current;
     try {
       setLoading(true);
       setError(null);
-
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        setLoading(false);
-        return;
-      }
-
-      // Get total count of all posts (including hidden ones)
-      const { count: totalCount } = await supabase
-        .from('posts')
-        .select('*', { count: 'exact', head: true })
-        .eq('creator_username', username)
-        .not('cover_image_url', 'is', null);
-
-      setTotalPostCount(totalCount || 0);
-
-      // Get user's NSFW preference
-      const showNSFW = await getUserNSFWPreference();
-      console.log(`🔞 CreatorFeed - User NSFW preference: ${showNSFW ? 'Show' : 'Hide'}`);
-
+      setCursor(null);
+
+      const query = getFeedQuery();
+      const [page, allCount, showNSFW] = await Promise.all([
+        fetchFeedPage(query, null, 100), // Start with 100 posts, load more on scroll
+        // Total count of all posts (including hidden and NSFW ones)
+        countFeedPosts({ ...query, sort: 'newest', filters: { includeNsfw: true, includeHidden: true } }),
+        getUserNSFWPreference()
+      ]);
+      if (generation !== feedGenerationRef.current) return;
+
+      setTotalPostCount(allCount);
+      setTotalCount(page.total ?? 0);
       // Track if NSFW filter is active
       setNsfwFilterActive(!showNSFW);
 
-      // Get count of visible posts (after NSFW filtering)
-      let countQuery = supabase
-        .from('posts')
-        .select('*', { count: 'exact', head: true })
-        .eq('creator_username', username)
-        .not('cover_image_url', 'is', null);
-
-      if (!showNSFW) {
-        countQuery = countQuery.eq('nsfw', false);
-      }
-
-      const { count } = await countQuery;
-
-      // Get count of hidden posts that would appear in this feed
-      const { data: hiddenPosts } = await supabase
-        .from('post_interactions')
-        .select('post_id')
-        .eq('user_id', user.id)
-        .eq('is_hidden', true);
-
-      if (!hiddenPosts || hiddenPosts.length === 0) {
-        setTotalCount(count || 0);
-      } else {
-        // Count how many of these hidden posts would have been in the feed
-        let hiddenCountQuery = supabase
-          .from('posts')
-          .select('*', { count: 'exact', head: true })
-          .in('post_id', hiddenPosts.map(p => p.post_id))
-          .eq('creator_username', username)
-          .not('cover_image_url', 'is', null);
-
-        if (!showNSFW) {
-          hiddenCountQuery = hiddenCountQuery.eq('nsfw', false);
-        }
-
-        const { count: hiddenInFeedCount } = await hiddenCountQuery;
-        setTotalCount((count || 0) - (hiddenInFeedCount || 0));
-      }
-
-      // Get posts from database for this creator
-      let query = supabase
-        .from('posts')
-        .select('post_id, cover_image_url, cover_width, cover_height, published_at, image_count, updated_at, nsfw')
-        .eq('creator_username', username)
-        .not('cover_image_url', 'is', null); // Only synced posts
-
-      // Filter NSFW if user preference is off
-      if (!showNSFW) {
-        console.log(`🚫 CreatorFeed - Filtering out NSFW posts`);
-        query = query.eq('nsfw', false);
-      } else {
-        console.log(`✅ CreatorFeed - Showing all posts including NSFW`);
-      }
-
-      query = query
-        .order('post_id', { ascending: false }) // Sort by post_id (higher = newer)
-        .limit(100); // Start with 100 posts, load more on scroll
-
-      const { data: postsData, error: postsError } = await query;
-
-      console.log(`📋 CreatorFeed - Fetched ${postsData?.length || 0} posts for @${username}`);
-      console.log(`📋 CreatorFeed - Sample NSFW values:`, postsData?.slice(0, 5).map(p => ({ post_id: p.post_id, nsfw: p.nsfw })));
-      if (postsError) {
-        console.error('❌ CreatorFeed - Error fetching posts:', postsError);
-      }
+      console.log(`📋 CreatorFeed - Fetched ${page.posts.length} posts for @${username}`);
 
       // Get most recent update date
-      if (postsData && postsData.length > 0) {
-        const mostRecent = postsData.reduce((latest, post) => {
-          const postDate = new Date(post.updated_at || 0);
+      if (page.posts.length > 0) {
+        const mostRecent = page.posts.reduce((latest, post) => {
+          const postDate = new Date(post.updatedAt || 0);
           const latestDate = new Date(latest);
-          return postDate > latestDate ? post.updated_at : latest;
-        }, postsData[0].updated_at || '');
+          return postDate > latestDate ? post.updatedAt || latest : latest;
+        }, page.posts[0].updatedAt || '');
 
         if (mostRecent) {
           const date = new Date(mostRecent);
@@ -379,142 +351,122 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
         }
       }
 
-      if (postsError) throw postsError;
-
-      console.log(`📥 Fetched ${postsData?.length || 0} posts for ${username}`);
-
-      if (!postsData || postsData.length === 0) {
-        setPosts([]);
-        return;
-      }
-
-      // Get all image counts in one query
-      const postIds = postsData.map(p => p.post_id);
-      const { data: imageCounts } = await supabase
-        .from('images')
-        .select('post_id')
-        .in('post_id', postIds);
-
-      // Count images per post
-      const imageCountMap = new Map<number, number>();
-      imageCounts?.forEach(img => {
-        imageCountMap.set(img.post_id, (imageCountMap.get(img.post_id) || 0) + 1);
-      });
-
-      // Get post interactions (hidden/favorited)
-      const { data: interactions } = await supabase
-        .from('post_interactions')
-        .select('*')
-        .eq('user_id', user.id);
-
-      const interactionsMap = new Map(
-        interactions?.map(i => [i.post_id, { isHidden: i.is_hidden, isFavorited: i.is_favorited }]) || []
-      );
-
-      // Map posts with image counts
-      const postsWithCounts = postsData.map((post) => {
-        const interaction = interactionsMap.get(post.post_id);
-        return {
-          postId: post.post_id,
-          coverImageUrl: post.cover_image_url,
-          coverWidth: post.cover_width,
-          coverHeight: post.cover_height,
-          imageCount: post.image_count || 0,
-          isHidden: interaction?.isHidden || false,
-          isFavorited: interaction?.isFavorited || false
-        };
-      });
-
-      // Filter out hidden posts
-      const visiblePosts = postsWithCounts.filter(p => !p.isHidden);
-
-      console.log(`👁️  Visible posts (after filtering hidden): ${visiblePosts.length}`);
-      console.log(`🙈 Hidden posts: ${postsWithCounts.length - visiblePosts.length}`);
-
-      setPosts(visiblePosts);
-      setOffset(100); // Set offset for next fetch
-      setHasMore(postsData.length === 100); // If we got fewer than 100 from DB, no more to load
+      setPosts(appendFeedPosts([], page.posts));
+      setPendingPosts([]);
+      setCursor(page.nextCursor); // Next page starts after the last post of this one
+      setHasMore(page.nextCursor !== null);
     } catch (err) {
+      if (generation !== feedGenerationRef.current) return;
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setLoading(false);
+      if (generation === feedGenerationRef.current) setLoading(false);
     }
-  }
+  }, [getFeedQuery, username]);
 
-  async function loadMorePosts() {
-    if (loadingMore || !hasMore) return;
+  /**
+   * Fetch specific posts of this creator and merge them in, newest first
+   * Posts already in the feed are replaced with their fresh data. New ones go straight in at the top of
+   * the page, or behind the "new posts" banner when the user is scrolled down
+   */
+  const mergeNewPosts = useCallback(async (postIds: number[]) => {
+    // Reaction sorts aren't reordered live - new posts show up the next time the sort is loaded
+    if (sortRef.current !== 'newest') return;
 
     try {
-      setLoadingMore(true);
-      console.log(`📥 Loading more posts from offset ${offset}...`);
-
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      const generation = feedGenerationRef.current;
+      const visibleNewPosts = await fetchFeedPosts(getFeedQuery(), postIds);
+      if (visibleNewPosts.length === 0 || generation !== feedGenerationRef.current) return;
+
+      const existingIds = new Set([...postsRef.current, ...pendingPostsRef.current].map(p => p.postId));
+      const newToFeed = visibleNewPosts.filter(p => !existingIds.has(p.postId));
+      // Posts older than the last loaded page (a history backfill) come in with the page they belong to
+      const lastLoaded = cursorRef.current?.postId ?? null;
+      const added = newToFeed.filter(p => lastLoaded === null || p.postId > lastLoaded);
+      const refreshed = visibleNewPosts.filter(p => postsRef.current.some(post => post.postId === p.postId));
+      const queue = window.scrollY > NEW_POSTS_SCROLL_THRESHOLD;
+
+      console.log(`📥 CreatorFeed - ${added.length} new posts for @${username}${queue ? ' waiting behind the banner' : ''}, ${refreshed.length} refreshed`);
+
+      const merged = queue ? refreshed : [...refreshed, ...added];
+      if (merged.length > 0) {
+        setPosts(prev => mergeFeedPosts(prev, merged));
+      }
+      if (queue && added.length > 0) {
+        setPendingPosts(prev => appendFeedPosts(prev, added));
+      }
+      if (newToFeed.length > 0) {
+        setTotalPostCount(count => count + newToFeed.length);
+        setTotalCount(count => count === null ? count : count + newToFeed.length);
+        setLastSyncDate('Today');
+      }
+    } catch (err) {
+      console.error('Error merging new posts:', err);
+    }
+  }, [getFeedQuery, username]);
 
-      // Get user's NSFW preference
-      const showNSFW = await getUserNSFWPreference();
+  // Fetch posts when username changes, on initial mount and when the refresh trigger changes
+  useEffect(() => {
+    fetchCreatorPosts();
+  }, [fetchCreatorPosts, refreshTrigger]);
 
-      // Get more posts
-      let query = supabase
-        .from('posts')
-        .select('post_id, cover_image_url, cover_width, cover_height, published_at, image_count, updated_at, nsfw')
-        .eq('creator_username', username)
-        .not('cover_image_url', 'is', null);
+  // Refetch from the top when the filters change
+  useEffect(() => {
+    if (fetchedFiltersKey.current === filtersKey) return;
+    fetchedFiltersKey.current = filtersKey;
+    setPage(1);
+    window.scrollTo(0, 0);
+    fetchCreatorPosts();
+  }, [filtersKey, fetchCreatorPosts]);
 
-      if (!showNSFW) {
-        query = query.eq('nsfw', false);
+  // Merge this creator's posts saved by a sync (or the browser extension) without refetching
+  useEffect(() => {
+    const unsubscribeSyncCompleted = on('syncCompleted', ({ creators, newPostIds }) => {
+      if (creators.includes(username) && newPostIds.length > 0) {
+        mergeNewPosts(newPostIds);
       }
+    });
 
-      query = query
-        .order('post_id', { ascending: false })
-        .range(offset, offset + 99); // Fetch next 100 posts
+    const unsubscribePostsAdded = on('postsAdded', ({ creator, postIds }) => {
+      if (creator && creator !== username) return;
+      if (postIds) {
+        if (postIds.length > 0) mergeNewPosts(postIds);
+      } else {
+        fetchCreatorPosts();
+      }
+    });
 
-      const { data: postsData, error: postsError } = await query;
+    return () => {
+      unsubscribeSyncCompleted();
+      unsubscribePostsAdded();
+    };
+  }, [username, mergeNewPosts, fetchCreatorPosts]);
 
-      if (postsError) throw postsError;
+  // Merge the posts waiting behind the banner and go up to them
+  const showPendingPosts = () => {
+    setPosts(prev => mergeFeedPosts(prev, pendingPosts));
+    setPendingPosts([]);
+    scrollToTop();
+  };
 
-      console.log(`📥 Loaded ${postsData?.length || 0} more posts`);
+  async function loadMorePosts() {
+    // No cursor while the first page is loading
+    const after = cursorRef.current;
+    if (loadingMore || !hasMore || !after) return;
+    const generation = feedGenerationRef.current;
 
-      if (!postsData || postsData.length === 0) {
-        setHasMore(false);
-        return;
-      }
+    try {
+      setLoadingMore(true);
+      console.log(`📥 Loading more posts after post ${after.postId}...`);
 
-      // Get post interactions
-      const { data: interactions } = await supabase
-        .from('post_interactions')
-        .select('*')
-        .eq('user_id', user.id);
+      const page = await fetchFeedPage(getFeedQuery(), after, 100); // Fetch next 100 posts
+      if (generation !== feedGenerationRef.current) return;
 
-      const interactionsMap = new Map(
-        interactions?.map(i => [i.post_id, { isHidden: i.is_hidden, isFavorited: i.is_favorited }]) || []
-      );
+      console.log(`📥 Loaded ${page.posts.length} more posts`);
 
-      // Map new posts
-      const newPosts = postsData.map((post) => {
-        const interaction = interactionsMap.get(post.post_id);
-        return {
-          postId: post.post_id,
-          coverImageUrl: post.cover_image_url,
-          coverWidth: post.cover_width,
-          coverHeight: post.cover_height,
-          imageCount: post.image_count || 0,
-          isHidden: interaction?.isHidden || false,
-          isFavorited: interaction?.isFavorited || false
-        };
-      });
-
-      // Filter out hidden posts
-      const visibleNewPosts = newPosts.filter(p => !p.isHidden);
-
-      // Append to existing posts, avoiding duplicates
-      setPosts(prev => {
-        const existingIds = new Set(prev.map(p => p.postId));
-        const uniqueNewPosts = visibleNewPosts.filter(p => !existingIds.has(p.postId));
-        return [...prev, ...uniqueNewPosts];
-      });
-      setOffset(prev => prev + 100);
-      setHasMore(postsData.length === 100); // If we got fewer than 100, no more to load
+      // Append to existing posts; a post merged in by a sync meanwhile keeps its place
+      setPosts(prev => appendFeedPosts(prev, page.posts));
+      setCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
     } catch (err) {
       console.error('Error loading more posts:', err);
     } finally {
@@ -607,22 +559,30 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
       // First, sync incomplete posts (posts with IDs but no images from extension)
       const { syncIncompletePosts } = await import('../lib/sync');
       console.log(`🔄 Syncing incomplete posts for ${username}...`);
-      await syncIncompletePosts(username);
+      const completedPostIds = await syncIncompletePosts(username);
+      emit('postsAdded', { creator: username, postIds: completedPostIds });
 
-      // Then do regular sync for new posts from API
-      const { syncCreator } = await import('../lib/sync');
+      // Then queue a regular sync for new posts from API and wait for the worker
+      const { enqueueSyncJob, waitForSyncJobs, summarizeSyncJobs } = await import('../lib/syncJobs');
       await supabase
         .from('creators')
         .update({ sync_status: 'pending' })
         .eq('username', username);
 
-      await syncCreator(username, undefined, { fullBackfill: true });
+      const job = await enqueueSyncJob(username, { kind: 'sync', fullBackfill: true });
+      const [finishedJob] = await waitForSyncJobs([job.id]);
 
-      // Refresh posts from database
-      await fetchCreatorPosts();
+      // Merge the saved posts into this feed (and any other open feeds)
+      if (finishedJob) {
+        emit('syncCompleted', summarizeSyncJobs([finishedJob]));
+      }
 
-      console.log(`✅ Sync complete for @${username}`);
-      alert(`Sync completed for ${username}`);
+      if (finishedJob?.status === 'failed') {
+        throw new Error(finishedJob.error || 'Sync job failed');
+      }
+
+      console.log(`✅ Sync ${finishedJob?.status} for @${username}`);
+      alert(`Sync ${finishedJob?.status} for ${username}`);
     } catch (err) {
       console.error('Error syncing:', err);
       alert('Failed to sync: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -656,10 +616,32 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
     );
   }
 
+  const sortSelect = (
+    <FeedFilterPanel filters={filters} onChange={(newFilters) => onFiltersChange?.(newFilters)}>
+      <select
+        value={sort}
+        onChange={(e) => handleSortChange(e.target.value as FeedSort)}
+        className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+        title="Sort"
+      >
+        {FEED_SORTS.map(feedSort => (
+          <option key={feedSort} value={feedSort}>{FEED_SORT_LABELS[feedSort]}</option>
+        ))}
+      </select>
+    </FeedFilterPanel>
+  );
+
   if (posts.length === 0) {
+    const filtered = countActiveFilters(filters) > 0;
     return (
       <div className="flex flex-col items-center justify-center min-h-screen gap-4">
-        <div className="text-xl text-gray-600">No posts found for @{username}</div>
+        <div className="text-xl text-gray-600">
+          {filtered
+            ? `No posts by @${username} match these filters`
+            : sort === 'reacted-week' ? `@${username} hasn't published anything this week` : `No posts found for @${username}`}
+        </div>
+        {/* Only "this week" and filters can empty a creator that has posts - keep them reachable */}
+        {(filtered || sort === 'reacted-week') && sortSelect}
         {nsfwFilterActive && (
           <div className="bg-red-600 text-white px-4 py-2 rounded-full text-sm font-medium">
             NSFW Filter Active
@@ -678,6 +660,7 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
 
   return (
     <div className="container mx-auto px-4 py-8">
+      <NewPostsBanner count={pendingPosts.length} onShow={showPendingPosts} />
       {/* Header */}
       <div className="mb-6">
         {/* Username */}
@@ -716,7 +699,7 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
             </button>
 
             <a
-              href={`https://civitai.com/user/${username}/posts`}
+              href={getSourceAdapter().getProfileUrl(username)}
               target="_blank"
               rel="noopener noreferrer"
               className="p-1.5 rounded text-gray-900 hover:bg-white transition-all flex items-center"
@@ -726,6 +709,8 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
             </a>
           </div>
         </div>
+
+        {sortSelect}
       </div>
 
       <Masonry
@@ -737,9 +722,10 @@ export const CreatorFeed = ({ username, onPostClick, onBack, refreshTrigger, upd
           <PostCard
             key={post.postId}
             post={post}
-            onPostClick={onPostClick}
+            onPostClick={(postId) => onPostClick?.(postId, getFeedQuery())}
             onToggleFavorite={toggleFavorite}
             onToggleHide={toggleHide}
+            showReactions={sort !== 'newest'}
           />
         ))}
       </Masonry>
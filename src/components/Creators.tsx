@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase, Creator, extractUsernameFromUrl } from '../lib/supabase';
+import { getSourceAdapter } from '../lib/sourceAdapters';
 
 export const Creators = () => {
   const [creators, setCreators] = useState<Creator[]>([]);
@@ -221,7 +222,7 @@ export const Creators = () => {
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm flex gap-3">
                   <a
-                    href={`https://civitai.com/user/${creator.username}/posts`}
+                    href={getSourceAdapter().getProfileUrl(creator.username)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-blue-600 hover:text-blue-800 font-medium"
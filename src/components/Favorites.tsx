@@ -1,6 +1,9 @@
-import { useState, useEffect } from 'react';
-import { supabase, getUserNSFWPreference, ensureHttps } from '../lib/supabase';
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, ensureHttps } from '../lib/supabase';
+import { on } from '../lib/events';
+import { fetchFeedPage, appendFeedPosts, type FeedCursor, type FeedQuery } from '../lib/feedQuery';
 import Masonry from 'react-masonry-css';
+import { getSourceAdapter } from '../lib/sourceAdapters';
 
 interface PostPreview {
   postId: number;
@@ -13,8 +16,13 @@ interface PostPreview {
   coverHeight?: number;
 }
 
+// Favorites load in keyset pages of this many as the user scrolls
+const FAVORITES_PER_PAGE = 60;
+
+const FAVORITES_FEED: FeedQuery = { source: { type: 'favorites' }, sort: 'newest' };
+
 interface FavoritesProps {
-  onPostClick?: (postId: number) => void;
+  onPostClick?: (postId: number, feed: FeedQuery) => void;
   onCreatorClick?: (username: string) => void;
   refreshTrigger?: number;
   updatedPostData?: { postId: number; imageCount?: number; coverImageUrl?: string } | null;
@@ -141,7 +149,7 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggl
 
             {/* Link out */}
             <a
-              href={`https://civitai.com/posts/${post.postId}`}
+              href={getSourceAdapter().getPostUrl(post.postId)}
               target="_blank"
               rel="noopener noreferrer"
               className="p-1 hover:bg-gray-100 rounded transition-colors"
@@ -193,7 +201,11 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggl
 export const Favorites = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostData, onPostInteractionChange }: FavoritesProps) => {
   const [posts, setPosts] = useState<PostPreview[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
 
   // Update post image count when returning from post detail
   useEffect(() => {
@@ -223,104 +235,86 @@ export const Favorites = ({ onPostClick, onCreatorClick, refreshTrigger, updated
     }
   }, [refreshTrigger]);
 
+  const loadMoreFavorites = useCallback(async () => {
+    if (loadingMore || !hasMore) return;
 
-  async function fetchFavorites() {
     try {
-      setLoading(true);
-      setError(null);
+      setLoadingMore(true);
+      const page = await fetchFeedPage(FAVORITES_FEED, cursor, FAVORITES_PER_PAGE);
+      // A favorite removed meanwhile doesn't shift the next page, and one shown already isn't repeated
+      setPosts(prev => appendFeedPosts(prev, page.posts));
+      setCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
+    } catch (err) {
+      console.error('Error loading more favorites:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [cursor, hasMore, loadingMore]);
 
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        setLoading(false);
-        return;
+  // Infinite scroll: load the next page near the bottom
+  useEffect(() => {
+    const handleScroll = () => {
+      if (window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2000 && hasMore && !loadingMore) {
+        loadMoreFavorites();
       }
+    };
 
-      // Get all favorited post IDs for this user
-      const { data: favorites, error: favError } = await supabase
-        .from('post_interactions')
-        .select('post_id')
-        .eq('user_id', user.id)
-        .eq('is_favorited', true);
-
-      if (favError) throw favError;
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [hasMore, loadingMore, loadMoreFavorites]);
 
-      if (!favorites || favorites.length === 0) {
-        setPosts([]);
-        return;
-      }
+  // Refresh image counts and covers of favorites that a sync just filled in
+  useEffect(() => {
+    const unsubscribeSyncCompleted = on('syncCompleted', ({ newPostIds }) => refreshPosts(newPostIds));
+    const unsubscribePostsAdded = on('postsAdded', ({ postIds }) => refreshPosts(postIds || []));
 
-      const favoritedPostIds = favorites.map(f => f.post_id);
+    return () => {
+      unsubscribeSyncCompleted();
+      unsubscribePostsAdded();
+    };
+  }, []);
 
-      // Get user's NSFW preference
-      const showNSFW = await getUserNSFWPreference();
+  async function refreshPosts(postIds: number[]) {
+    if (postIds.length === 0) return;
 
-      // Get posts data for favorited posts
-      let query = supabase
+    try {
+      const { data: postsData, error: postsError } = await supabase
         .from('posts')
-        .select('post_id, creator_username, cover_image_url, cover_width, cover_height, published_at, image_count, nsfw')
-        .in('post_id', favoritedPostIds)
-        .not('cover_image_url', 'is', null);
-
-      // Filter NSFW if user preference is off
-      if (!showNSFW) {
-        query = query.eq('nsfw', false);
-      }
-
-      query = query.order('post_id', { ascending: false });
-
-      const { data: postsData, error: postsError } = await query;
+        .select('post_id, cover_image_url, image_count')
+        .in('post_id', postIds);
 
       if (postsError) throw postsError;
 
-      if (!postsData || postsData.length === 0) {
-        setPosts([]);
-        return;
-      }
-
-      // Get all image counts in one query
-      const postIds = postsData.map(p => p.post_id);
-      const { data: imageCounts } = await supabase
-        .from('images')
-        .select('post_id')
-        .in('post_id', postIds);
-
-      // Count images per post
-      const imageCountMap = new Map<number, number>();
-      imageCounts?.forEach(img => {
-        imageCountMap.set(img.post_id, (imageCountMap.get(img.post_id) || 0) + 1);
-      });
+      const updates = new Map((postsData || []).map(p => [p.post_id, p]));
+      setPosts(prevPosts =>
+        prevPosts.map(post => {
+          const updated = updates.get(post.postId);
+          return updated
+            ? {
+                ...post,
+                imageCount: updated.image_count || post.imageCount,
+                coverImageUrl: updated.cover_image_url || post.coverImageUrl
+              }
+            : post;
+        })
+      );
+    } catch (err) {
+      console.error('Error refreshing favorites:', err);
+    }
+  }
 
-      // Get post interactions for this user
-      const { data: interactions } = await supabase
-        .from('post_interactions')
-        .select('*')
-        .eq('user_id', user.id)
-        .in('post_id', postIds);
 
-      const interactionsMap = new Map(
-        interactions?.map(i => [i.post_id, { isHidden: i.is_hidden, isFavorited: i.is_favorited }]) || []
-      );
+  async function fetchFavorites() {
+    try {
+      setLoading(true);
+      setError(null);
 
-      // Map posts with image counts
-      const postsWithCounts = postsData.map((post) => {
-        const interaction = interactionsMap.get(post.post_id);
-        return {
-          postId: post.post_id,
-          coverImageUrl: post.cover_image_url,
-          coverWidth: post.cover_width,
-          coverHeight: post.cover_height,
-          imageCount: post.image_count || 0,
-          username: post.creator_username,
-          isHidden: interaction?.isHidden || false,
-          isFavorited: interaction?.isFavorited || false
-        };
-      });
-
-      // Filter out hidden posts
-      const visiblePosts = postsWithCounts.filter(p => !p.isHidden);
-
-      setPosts(visiblePosts);
+      const page = await fetchFeedPage(FAVORITES_FEED, null, FAVORITES_PER_PAGE);
+      setPosts(appendFeedPosts([], page.posts));
+      setTotalCount(page.total ?? 0);
+      setCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -337,6 +331,7 @@ export const Favorites = ({ onPostClick, onCreatorClick, refreshTrigger, updated
 
       // Remove from feed immediately
       setPosts(prev => prev.filter(p => p.postId !== postId));
+      setTotalCount(count => count === null ? count : count - 1);
 
       // Update database
       const { data: existing } = await supabase
@@ -376,6 +371,9 @@ export const Favorites = ({ onPostClick, onCreatorClick, refreshTrigger, updated
       setPosts(prev => prev.map(p =>
         p.postId === postId ? { ...p, isFavorited: newState } : p
       ).filter(p => p.isFavorited)); // Remove unfavorited posts from favorites view
+      if (!newState) {
+        setTotalCount(count => count === null ? count : count - 1);
+      }
 
       // Update database
       const { data: existing } = await supabase
@@ -447,7 +445,7 @@ export const Favorites = ({ onPostClick, onCreatorClick, refreshTrigger, updated
           <PostCard
             key={`${post.postId}-${post.username}`}
             post={post}
-            onPostClick={onPostClick}
+            onPostClick={(postId) => onPostClick?.(postId, FAVORITES_FEED)}
             onCreatorClick={onCreatorClick}
             onToggleFavorite={toggleFavorite}
             onToggleHide={toggleHide}
@@ -455,7 +453,10 @@ export const Favorites = ({ onPostClick, onCreatorClick, refreshTrigger, updated
         ))}
       </Masonry>
       <div className="mt-8 text-center text-gray-600">
-        {posts.length} {posts.length === 1 ? 'favorite' : 'favorites'}
+        {totalCount ?? posts.length} {(totalCount ?? posts.length) === 1 ? 'favorite' : 'favorites'}
+        {loadingMore && (
+          <div className="mt-4 text-sm text-gray-500">Loading more favorites...</div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase, getUserNSFWPreference, ensureHttps } from '../lib/supabase';
+import { supabase, ensureHttps } from '../lib/supabase';
+import { on } from '../lib/events';
+import { FEED_SORTS, FEED_SORT_LABELS, type FeedSort } from '../lib/reactions';
+import { fetchFeedPage, fetchFeedPosts, appendFeedPosts, mergeFeedPosts, type FeedCursor, type FeedQuery, type PostFilters } from '../lib/feedQuery';
+import { countActiveFilters } from '../lib/feedFilters';
+import { toSmartFeedQuery, type SmartFeed } from '../lib/smartFeeds';
 import Masonry from 'react-masonry-css';
-import { ArrowUp } from 'lucide-react';
+import { ArrowUp, Pencil } from 'lucide-react';
+import { getSourceAdapter } from '../lib/sourceAdapters';
+import { NewPostsBanner } from './NewPostsBanner';
+import { FeedFilterPanel } from './FeedFilterPanel';
 
 interface PostPreview {
   postId: number;
@@ -12,14 +20,23 @@ interface PostPreview {
   isFavorited: boolean;
   coverWidth?: number;
   coverHeight?: number;
+  reactionCount?: number;
+  // Followed source that brought in a post by a creator who isn't followed
+  via?: string | null;
 }
 
 interface FeedProps {
-  onPostClick?: (postId: number) => void;
+  onPostClick?: (postId: number, feed: FeedQuery) => void;
   onCreatorClick?: (username: string) => void;
   refreshTrigger?: number;
   updatedPostData?: { postId: number; imageCount?: number; coverImageUrl?: string } | null;
   onPostInteractionChange?: () => void;
+  // Filters picked in the filter panel; App keeps them (and the URL) across remounts
+  filters?: PostFilters;
+  onFiltersChange?: (filters: PostFilters) => void;
+  // Show a smart feed (its creators, filters and sort) instead of the following feed and the filter panel
+  smartFeed?: SmartFeed | null;
+  onEditSmartFeed?: () => void;
 }
 
 interface PostCardProps {
@@ -28,9 +45,19 @@ interface PostCardProps {
   onCreatorClick?: (username: string) => void;
   onToggleFavorite: (postId: number, currentState: boolean, e: React.MouseEvent) => void;
   onToggleHide: (postId: number, e: React.MouseEvent) => void;
+  showReactions?: boolean;
 }
 
-const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggleHide }: PostCardProps) => {
+// What the feed shows, for pages, counts and prev/next navigation in PostDetail
+const feedQuery = (smartFeed: SmartFeed | null, sort: FeedSort, filters: PostFilters): FeedQuery =>
+  smartFeed ? toSmartFeedQuery(smartFeed, sort) : { source: { type: 'following' }, sort, filters };
+
+const NO_FILTERS: PostFilters = {};
+
+// Scrolled further than this, new posts from a sync wait behind the banner instead of pushing the grid down
+const NEW_POSTS_SCROLL_THRESHOLD = 300;
+
+const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggleHide, showReactions }: PostCardProps) => {
   const [mediaType, setMediaType] = useState<'video' | 'image'>(
     post.coverImageUrl.endsWith('.mp4') ? 'video' : 'image'
   );
@@ -127,10 +154,19 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggl
               onCreatorClick?.(post.username);
             }}
             className="text-xs font-medium text-gray-900 hover:text-red-600 transition-colors truncate min-w-0 flex-1 text-left"
+            title={post.via ? `@${post.username} via ${post.via}` : undefined}
           >
             @{post.username}
+            {post.via && <span className="font-normal text-gray-400"> via {post.via}</span>}
           </button>
 
+          {/* Reaction count (when sorted by reactions) */}
+          {showReactions && (
+            <span className="text-xs text-gray-500 flex-shrink-0" title="Reactions on Civitai">
+              {(post.reactionCount || 0).toLocaleString()} reactions
+            </span>
+          )}
+
           {/* Icons */}
           <div className="flex items-center gap-1 flex-shrink-0">
             {/* Heart (favorite) */}
@@ -156,7 +192,7 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggl
 
             {/* Link out */}
             <a
-              href={`https://civitai.com/posts/${post.postId}`}
+              href={getSourceAdapter().getPostUrl(post.postId)}
               target="_blank"
               rel="noopener noreferrer"
               className="p-1 hover:bg-gray-100 rounded transition-colors"
@@ -205,7 +241,7 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggl
   );
 };
 
-export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostData, onPostInteractionChange }: FeedProps) => {
+export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostData, onPostInteractionChange, filters = NO_FILTERS, onFiltersChange, smartFeed = null, onEditSmartFeed }: FeedProps) => {
   const [posts, setPosts] = useState<PostPreview[]>([]);
   const [displayedPosts, setDisplayedPosts] = useState<PostPreview[]>([]);
   const [loading, setLoading] = useState(true);
@@ -214,8 +250,29 @@ export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostD
   const [page, setPage] = useState(1);
   const [showBackToTop, setShowBackToTop] = useState(false);
   const [hasMore, setHasMore] = useState(true);
-  const [offset, setOffset] = useState(0);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
   const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [sort, setSort] = useState<FeedSort>(smartFeed?.sort ?? 'newest');
+  // New posts from a sync, waiting for "show" while the user is scrolled down
+  const [pendingPosts, setPendingPosts] = useState<PostPreview[]>([]);
+  // Latest posts, cursor and sort for event listeners registered once on mount
+  const postsRef = useRef<PostPreview[]>([]);
+  postsRef.current = posts;
+  const pendingPostsRef = useRef<PostPreview[]>([]);
+  pendingPostsRef.current = pendingPosts;
+  const cursorRef = useRef<FeedCursor | null>(null);
+  cursorRef.current = cursor;
+  // Bumped by every reload from the top, so responses fetched for an older sort or filters are dropped
+  const feedGenerationRef = useRef(0);
+  const sortRef = useRef<FeedSort>(sort);
+  sortRef.current = sort;
+  const filtersRef = useRef<PostFilters>(filters);
+  filtersRef.current = filters;
+  const smartFeedRef = useRef<SmartFeed | null>(smartFeed);
+  smartFeedRef.current = smartFeed;
+  // Filters the posts shown were fetched with
+  const filtersKey = JSON.stringify(filters);
+  const fetchedFiltersKey = useRef(filtersKey);
 
   // Update post data when returning from post detail
   useEffect(() => {
@@ -250,6 +307,33 @@ export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostD
     }
   }, [refreshTrigger]);
 
+  // Refetch from the top when the filters change
+  useEffect(() => {
+    if (fetchedFiltersKey.current === filtersKey) return;
+    fetchedFiltersKey.current = filtersKey;
+    setPage(1);
+    window.scrollTo(0, 0);
+    fetchFeed();
+  }, [filtersKey]);
+
+  // Merge posts saved by a sync (or the browser extension) without refetching the feed
+  useEffect(() => {
+    const handleNewPosts = ({ postIds }: { postIds?: number[] }) => {
+      if (postIds) {
+        if (postIds.length > 0) mergeNewPosts(postIds);
+      } else {
+        fetchFeed();
+      }
+    };
+
+    const unsubscribeSyncCompleted = on('syncCompleted', ({ newPostIds }) => handleNewPosts({ postIds: newPostIds }));
+    const unsubscribePostsAdded = on('postsAdded', handleNewPosts);
+
+    return () => {
+      unsubscribeSyncCompleted();
+      unsubscribePostsAdded();
+    };
+  }, []);
 
   useEffect(() => {
     // Update displayed posts when page changes
@@ -286,270 +370,105 @@ export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostD
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleSortChange = (newSort: FeedSort) => {
+    sortRef.current = newSort;
+    setSort(newSort);
+    setPage(1);
+    window.scrollTo(0, 0);
+    fetchFeed();
+  };
+
   async function fetchFeed() {
+    const generation = ++feedGenerationRef.current;
     try {
       setLoading(true);
       setError(null);
+      setCursor(null);
 
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        setLoading(false);
-        return;
-      }
-
-      // Get my username to exclude from feed
-      const { data: userSettings } = await supabase
-        .from('user_settings')
-        .select('civitai_username')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      const myUsername = userSettings?.civitai_username;
-      console.log(`👤 My username from database: ${myUsername || '(not set)'}`);
-
-      // Get my creators (only show posts from creators I follow)
-      const { data: myCreators } = await supabase
-        .from('creators')
-        .select('username')
-        .eq('user_id', user.id);
-
-      const creatorUsernames = myCreators?.map(c => c.username) || [];
-
-      if (creatorUsernames.length === 0) {
-        console.log('⚠️ No creators found - feed will be empty');
-        setPosts([]);
-        setLoading(false);
-        return;
-      }
-
-      // Get user's NSFW preference
-      const showNSFW = await getUserNSFWPreference();
-      console.log(`🔞 User NSFW preference: ${showNSFW ? 'Show' : 'Hide'}`);
-
-      // First, get the total count of posts matching our filters
-      let countQuery = supabase
-        .from('posts')
-        .select('*', { count: 'exact', head: true })
-        .not('cover_image_url', 'is', null)
-        .in('creator_username', creatorUsernames);
-
-      if (!showNSFW) {
-        countQuery = countQuery.eq('nsfw', false);
-      }
-
-      if (myUsername) {
-        countQuery = countQuery.neq('creator_username', myUsername);
-      }
-
-      const { count } = await countQuery;
-
-      // Get count of hidden posts that would appear in this feed
-      // (same filters as the main query)
-      const { data: hiddenPosts } = await supabase
-        .from('post_interactions')
-        .select('post_id')
-        .eq('user_id', user.id)
-        .eq('is_hidden', true);
-
-      if (!hiddenPosts || hiddenPosts.length === 0) {
-        setTotalCount(count || 0);
-      } else {
-        // Count how many of these hidden posts would have been in the feed
-        let hiddenCountQuery = supabase
-          .from('posts')
-          .select('*', { count: 'exact', head: true })
-          .in('post_id', hiddenPosts.map(p => p.post_id))
-          .not('cover_image_url', 'is', null)
-          .in('creator_username', creatorUsernames);
-
-        if (!showNSFW) {
-          hiddenCountQuery = hiddenCountQuery.eq('nsfw', false);
-        }
-
-        if (myUsername) {
-          hiddenCountQuery = hiddenCountQuery.neq('creator_username', myUsername);
-        }
-
-        const { count: hiddenInFeedCount } = await hiddenCountQuery;
-        setTotalCount((count || 0) - (hiddenInFeedCount || 0));
-      }
-
-      // Get posts only from my creators
-      let query = supabase
-        .from('posts')
-        .select('post_id, creator_username, cover_image_url, cover_width, cover_height, published_at, image_count, nsfw')
-        .not('cover_image_url', 'is', null) // Only synced posts
-        .in('creator_username', creatorUsernames); // Only my creators
-
-      // Filter NSFW if user preference is off
-      if (!showNSFW) {
-        query = query.eq('nsfw', false);
-        console.log(`🚫 Filtering out NSFW posts`);
-      }
-
-      query = query
-        .order('post_id', { ascending: false }) // Sort by post_id (higher = newer)
-        .limit(30); // Start with 30 posts, load more on scroll
-
-      // Exclude my posts if username is set
-      if (myUsername) {
-        query = query.neq('creator_username', myUsername);
-        console.log(`🚫 Excluding posts from ${myUsername}`);
-      }
-
-      const { data: postsData, error: postsError } = await query;
-
-      if (postsError) throw postsError;
+      // One call for the page and the feed's total
+      const page = await fetchFeedPage(feedQuery(smartFeedRef.current, sortRef.current, filtersRef.current), null, 30); // Start with 30 posts, load more on scroll
+      if (generation !== feedGenerationRef.current) return;
 
-      console.log('📥 Feed - Fetched posts:', postsData?.length || 0);
-      console.log('📥 Feed - Sample NSFW values:', postsData?.slice(0, 5).map(p => ({ post_id: p.post_id, creator: p.creator_username, nsfw: p.nsfw })));
-
-      if (!postsData || postsData.length === 0) {
-        console.log('⚠️ No posts found');
-        setPosts([]);
-        return;
-      }
-
-      // Get post interactions (hidden/favorited)
-      const { data: interactions } = await supabase
-        .from('post_interactions')
-        .select('*')
-        .eq('user_id', user.id);
+      console.log('📥 Feed - Fetched posts:', page.posts.length);
 
-      const interactionsMap = new Map(
-        interactions?.map(i => [i.post_id, { isHidden: i.is_hidden, isFavorited: i.is_favorited }]) || []
-      );
-
-      // Map posts with image counts
-      const postsWithCounts = postsData.map((post) => {
-        const interaction = interactionsMap.get(post.post_id);
-        return {
-          postId: post.post_id,
-          coverImageUrl: post.cover_image_url,
-          coverWidth: post.cover_width,
-          coverHeight: post.cover_height,
-          imageCount: post.image_count || 0,
-          username: post.creator_username,
-          isHidden: interaction?.isHidden || false,
-          isFavorited: interaction?.isFavorited || false
-        };
-      });
-
-      // Filter out hidden posts
-      const visiblePosts = postsWithCounts.filter(p => !p.isHidden);
-
-      console.log('✅ Setting posts:', visiblePosts.length);
-      setPosts(visiblePosts);
-      setOffset(30); // Set offset for next fetch
-      setHasMore(postsData.length === 30); // If we got fewer than 30 from DB, no more to load
+      setTotalCount(page.total ?? 0);
+      setPosts(appendFeedPosts([], page.posts));
+      setPendingPosts([]);
+      setCursor(page.nextCursor); // Next page starts after the last post of this one
+      setHasMore(page.nextCursor !== null);
     } catch (err) {
+      if (generation !== feedGenerationRef.current) return;
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setLoading(false);
+      if (generation === feedGenerationRef.current) setLoading(false);
     }
   }
 
-  async function loadMorePosts() {
-    if (loadingMore || !hasMore) return;
+  /**
+   * Fetch specific posts with the feed's filters and merge them in, newest first
+   * Posts already in the feed are replaced with their fresh data. New ones go straight in at the top of
+   * the page, or behind the "new posts" banner when the user is scrolled down
+   */
+  async function mergeNewPosts(postIds: number[]) {
+    // Reaction sorts aren't reordered live - new posts show up the next time the sort is loaded
+    if (sortRef.current !== 'newest') return;
 
     try {
-      setLoadingMore(true);
-      console.log(`📥 Loading more posts from offset ${offset}...`);
-
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Get my username to exclude from feed
-      const { data: userSettings } = await supabase
-        .from('user_settings')
-        .select('civitai_username')
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      const myUsername = userSettings?.civitai_username;
-
-      // Get my creators
-      const { data: myCreators } = await supabase
-        .from('creators')
-        .select('username')
-        .eq('user_id', user.id);
-
-      const creatorUsernames = myCreators?.map(c => c.username) || [];
-
-      if (creatorUsernames.length === 0) {
-        setHasMore(false);
-        return;
+      const generation = feedGenerationRef.current;
+      const visibleNewPosts = await fetchFeedPosts(feedQuery(smartFeedRef.current, sortRef.current, filtersRef.current), postIds);
+      if (visibleNewPosts.length === 0 || generation !== feedGenerationRef.current) return;
+
+      const existingIds = new Set([...postsRef.current, ...pendingPostsRef.current].map(p => p.postId));
+      const newToFeed = visibleNewPosts.filter(p => !existingIds.has(p.postId));
+      // Posts older than the last loaded page come in with the page they belong to
+      const lastLoaded = cursorRef.current?.postId ?? null;
+      const added = newToFeed.filter(p => lastLoaded === null || p.postId > lastLoaded);
+      const refreshed = visibleNewPosts.filter(p => postsRef.current.some(post => post.postId === p.postId));
+      const queue = window.scrollY > NEW_POSTS_SCROLL_THRESHOLD;
+
+      console.log(`📥 Feed - ${added.length} new posts${queue ? ' waiting behind the banner' : ''}, ${refreshed.length} refreshed`);
+
+      const merged = queue ? refreshed : [...refreshed, ...added];
+      if (merged.length > 0) {
+        setPosts(prev => mergeFeedPosts(prev, merged));
       }
-
-      // Get user's NSFW preference
-      const showNSFW = await getUserNSFWPreference();
-
-      // Get more posts
-      let query = supabase
-        .from('posts')
-        .select('post_id, creator_username, cover_image_url, cover_width, cover_height, published_at, image_count, nsfw')
-        .not('cover_image_url', 'is', null)
-        .in('creator_username', creatorUsernames);
-
-      if (!showNSFW) {
-        query = query.eq('nsfw', false);
+      if (queue && added.length > 0) {
+        setPendingPosts(prev => appendFeedPosts(prev, added));
       }
-
-      query = query
-        .order('post_id', { ascending: false })
-        .range(offset, offset + 29); // Fetch next 30 posts
-
-      if (myUsername) {
-        query = query.neq('creator_username', myUsername);
+      if (newToFeed.length > 0) {
+        setTotalCount(count => count === null ? count : count + newToFeed.length);
       }
+    } catch (err) {
+      console.error('Error merging new posts:', err);
+    }
+  }
 
-      const { data: postsData, error: postsError } = await query;
-
-      if (postsError) throw postsError;
+  // Merge the posts waiting behind the banner and go up to them
+  const showPendingPosts = () => {
+    setPosts(prev => mergeFeedPosts(prev, pendingPosts));
+    setPendingPosts([]);
+    scrollToTop();
+  };
 
-      console.log(`📥 Loaded ${postsData?.length || 0} more posts`);
+  async function loadMorePosts() {
+    // No cursor while the first page is loading
+    const after = cursorRef.current;
+    if (loadingMore || !hasMore || !after) return;
+    const generation = feedGenerationRef.current;
 
-      if (!postsData || postsData.length === 0) {
-        setHasMore(false);
-        return;
-      }
+    try {
+      setLoadingMore(true);
+      console.log(`📥 Loading more posts after post ${after.postId}...`);
 
-      // Get post interactions
-      const { data: interactions } = await supabase
-        .from('post_interactions')
-        .select('*')
-        .eq('user_id', user.id);
+      const page = await fetchFeedPage(feedQuery(smartFeedRef.current, sortRef.current, filtersRef.current), after, 30); // Fetch next 30 posts
+      if (generation !== feedGenerationRef.current) return;
 
-      const interactionsMap = new Map(
-        interactions?.map(i => [i.post_id, { isHidden: i.is_hidden, isFavorited: i.is_favorited }]) || []
-      );
+      console.log(`📥 Loaded ${page.posts.length} more posts`);
 
-      // Map new posts
-      const newPosts = postsData.map((post) => {
-        const interaction = interactionsMap.get(post.post_id);
-        return {
-          postId: post.post_id,
-          coverImageUrl: post.cover_image_url,
-          coverWidth: post.cover_width,
-          coverHeight: post.cover_height,
-          imageCount: post.image_count || 0,
-          username: post.creator_username,
-          isHidden: interaction?.isHidden || false,
-          isFavorited: interaction?.isFavorited || false
-        };
-      });
-
-      // Filter out hidden posts
-      const visibleNewPosts = newPosts.filter(p => !p.isHidden);
-
-      // Append to existing posts, avoiding duplicates
-      setPosts(prev => {
-        const existingIds = new Set(prev.map(p => p.postId));
-        const uniqueNewPosts = visibleNewPosts.filter(p => !existingIds.has(p.postId));
-        return [...prev, ...uniqueNewPosts];
-      });
-      setOffset(prev => prev + 30);
-      setHasMore(postsData.length === 30); // If we got fewer than 30, no more to load
+      // Append to existing posts; a post merged in by a sync meanwhile keeps its place
+      setPosts(prev => appendFeedPosts(prev, page.posts));
+      setCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
     } catch (err) {
       console.error('Error loading more posts:', err);
     } finally {
@@ -652,7 +571,53 @@ export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostD
     );
   }
 
+  const sortControl = (
+    <select
+      value={sort}
+      onChange={(e) => handleSortChange(e.target.value as FeedSort)}
+      className="px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+      title="Sort"
+    >
+      {FEED_SORTS.map(feedSort => (
+        <option key={feedSort} value={feedSort}>{FEED_SORT_LABELS[feedSort]}</option>
+      ))}
+    </select>
+  );
+
+  // A smart feed's rules are edited in its editor, not the filter panel
+  const sortSelect = smartFeed ? (
+    <div className="mb-4 flex items-center justify-end gap-2">
+      <h1 className="mr-auto text-xl font-bold text-gray-900 truncate">{smartFeed.name}</h1>
+      <button
+        onClick={() => onEditSmartFeed?.()}
+        className="px-3 py-2 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg flex items-center gap-2 hover:bg-gray-50 transition-colors"
+      >
+        <Pencil className="w-4 h-4" />
+        Edit feed
+      </button>
+      {sortControl}
+    </div>
+  ) : (
+    <FeedFilterPanel filters={filters} onChange={(newFilters) => onFiltersChange?.(newFilters)}>
+      {sortControl}
+    </FeedFilterPanel>
+  );
+
   if (posts.length === 0) {
+    // Only "this week", filters and smart feed rules can empty a feed that has posts - keep them reachable
+    if (smartFeed || countActiveFilters(filters) > 0 || sort === 'reacted-week') {
+      return (
+        <div className="container mx-auto px-4 py-8">
+          {sortSelect}
+          <div className="text-center text-xl text-gray-600 py-16">
+            {smartFeed
+              ? 'No posts match this feed'
+              : countActiveFilters(filters) > 0 ? 'No posts match these filters' : 'No posts published this week'}
+          </div>
+        </div>
+      );
+    }
+
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-xl text-gray-600">No posts found. Add some creators to see their posts!</div>
@@ -669,6 +634,8 @@ export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostD
 
   return (
     <div className="container mx-auto px-4 py-8">
+      <NewPostsBanner count={pendingPosts.length} onShow={showPendingPosts} />
+      {sortSelect}
       <Masonry
         breakpointCols={breakpointColumns}
         className="flex -ml-3 w-auto"
@@ -678,10 +645,11 @@ export const Feed = ({ onPostClick, onCreatorClick, refreshTrigger, updatedPostD
           <PostCard
             key={`${post.postId}-${post.username}`}
             post={post}
-            onPostClick={onPostClick}
+            onPostClick={(postId) => onPostClick?.(postId, feedQuery(smartFeedRef.current, sortRef.current, filtersRef.current))}
             onCreatorClick={onCreatorClick}
             onToggleFavorite={toggleFavorite}
             onToggleHide={toggleHide}
+            showReactions={sort !== 'newest'}
           />
         ))}
       </Masonry>
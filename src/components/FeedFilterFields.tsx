@@ -0,0 +1,121 @@
+import type { CoverOrientation, MediaType, NsfwFilter, PostFilters } from '../lib/feedQuery';
+import {
+  ORIENTATIONS,
+  ORIENTATION_LABELS,
+  MEDIA_TYPES,
+  MEDIA_TYPE_LABELS,
+  NSFW_FILTERS,
+  NSFW_FILTER_LABELS,
+  WITHIN_DAYS,
+  getWithinDaysLabel,
+  cleanFilters
+} from '../lib/feedFilters';
+
+interface FeedFilterFieldsProps {
+  filters: PostFilters;
+  onChange: (filters: PostFilters) => void;
+}
+
+export const filterInputClassName = 'px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500';
+
+/**
+ * Inputs for each filter, for the filter panel and the smart feed editor
+ */
+export const FeedFilterFields = ({ filters, onChange }: FeedFilterFieldsProps) => {
+  const update = (changes: Partial<PostFilters>) => {
+    onChange(cleanFilters({ ...filters, ...changes }));
+  };
+
+  const toCount = (value: string) => value === '' ? null : Math.max(0, Math.floor(Number(value)));
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <select
+        value={filters.publishedWithinDays ?? ''}
+        onChange={(e) => update({ publishedWithinDays: e.target.value ? Number(e.target.value) : null })}
+        className={filterInputClassName}
+        title="Published"
+      >
+        <option value="">Any time</option>
+        {WITHIN_DAYS.map(days => (
+          <option key={days} value={days}>{getWithinDaysLabel(days)}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        From
+        <input
+          type="date"
+          value={filters.publishedFrom || ''}
+          onChange={(e) => update({ publishedFrom: e.target.value || null })}
+          className={filterInputClassName}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        To
+        <input
+          type="date"
+          value={filters.publishedTo || ''}
+          onChange={(e) => update({ publishedTo: e.target.value || null })}
+          className={filterInputClassName}
+        />
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        Images
+        <input
+          type="number"
+          min={0}
+          value={filters.minImages ?? ''}
+          onChange={(e) => update({ minImages: toCount(e.target.value) })}
+          placeholder="Min"
+          className={`${filterInputClassName} w-20`}
+        />
+        –
+        <input
+          type="number"
+          min={0}
+          value={filters.maxImages ?? ''}
+          onChange={(e) => update({ maxImages: toCount(e.target.value) })}
+          placeholder="Max"
+          className={`${filterInputClassName} w-20`}
+        />
+      </label>
+
+      <select
+        value={filters.orientation || ''}
+        onChange={(e) => update({ orientation: (e.target.value || null) as CoverOrientation | null })}
+        className={filterInputClassName}
+        title="Orientation"
+      >
+        <option value="">Any shape</option>
+        {ORIENTATIONS.map(orientation => (
+          <option key={orientation} value={orientation}>{ORIENTATION_LABELS[orientation]}</option>
+        ))}
+      </select>
+
+      <select
+        value={filters.media || ''}
+        onChange={(e) => update({ media: (e.target.value || null) as MediaType | null })}
+        className={filterInputClassName}
+        title="Media"
+      >
+        <option value="">Images and videos</option>
+        {MEDIA_TYPES.map(media => (
+          <option key={media} value={media}>{MEDIA_TYPE_LABELS[media]}</option>
+        ))}
+      </select>
+
+      <select
+        value={filters.nsfw || ''}
+        onChange={(e) => update({ nsfw: (e.target.value || null) as NsfwFilter | null })}
+        className={filterInputClassName}
+        title="NSFW"
+      >
+        <option value="">NSFW as in Settings</option>
+        {NSFW_FILTERS.map(nsfw => (
+          <option key={nsfw} value={nsfw}>{NSFW_FILTER_LABELS[nsfw]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
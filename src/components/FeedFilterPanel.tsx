@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { SlidersHorizontal, Trash2, X } from 'lucide-react';
+import type { PostFilters } from '../lib/feedQuery';
+import {
+  cleanFilters,
+  countActiveFilters,
+  sameFilters,
+  fetchFilterPresets,
+  saveFilterPreset,
+  deleteFilterPreset,
+  type FilterPreset
+} from '../lib/feedFilters';
+import { FeedFilterFields, filterInputClassName } from './FeedFilterFields';
+
+interface FeedFilterPanelProps {
+  filters: PostFilters;
+  onChange: (filters: PostFilters) => void;
+  // Other controls for the same row (the sort select)
+  children?: React.ReactNode;
+}
+
+/**
+ * Filters button and panel for Feed and creator pages: date range, image count, orientation, media and NSFW,
+ * plus the user's saved presets
+ */
+export const FeedFilterPanel = ({ filters, onChange, children }: FeedFilterPanelProps) => {
+  const [open, setOpen] = useState(countActiveFilters(filters) > 0);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [savingPreset, setSavingPreset] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchFilterPresets()
+      .then(setPresets)
+      .catch(err => console.error('Error loading filter presets:', err));
+  }, [open]);
+
+  const activeCount = countActiveFilters(filters);
+  // Preset the current filters match, if any
+  const currentPreset = presets.find(preset => sameFilters(preset.filters, filters));
+
+  async function handleSavePreset() {
+    try {
+      setSavingPreset(true);
+      const saved = await saveFilterPreset(presetName, filters);
+      setPresets(prev => [...prev.filter(preset => preset.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetName('');
+    } catch (err) {
+      alert('Failed to save preset: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSavingPreset(false);
+    }
+  }
+
+  async function handleDeletePreset(preset: FilterPreset) {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+
+    try {
+      await deleteFilterPreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (err) {
+      alert('Failed to delete preset: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-end gap-2">
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange({})}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-red-600 flex items-center gap-1"
+            title="Clear filters"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+        <button
+          onClick={() => setOpen(!open)}
+          className={`px-3 py-2 text-sm border rounded-lg flex items-center gap-2 transition-colors ${
+            activeCount > 0 ? 'bg-red-50 border-red-300 text-red-700' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Filters{activeCount > 0 ? ` (${activeCount})` : ''}
+        </button>
+        {children}
+      </div>
+
+      {open && (
+        <div className="mt-3 p-4 bg-white border border-gray-200 rounded-lg space-y-4">
+          <FeedFilterFields filters={filters} onChange={onChange} />
+
+          {/* Presets */}
+          <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-100">
+            <span className="text-sm text-gray-600">Presets:</span>
+            {presets.length === 0 && (
+              <span className="text-sm text-gray-400">None saved yet</span>
+            )}
+            {presets.map(preset => (
+              <span
+                key={preset.id}
+                className={`inline-flex items-center rounded-full border text-sm ${
+                  preset.id === currentPreset?.id ? 'bg-red-600 border-red-600 text-white' : 'bg-white border-gray-300 text-gray-700'
+                }`}
+              >
+                <button onClick={() => onChange(cleanFilters(preset.filters))} className="pl-3 pr-1 py-1">
+                  {preset.name}
+                </button>
+                <button
+                  onClick={() => handleDeletePreset(preset)}
+                  className="pr-2 pl-1 py-1 opacity-60 hover:opacity-100"
+                  title="Delete preset"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+
+            {activeCount > 0 && !currentPreset && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSavePreset();
+                }}
+                className="flex items-center gap-2 ml-auto"
+              >
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="Preset name"
+                  className={`${filterInputClassName} w-40`}
+                />
+                <button
+                  type="submit"
+                  disabled={!presetName.trim() || savingPreset}
+                  className="px-3 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  {savingPreset ? 'Saving...' : 'Save filters'}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react';
+import { Plus, Check, X } from 'lucide-react';
+import { emit, on } from '../lib/events';
+import {
+  SOURCE_TYPES,
+  SOURCE_TYPE_LABELS,
+  getSourceLabel,
+  fetchSources,
+  addSource,
+  removeSource,
+  type Source,
+  type SourceType
+} from '../lib/sources';
+
+function getCivitaiUrl(source: Source): string {
+  switch (source.type) {
+    case 'model':
+      return `https://civitai.com/models/${source.civitai_id}`;
+    case 'model_version':
+      return `https://civitai.com/images?modelVersionId=${source.civitai_id}`;
+    case 'collection':
+      return `https://civitai.com/collections/${source.civitai_id}`;
+  }
+}
+
+/**
+ * Models, model versions and collections the user follows alongside creators
+ */
+export const FollowedSources = () => {
+  const [sources, setSources] = useState<Source[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAdd, setShowAdd] = useState(false);
+  const [newType, setNewType] = useState<SourceType>('model');
+  const [newInput, setNewInput] = useState('');
+  const [newName, setNewName] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [syncingIds, setSyncingIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    loadSources();
+
+    // Post counts and statuses change when a background sync finishes
+    return on('syncCompleted', () => {
+      loadSources();
+    });
+  }, []);
+
+  async function loadSources() {
+    try {
+      setSources(await fetchSources());
+    } catch (err) {
+      console.error('Error loading sources:', err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function resetAddForm() {
+    setShowAdd(false);
+    setNewInput('');
+    setNewName('');
+  }
+
+  async function handleAdd() {
+    if (!newInput.trim() || adding) return;
+
+    try {
+      setAdding(true);
+      const source = await addSource(newType, newInput, newName);
+      console.log(`➕ Following ${getSourceLabel(source)}`);
+      resetAddForm();
+      setSources(prev => [...prev, source]);
+      handleSync(source);
+    } catch (err) {
+      alert('Error following source: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  async function handleSync(source: Source) {
+    const label = getSourceLabel(source);
+
+    try {
+      setSyncingIds(prev => [...prev, source.id]);
+      console.log(`🔄 Queueing sync for ${label}`);
+
+      // Queue the sync for the worker and refresh feeds when it finishes
+      const { enqueueSourceSyncJob, waitForSyncJobs, summarizeSyncJobs } = await import('../lib/syncJobs');
+      const job = await enqueueSourceSyncJob(source.id);
+      const [finishedJob] = await waitForSyncJobs([job.id]);
+
+      if (finishedJob?.status === 'failed') {
+        console.error(`❌ Sync failed for ${label}:`, finishedJob.error);
+        alert('Sync error: ' + (finishedJob.error || 'Unknown error'));
+        await loadSources();
+        return;
+      }
+
+      console.log(`✅ Sync completed for ${label}`);
+      emit('syncCompleted', summarizeSyncJobs([finishedJob]));
+    } catch (err) {
+      alert('Sync error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSyncingIds(prev => prev.filter(id => id !== source.id));
+    }
+  }
+
+  async function handleRemove(source: Source) {
+    const label = getSourceLabel(source);
+    if (!confirm(`Stop following "${label}"?`)) return;
+
+    try {
+      await removeSource(source.id);
+      console.log(`🗑️  Stopped following ${label}`);
+      setSources(prev => prev.filter(s => s.id !== source.id));
+    } catch (err) {
+      alert('Error removing source: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-4 mt-8">
+        <h2 className="text-2xl font-bold text-gray-900">Followed Models & Collections</h2>
+        <button
+          onClick={() => setShowAdd(!showAdd)}
+          className="w-10 h-10 p-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors flex items-center justify-center"
+          title="Follow a model, model version or collection"
+        >
+          <Plus className="w-6 h-6" />
+        </button>
+      </div>
+
+      {showAdd && (
+        <div className="flex flex-wrap items-center gap-3 py-3 px-4 bg-white rounded-lg shadow-sm mb-2">
+          <select
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as SourceType)}
+            className="text-sm text-gray-700 bg-white border border-gray-300 rounded px-1 py-0.5"
+            title="What to follow"
+          >
+            {SOURCE_TYPES.map(type => (
+              <option key={type} value={type}>{SOURCE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newInput}
+            onChange={(e) => setNewInput(e.target.value)}
+            placeholder="ID or civitai.com URL"
+            className="flex-1 min-w-[12rem] text-base font-medium text-gray-900 border-b border-red-600 focus:outline-none bg-transparent"
+            autoComplete="off"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+              if (e.key === 'Escape') resetAddForm();
+            }}
+            autoFocus
+          />
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name (optional)"
+            className="w-40 text-sm text-gray-700 border-b border-gray-300 focus:outline-none bg-transparent"
+            autoComplete="off"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+              if (e.key === 'Escape') resetAddForm();
+            }}
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={resetAddForm}
+              className="p-1 hover:bg-gray-100 rounded transition-colors"
+              title="Cancel"
+            >
+              <X className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!newInput.trim() || adding}
+              className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+              title="Follow"
+            >
+              <Check className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center text-gray-600 py-4">Loading...</div>
+      ) : sources.length === 0 ? (
+        <div className="text-sm text-gray-500 py-2">
+          Follow a model, a model version (e.g. one LoRA release) or a collection to see its newest images in your Feed
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sources.map((source) => {
+            const syncing = syncingIds.includes(source.id) || source.sync_status === 'syncing';
+
+            return (
+              <div key={source.id} className="grid grid-cols-3 sm:grid-cols-4 items-center gap-4 py-3 px-4 bg-white rounded-lg shadow-sm">
+                <div className="col-span-2 min-w-0">
+                  <div className="text-base font-medium text-gray-900 truncate">{getSourceLabel(source)}</div>
+                  <div className="text-xs text-gray-500">
+                    {SOURCE_TYPE_LABELS[source.type]}
+                    {source.last_synced_at
+                      ? ` · synced ${new Date(source.last_synced_at).toLocaleDateString('en-US', {
+                          month: 'short',
+                          day: 'numeric'
+                        })}`
+                      : ' · not synced yet'}
+                    {source.sync_status === 'error' && (
+                      <span className="ml-2 text-red-600" title={source.sync_error || undefined}>Sync error</span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="hidden sm:block text-right text-sm text-gray-600">
+                  {source.total_posts} {source.total_posts === 1 ? 'post' : 'posts'}
+                </div>
+
+                <div className="flex items-center justify-end gap-2">
+                  {/* Sync button */}
+                  <button
+                    onClick={() => handleSync(source)}
+                    disabled={syncing}
+                    className="p-1 hover:bg-gray-100 rounded transition-colors disabled:cursor-not-allowed"
+                    title="Sync now"
+                  >
+                    <svg
+                      className={`w-5 h-5 ${syncing ? 'animate-spin text-gray-400' : ''}`}
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      viewBox="0 0 24 24"
+                    >
+                      <path d="M20,4v5h-.6M4.1,11c.6-4.4,4.6-7.5,8.9-6.9,2.9.4,5.3,2.3,6.4,4.9M19.4,9h-4.4M4,20v-5h.6M4.6,15c1.7,4.1,6.3,6.1,10.4,4.4,2.7-1.1,4.6-3.5,4.9-6.4M4.6,15h4.4"/>
+                    </svg>
+                  </button>
+
+                  {/* Visit on Civitai button */}
+                  <a
+                    href={getCivitaiUrl(source)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="p-1 hover:bg-gray-100 rounded transition-colors"
+                    title="View on Civitai"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                      />
+                    </svg>
+                  </a>
+
+                  {/* Remove button */}
+                  <button
+                    onClick={() => handleRemove(source)}
+                    disabled={syncing}
+                    className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Stop following"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { CivitaiImage, getGenerationParams, getImageResources } from '../lib/civitai';
+import { RESOURCE_TYPE_LABELS, getResourceLabel } from '../lib/resources';
+
+interface GenerationInfoProps {
+  image: CivitaiImage;
+  // Browse other posts made with a resource
+  onResourceClick?: (key: string) => void;
+}
+
+/**
+ * How an image was made: model, sampler settings, resources and prompts, with copy buttons for the prompts
+ * Renders nothing for images posted without generation metadata
+ */
+export const GenerationInfo = ({ image, onResourceClick }: GenerationInfoProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const [copied, setCopied] = useState<'prompt' | 'negative' | null>(null);
+  const generation = getGenerationParams(image);
+  // The checkpoint is already shown as the model
+  const resources = getImageResources(image).filter(resource => resource.type !== 'checkpoint');
+
+  const settings = [
+    generation.model && { label: 'Model', value: generation.model },
+    generation.baseModel && { label: 'Base', value: generation.baseModel },
+    generation.sampler && { label: 'Sampler', value: generation.sampler },
+    generation.steps !== null && { label: 'Steps', value: String(generation.steps) },
+    generation.cfgScale !== null && { label: 'CFG', value: String(generation.cfgScale) },
+    generation.seed !== null && { label: 'Seed', value: String(generation.seed) }
+  ].filter((setting): setting is { label: string; value: string } => !!setting);
+
+  if (!generation.prompt && !generation.negativePrompt && settings.length === 0 && resources.length === 0) {
+    return null;
+  }
+
+  async function handleCopy(text: string, which: 'prompt' | 'negative') {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(which);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (err) {
+      console.error('Error copying prompt:', err);
+    }
+  }
+
+  const renderPrompt = (label: string, text: string, which: 'prompt' | 'negative') => (
+    <div>
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700">{label}</span>
+        <button
+          onClick={() => handleCopy(text, which)}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors"
+          title={`Copy ${label.toLowerCase()}`}
+        >
+          {copied === which ? <Check size={14} className="text-green-600" /> : <Copy size={14} />}
+        </button>
+      </div>
+      <p className={`text-gray-600 whitespace-pre-wrap break-words ${expanded ? '' : 'line-clamp-3'}`}>{text}</p>
+    </div>
+  );
+
+  return (
+    // Clicks here shouldn't open the slideshow
+    <div className="px-3 pb-3 space-y-2 text-xs" onClick={(e) => e.stopPropagation()}>
+      {settings.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {settings.map(({ label, value }) => (
+            <span key={label} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full max-w-full truncate" title={`${label}: ${value}`}>
+              <span className="text-gray-500">{label}</span> {value}
+            </span>
+          ))}
+        </div>
+      )}
+      {resources.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {resources.map(resource => {
+            const label = getResourceLabel({ name: resource.name, hash: resource.hash, model_version_id: resource.modelVersionId });
+            const title = `${RESOURCE_TYPE_LABELS[resource.type]}: ${label}${resource.weight !== null ? ` (weight ${resource.weight})` : ''}`;
+            return (
+              <button
+                key={resource.key}
+                onClick={() => onResourceClick?.(resource.key)}
+                disabled={!onResourceClick}
+                className="px-2 py-0.5 bg-red-50 text-red-700 rounded-full max-w-full truncate enabled:hover:bg-red-100 transition-colors"
+                title={onResourceClick ? `${title} - see other posts using it` : title}
+              >
+                <span className="text-red-400">{RESOURCE_TYPE_LABELS[resource.type]}</span> {label}
+                {resource.weight !== null && <span className="text-red-400"> {resource.weight}</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {generation.prompt && renderPrompt('Prompt', generation.prompt, 'prompt')}
+      {expanded && generation.negativePrompt && renderPrompt('Negative prompt', generation.negativePrompt, 'negative')}
+      {(generation.negativePrompt || (generation.prompt && generation.prompt.length > 200)) && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-gray-500 hover:text-gray-700 transition-colors"
+        >
+          {expanded ? 'Show less' : 'Show more'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase, ensureHttps } from '../lib/supabase';
 import Masonry from 'react-masonry-css';
+import { getSourceAdapter } from '../lib/sourceAdapters';
+import { fetchFeedPage, type FeedCursor, type FeedPost, type FeedQuery } from '../lib/feedQuery';
 
 interface Post {
   post_id: number;
@@ -14,8 +16,13 @@ interface Post {
   is_favorited?: boolean;
 }
 
+const HIDDEN_POSTS_PER_PAGE = 60;
+
+// Hidden posts are listed whatever the NSFW preference, so they can always be unhidden
+const HIDDEN_FEED: FeedQuery = { source: { type: 'hidden' }, sort: 'newest', filters: { includeNsfw: true } };
+
 interface HiddenPostsProps {
-  onPostClick?: (postId: number) => void;
+  onPostClick?: (postId: number, feed: FeedQuery) => void;
   onCreatorClick?: (username: string) => void;
 }
 
@@ -136,7 +143,7 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggl
 
             {/* Link out */}
             <a
-              href={`https://civitai.com/posts/${post.post_id}`}
+              href={getSourceAdapter().getPostUrl(post.post_id)}
               target="_blank"
               rel="noopener noreferrer"
               className="p-1 hover:bg-gray-100 rounded transition-colors"
@@ -190,9 +197,25 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onToggl
   );
 };
 
+const toPost = (post: FeedPost): Post => ({
+  post_id: post.postId,
+  creator_username: post.username,
+  cover_image_url: post.coverImageUrl,
+  cover_width: post.coverWidth,
+  cover_height: post.coverHeight,
+  image_count: post.imageCount,
+  nsfw: post.nsfw,
+  published_at: post.publishedAt || '',
+  is_favorited: post.isFavorited
+});
+
 export function HiddenPosts({ onPostClick, onCreatorClick }: HiddenPostsProps) {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [cursor, setCursor] = useState<FeedCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [totalCount, setTotalCount] = useState(0);
 
   useEffect(() => {
     fetchHiddenPosts();
@@ -201,38 +224,11 @@ export function HiddenPosts({ onPostClick, onCreatorClick }: HiddenPostsProps) {
   async function fetchHiddenPosts() {
     try {
       setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Get hidden post IDs
-      const { data: hiddenInteractions } = await supabase
-        .from('post_interactions')
-        .select('post_id, is_favorited')
-        .eq('user_id', user.id)
-        .eq('is_hidden', true);
-
-      if (!hiddenInteractions || hiddenInteractions.length === 0) {
-        setPosts([]);
-        setLoading(false);
-        return;
-      }
-
-      const hiddenPostIds = hiddenInteractions.map(i => i.post_id);
-      const favoriteMap = new Map(hiddenInteractions.map(i => [i.post_id, i.is_favorited]));
-
-      // Get the posts
-      const { data: hiddenPosts } = await supabase
-        .from('posts')
-        .select('post_id, creator_username, cover_image_url, cover_width, cover_height, image_count, nsfw, published_at')
-        .in('post_id', hiddenPostIds)
-        .order('post_id', { ascending: false });
-
-      const postsWithFavorites = (hiddenPosts || []).map(post => ({
-        ...post,
-        is_favorited: favoriteMap.get(post.post_id) || false
-      }));
-
-      setPosts(postsWithFavorites);
+      const page = await fetchFeedPage(HIDDEN_FEED, null, HIDDEN_POSTS_PER_PAGE);
+      setPosts(page.posts.map(toPost));
+      setTotalCount(page.total ?? 0);
+      setCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
     } catch (err) {
       console.error('Error fetching hidden posts:', err);
     } finally {
@@ -240,6 +236,38 @@ export function HiddenPosts({ onPostClick, onCreatorClick }: HiddenPostsProps) {
     }
   }
 
+  const loadMoreHiddenPosts = useCallback(async () => {
+    if (loadingMore || !hasMore) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchFeedPage(HIDDEN_FEED, cursor, HIDDEN_POSTS_PER_PAGE);
+      // A post unhidden meanwhile doesn't shift the next page
+      setPosts(prev => {
+        const shown = new Set(prev.map(post => post.post_id));
+        return [...prev, ...page.posts.filter(post => !shown.has(post.postId)).map(toPost)];
+      });
+      setCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
+    } catch (err) {
+      console.error('Error loading more hidden posts:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [cursor, hasMore, loadingMore]);
+
+  // Infinite scroll: load the next page near the bottom
+  useEffect(() => {
+    const handleScroll = () => {
+      if (window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2000) {
+        loadMoreHiddenPosts();
+      }
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [loadMoreHiddenPosts]);
+
   async function handleUnhide(postId: number, e: React.MouseEvent) {
     e.stopPropagation();
 
@@ -249,6 +277,7 @@ export function HiddenPosts({ onPostClick, onCreatorClick }: HiddenPostsProps) {
 
       // Remove from list immediately
       setPosts(posts.filter(p => p.post_id !== postId));
+      setTotalCount(count => Math.max(0, count - 1));
 
       await supabase
         .from('post_interactions')
@@ -336,7 +365,7 @@ export function HiddenPosts({ onPostClick, onCreatorClick }: HiddenPostsProps) {
             <PostCard
               key={post.post_id}
               post={post}
-              onPostClick={onPostClick}
+              onPostClick={(postId) => onPostClick?.(postId, HIDDEN_FEED)}
               onCreatorClick={onCreatorClick}
               onToggleFavorite={toggleFavorite}
               onToggleUnhide={handleUnhide}
@@ -346,7 +375,10 @@ export function HiddenPosts({ onPostClick, onCreatorClick }: HiddenPostsProps) {
       )}
 
       <div className="mt-8 mb-24 text-center text-gray-600">
-        {posts.length} hidden post{posts.length !== 1 ? 's' : ''}
+        {totalCount} hidden post{totalCount !== 1 ? 's' : ''}
+        {loadingMore && (
+          <div className="mt-4 text-sm text-gray-500">Loading more posts...</div>
+        )}
       </div>
     </div>
   );
@@ -1,17 +1,34 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { getStoredProfiles, type StoredProfile } from '../lib/profiles';
-import { Star } from 'lucide-react';
+import { on } from '../lib/events';
+import type { SmartFeed } from '../lib/smartFeeds';
+import { Star, Plus } from 'lucide-react';
 
 interface NavigationProps {
-  currentView: 'feed' | 'myposts' | 'favorites' | 'settings' | 'none';
-  onViewChange: (view: 'feed' | 'myposts' | 'favorites' | 'settings') => void;
+  currentView: 'feed' | 'myposts' | 'favorites' | 'smart-feed' | 'search' | 'settings' | 'none';
+  onViewChange: (view: 'feed' | 'myposts' | 'favorites' | 'search' | 'settings') => void;
   showBackButton?: boolean;
   onBack?: () => void;
   onProfileSwitch?: () => void;
+  // The user's smart feeds, a tab each after Favorites
+  smartFeeds?: SmartFeed[];
+  currentSmartFeedId?: number | null;
+  onSmartFeedSelect?: (id: number) => void;
+  onNewSmartFeed?: () => void;
 }
 
-export const Navigation = ({ currentView, onViewChange, showBackButton, onBack, onProfileSwitch }: NavigationProps) => {
+export const Navigation = ({
+  currentView,
+  onViewChange,
+  showBackButton,
+  onBack,
+  onProfileSwitch,
+  smartFeeds = [],
+  currentSmartFeedId,
+  onSmartFeedSelect,
+  onNewSmartFeed
+}: NavigationProps) => {
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
   const [storedProfiles, setStoredProfiles] = useState<StoredProfile[]>([]);
   const [currentEmail, setCurrentEmail] = useState('');
@@ -21,12 +38,13 @@ export const Navigation = ({ currentView, onViewChange, showBackButton, onBack,
     loadCurrentUser();
 
     // Listen for profile updates from Settings
-    const handleProfilesUpdate = () => {
-      loadProfiles();
-    };
-
-    window.addEventListener('profilesUpdated', handleProfilesUpdate);
-    return () => window.removeEventListener('profilesUpdated', handleProfilesUpdate);
+    return on('profilesUpdated', ({ profiles }) => {
+      if (profiles) {
+        setStoredProfiles(profiles);
+      } else {
+        loadProfiles();
+      }
+    });
   }, []);
 
   async function loadCurrentUser() {
@@ -208,6 +226,54 @@ export const Navigation = ({ currentView, onViewChange, showBackButton, onBack,
               </svg>
             </button>
 
+            {/* Smart feeds */}
+            <div className="flex items-center gap-1 overflow-x-auto max-w-[40vw]">
+              {smartFeeds.map(feed => (
+                <button
+                  key={feed.id}
+                  onClick={() => onSmartFeedSelect?.(feed.id)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-full whitespace-nowrap max-w-[10rem] truncate transition-colors ${
+                    currentView === 'smart-feed' && currentSmartFeedId === feed.id
+                      ? 'bg-red-600 text-white'
+                      : 'text-gray-900 hover:bg-gray-100'
+                  }`}
+                  title={feed.name}
+                >
+                  {feed.name}
+                </button>
+              ))}
+              {onNewSmartFeed && (
+                <button
+                  onClick={onNewSmartFeed}
+                  className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors flex-shrink-0"
+                  title="New feed"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+
+            {/* Prompt search */}
+            <button
+              onClick={() => onViewChange('search')}
+              className="p-2 hover:bg-gray-100 rounded transition-colors"
+              title="Search prompts"
+            >
+              <svg
+                className={`w-[30px] h-[30px] ${currentView === 'search' ? 'text-red-600' : 'text-gray-900'}`}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="1.5"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                />
+              </svg>
+            </button>
+
             {/* Settings */}
             <button
               onClick={() => onViewChange('settings')}
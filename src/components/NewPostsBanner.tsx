@@ -0,0 +1,23 @@
+import { ArrowUp } from 'lucide-react';
+
+interface NewPostsBannerProps {
+  count: number;
+  onShow: () => void;
+}
+
+/**
+ * "N new posts — show" for posts a sync saved while the user was scrolled down the feed
+ */
+export const NewPostsBanner = ({ count, onShow }: NewPostsBannerProps) => {
+  if (count === 0) return null;
+
+  return (
+    <button
+      onClick={onShow}
+      className="fixed top-20 left-1/2 -translate-x-1/2 z-40 px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-full shadow-lg flex items-center gap-2 hover:bg-red-700 transition-colors animate-in slide-in-from-top-2 duration-300"
+    >
+      <ArrowUp className="w-4 h-4" />
+      {count} new {count === 1 ? 'post' : 'posts'} — show
+    </button>
+  );
+};
@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
 import { supabase, ensureHttps } from '../lib/supabase';
-import { CivitaiImage } from '../lib/civitai';
+import { CivitaiImage, toGenerationColumns, toImageColumns } from '../lib/civitai';
+import { getSourceAdapter } from '../lib/sourceAdapters';
 import { Pencil, PencilOff, RefreshCw, ExternalLink, Download, Play, Settings, Info, ArrowLeft, ArrowRight } from 'lucide-react';
 import JSZip from 'jszip';
 import { useSwipeable } from 'react-swipeable';
+import { GenerationInfo } from './GenerationInfo';
+import { saveImageResources } from '../lib/resources';
+import { refreshPostStats } from '../lib/reactions';
+import { fetchFeedNeighbours, type FeedQuery } from '../lib/feedQuery';
 
 interface PostDetailProps {
   postId: number;
@@ -11,16 +16,18 @@ interface PostDetailProps {
   onBack?: (postId?: number, imageCount?: number, coverImageUrl?: string) => void;
   onNavigatePost?: (postId: number) => void;
   onCreatorClick?: (username: string) => void;
-  sourceView?: 'feed' | 'myposts' | 'favorites' | 'creator-feed';
-  creatorUsername?: string;
+  // Feed the post was opened from, for prev/next navigation
+  feed?: FeedQuery | null;
   onImageCountChange?: (count: number) => void;
   onCoverImageChange?: (url: string) => void;
+  onResourceClick?: (key: string) => void;
 }
 
-export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCreatorClick, sourceView, creatorUsername, onImageCountChange, onCoverImageChange }: PostDetailProps) => {
+export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCreatorClick, feed, onImageCountChange, onCoverImageChange, onResourceClick }: PostDetailProps) => {
   const [images, setImages] = useState<CivitaiImage[]>([]);
   const [postTitle, setPostTitle] = useState<string>('');
   const [creatorName, setCreatorName] = useState<string>('');
+  const [removedUpstreamAt, setRemovedUpstreamAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastSyncDate, setLastSyncDate] = useState<string>('');
 
@@ -62,7 +69,7 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
     setLoadedImages(new Set());
     fetchPost();
     fetchAdjacentPosts();
-  }, [postId, sourceView, creatorUsername]);
+  }, [postId, feed]);
 
   // Keyboard navigation for prev/next posts
   useEffect(() => {
@@ -86,136 +93,19 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
   }, [prevPostId, nextPostId, onNavigatePost]);
 
   async function fetchAdjacentPosts() {
-    try {
-      console.log('='.repeat(80));
-      console.log('🔍 FETCHING ADJACENT POSTS');
-      console.log(`   Current Post ID: ${postId}`);
-      console.log(`   Source View: ${sourceView}`);
-      console.log(`   Creator Username (for creator-feed): ${creatorUsername || 'N/A'}`);
-
-      let prevQuery = supabase.from('posts').select('post_id');
-      let nextQuery = supabase.from('posts').select('post_id');
-
-      // Apply filters based on source view
-      if (sourceView === 'creator-feed' && creatorUsername) {
-        // Creator feed: same creator only
-        console.log(`   🎯 Filter Mode: CREATOR FEED (${creatorUsername})`);
-        prevQuery = prevQuery.eq('creator_username', creatorUsername);
-        nextQuery = nextQuery.eq('creator_username', creatorUsername);
-      } else if (sourceView === 'myposts') {
-        // My posts: same creator (my username from database)
-        console.log(`   🎯 Filter Mode: MY POSTS`);
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          const { data: userSettings } = await supabase
-            .from('user_settings')
-            .select('civitai_username')
-            .eq('user_id', user.id)
-            .maybeSingle();
-
-          const myUsername = userSettings?.civitai_username;
-          console.log(`   👤 My Username from database: "${myUsername}"`);
-
-          if (myUsername) {
-            prevQuery = prevQuery.eq('creator_username', myUsername);
-            nextQuery = nextQuery.eq('creator_username', myUsername);
-          } else {
-            console.log('   ⚠️ WARNING: civitai_username is not set in user_settings!');
-          }
-        }
-      } else if (sourceView === 'favorites') {
-        // Favorites: only favorited posts for THIS user
-        console.log(`   🎯 Filter Mode: FAVORITES`);
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.log('   ⚠️ No user found, cannot load favorites');
-          setPrevPostId(null);
-          setNextPostId(null);
-          return;
-        }
-
-        const { data: favInteractions } = await supabase
-          .from('post_interactions')
-          .select('post_id')
-          .eq('user_id', user.id)
-          .eq('is_favorited', true);
-
-        const favPostIds = favInteractions?.map(i => i.post_id) || [];
-        console.log(`   ⭐ Found ${favPostIds.length} favorited posts for user ${user.id}`);
-        if (favPostIds.length > 0) {
-          prevQuery = prevQuery.in('post_id', favPostIds);
-          nextQuery = nextQuery.in('post_id', favPostIds);
-        } else {
-          // No favorites, no navigation
-          console.log(`   ⚠️ No favorites found, no navigation`);
-          setPrevPostId(null);
-          setNextPostId(null);
-          return;
-        }
-      } else if (sourceView === 'feed') {
-        // Main feed: only posts from followed creators, excluding my posts
-        console.log(`   🎯 Filter Mode: MAIN FEED`);
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          const { data: myCreators } = await supabase
-            .from('creators')
-            .select('username')
-            .eq('user_id', user.id);
-
-          const creatorUsernames = myCreators?.map(c => c.username) || [];
-          console.log(`   👥 Following ${creatorUsernames.length} creators: ${creatorUsernames.join(', ')}`);
-
-          if (creatorUsernames.length > 0) {
-            prevQuery = prevQuery.in('creator_username', creatorUsernames);
-            nextQuery = nextQuery.in('creator_username', creatorUsernames);
-          }
-
-          // Exclude my posts if username is set
-          const { data: userSettings } = await supabase
-            .from('user_settings')
-            .select('civitai_username')
-            .eq('user_id', user.id)
-            .maybeSingle();
-
-          const myUsername = userSettings?.civitai_username;
-          if (myUsername) {
-            console.log(`   🚫 Excluding posts from: ${myUsername}`);
-            prevQuery = prevQuery.neq('creator_username', myUsername);
-            nextQuery = nextQuery.neq('creator_username', myUsername);
-          }
-        }
-      } else {
-        console.log(`   ⚠️ Unknown source view: ${sourceView}`);
-      }
-
-      // Get the previous post (higher post_id = newer)
-      const { data: prevData } = await prevQuery
-        .gt('post_id', postId)
-        .not('cover_image_url', 'is', null)
-        .order('post_id', { ascending: true })
-        .limit(1)
-        .maybeSingle();
-
-      setPrevPostId(prevData?.post_id || null);
-
-      // Get the next post (lower post_id = older)
-      const { data: nextData } = await nextQuery
-        .lt('post_id', postId)
-        .not('cover_image_url', 'is', null)
-        .order('post_id', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      console.log('');
-      console.log('📊 RESULTS:');
-      console.log(`   ⬅️  Previous Post ID: ${prevData?.post_id || '❌ NONE'}`);
-      console.log(`   ➡️  Next Post ID: ${nextData?.post_id || '❌ NONE'}`);
-      console.log('='.repeat(80));
+    // Views that aren't a feed (search results, resources) have nothing to step through
+    if (!feed) {
+      setPrevPostId(null);
+      setNextPostId(null);
+      return;
+    }
 
-      setPrevPostId(prevData?.post_id || null);
-      setNextPostId(nextData?.post_id || null);
+    try {
+      const adjacent = await fetchFeedNeighbours(feed, postId);
+      console.log(`🔍 Adjacent posts of ${postId} in ${feed.source.type} feed - Prev: ${adjacent.prevPostId ?? 'none'}, Next: ${adjacent.nextPostId ?? 'none'}`);
 
-      console.log(`✅ State updated - Prev: ${prevData?.post_id || null}, Next: ${nextData?.post_id || null}`);
+      setPrevPostId(adjacent.prevPostId);
+      setNextPostId(adjacent.nextPostId);
     } catch (err) {
       console.error('Error fetching adjacent posts:', err);
     }
@@ -229,10 +119,12 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
       // Get post info and images from database
       const { data: post } = await supabase
         .from('posts')
-        .select('title, cover_image_url, updated_at, creator_username')
+        .select('title, cover_image_url, updated_at, creator_username, removed_upstream, removed_upstream_at')
         .eq('post_id', postId)
         .maybeSingle();
 
+      setRemovedUpstreamAt(post?.removed_upstream ? post.removed_upstream_at || post.updated_at : null);
+
       if (post?.title) {
         setPostTitle(post.title);
       }
@@ -259,11 +151,12 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
         }
       }
 
-      // Get current images from database
+      // Get current images from database (images deleted on Civitai are kept but not shown)
       const { data: imagesData, error: imagesError } = await supabase
         .from('images')
-        .select('image_id, url, hash, width, height, nsfw, position')
+        .select('image_id, url, hash, width, height, nsfw, position, meta, base_model')
         .eq('post_id', postId)
+        .eq('removed_upstream', false)
         .order('position', { ascending: true, nullsFirst: false })
         .order('image_id', { ascending: true });
 
@@ -280,7 +173,9 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
         width: img.width || 0,
         height: img.height || 0,
         nsfw: img.nsfw || false,
-        postId: postId
+        postId: postId,
+        meta: img.meta,
+        baseModel: img.base_model
       }));
 
       // If no images but we have a cover image, use it as a placeholder
@@ -304,28 +199,27 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
       console.log(`🔍 Checking Civitai API for updates to post ${postId}...`);
 
       // Do API check in background without blocking UI
-      const apiResponse = await fetch(`https://civitai.com/api/v1/images?postId=${postId}&limit=200&nsfw=true`);
-      if (apiResponse.ok) {
-        const apiData = await apiResponse.json();
-        const apiImageCount = apiData.items?.length || 0;
+      const apiItems = await getSourceAdapter().fetchPostImages(postId).catch(err => {
+        console.warn(`⚠️ Could not check Civitai API for post ${postId}:`, err);
+        return null;
+      });
+      if (apiItems) {
+        const apiImageCount = apiItems.length;
         console.log(`📡 API returned ${apiImageCount} images for post ${postId}`);
 
         // If API has images and (DB is empty OR API has more images), sync them
         if (apiImageCount > 0 && (dbImageCount === 0 || apiImageCount > dbImageCount)) {
           console.log(`🔄 Auto-syncing ${apiImageCount - dbImageCount} new images...`);
           const existingImageIds = new Set(imagesData?.map(img => img.image_id) || []);
-          const newImages = apiData.items.filter((img: any) => !existingImageIds.has(img.id));
+          const newImages = apiItems.filter(img => !existingImageIds.has(img.id));
 
           // Insert new images into database
           if (newImages.length > 0) {
-            const imagesToInsert = newImages.map((img: any) => ({
+            const imagesToInsert = newImages.map(img => ({
               image_id: img.id,
               post_id: postId,
-              url: img.url,
-              hash: img.hash,
-              width: img.width,
-              height: img.height,
-              nsfw: img.nsfw === 'X' || img.nsfw === 'Mature' || img.nsfwLevel >= 4
+              ...toImageColumns(img),
+              removed_upstream: false
             }));
 
             const { error: insertError } = await supabase
@@ -336,6 +230,8 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
               console.error('❌ Error upserting new images:', insertError);
             } else {
               console.log(`✅ Successfully auto-synced ${newImages.length} new images`);
+              await saveImageResources(newImages);
+              await refreshPostStats([postId]);
             }
           }
 
@@ -351,8 +247,9 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
           // Refresh images from database
           const { data: refreshedImages } = await supabase
             .from('images')
-            .select('image_id, url, hash, width, height, nsfw')
+            .select('image_id, url, hash, width, height, nsfw, meta, base_model')
             .eq('post_id', postId)
+            .eq('removed_upstream', false)
             .order('image_id', { ascending: true });
 
           if (refreshedImages) {
@@ -363,7 +260,9 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
               width: img.width || 0,
               height: img.height || 0,
               nsfw: img.nsfw || false,
-              postId: postId
+              postId: postId,
+              meta: img.meta,
+              baseModel: img.base_model
             }));
             setImages(updatedImages);
           }
@@ -641,13 +540,7 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
       console.log(`🔄 Syncing images for post ${postId}...`);
 
       // Step 1: Fetch from API
-      const apiResponse = await fetch(`https://civitai.com/api/v1/images?postId=${postId}&limit=200&nsfw=true`);
-      if (!apiResponse.ok) {
-        throw new Error('Failed to fetch from Civitai API');
-      }
-
-      const apiData = await apiResponse.json();
-      const apiImages = apiData.items || [];
+      const apiImages = await getSourceAdapter().fetchPostImages(postId);
       console.log(`📡 API returned ${apiImages.length} images`);
 
       // Step 2: Get all existing images from database
@@ -692,13 +585,13 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
       }
 
       // Step 5: Compare with API - find what should be added and removed
-      const apiUrls = new Set(apiImages.map((img: any) => img.url));
-      const apiIds = new Set(apiImages.map((img: any) => img.id));
+      const apiUrls = new Set(apiImages.map(img => img.url));
+      const apiIds = new Set(apiImages.map(img => img.id));
       const dbUrls = new Set(dbImages?.map(img => img.url) || []);
       const dbIds = new Set(dbImages?.map(img => img.image_id) || []);
 
       // Missing: in API but not in DB
-      const missingImages = apiImages.filter((img: any) =>
+      const missingImages = apiImages.filter(img =>
         !dbUrls.has(img.url) && !dbIds.has(img.id)
       );
 
@@ -728,14 +621,10 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
       // Step 7: Insert missing images
       if (missingImages.length > 0) {
         console.log(`➕ Adding ${missingImages.length} missing images from API`);
-        const imagesToInsert = missingImages.map((img: any) => ({
+        const imagesToInsert = missingImages.map(img => ({
           image_id: img.id,
           post_id: postId,
-          url: img.url,
-          hash: img.hash,
-          width: img.width,
-          height: img.height,
-          nsfw: img.nsfw === 'X' || img.nsfw === 'Mature' || img.nsfwLevel >= 4
+          ...toImageColumns(img)
         }));
 
         const { error: insertError } = await supabase
@@ -748,7 +637,23 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
         }
       }
 
-      // Step 8: Get final count and update post
+      // Step 8: Fill in generation metadata and resources for images saved before they were captured
+      const missingIds = new Set(missingImages.map(img => img.id));
+      for (const img of apiImages) {
+        if (missingIds.has(img.id)) continue;
+        const { error: metaError } = await supabase
+          .from('images')
+          .update({ ...toGenerationColumns(img), raw: img.raw ?? null })
+          .eq('image_id', img.id);
+
+        if (metaError) {
+          console.error(`Error updating metadata for image ${img.id}:`, metaError);
+        }
+      }
+      await saveImageResources(apiImages);
+      await refreshPostStats([postId]);
+
+      // Step 9: Get final count and update post
       const { count: finalCount } = await supabase
         .from('images')
         .select('*', { count: 'exact', head: true })
@@ -762,10 +667,10 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
         })
         .eq('post_id', postId);
 
-      // Step 9: Refresh images in UI
+      // Step 10: Refresh images in UI
       const { data: refreshedImages } = await supabase
         .from('images')
-        .select('image_id, url, hash, width, height, nsfw')
+        .select('image_id, url, hash, width, height, nsfw, meta, base_model')
         .eq('post_id', postId)
         .order('image_id', { ascending: true });
 
@@ -777,7 +682,9 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
           width: img.width || 0,
           height: img.height || 0,
           nsfw: img.nsfw || false,
-          postId: postId
+          postId: postId,
+          meta: img.meta,
+          baseModel: img.base_model
         }));
         setImages(updatedImages);
       }
@@ -895,6 +802,13 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
           </button>
         </h1>
 
+        {/* Deleted on Civitai - kept in the archive */}
+        {removedUpstreamAt && (
+          <div className="mb-3 inline-block bg-gray-100 text-gray-600 text-sm px-3 py-1 rounded-full">
+            Removed from Civitai on {new Date(removedUpstreamAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </div>
+        )}
+
         {/* Post info bar */}
         <div className="flex items-center gap-6 py-3 rounded-lg flex-wrap sm:flex-nowrap">
           {/* Image count pill and Post ID */}
@@ -951,7 +865,7 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
             </button>
 
             <a
-              href={`https://civitai.com/posts/${postId}`}
+              href={getSourceAdapter().getPostUrl(postId)}
               target="_blank"
               rel="noopener noreferrer"
               className="p-1.5 rounded text-gray-900 hover:bg-white transition-all flex items-center"
@@ -1140,6 +1054,7 @@ export const PostDetail = ({ postId, onImageClick, onBack, onNavigatePost, onCre
                     </div>
                   </div>
                 </div>
+                {!editMode && <GenerationInfo image={image} onResourceClick={onResourceClick} />}
               </div>
             </div>
           );
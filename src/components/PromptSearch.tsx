@@ -0,0 +1,317 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { supabase, getUserNSFWPreference, ensureHttps } from '../lib/supabase';
+import { searchPrompts, splitSnippet, type PromptSearchFilters, type PromptSearchResult } from '../lib/search';
+import Masonry from 'react-masonry-css';
+import { Search } from 'lucide-react';
+
+interface PromptSearchProps {
+  onPostClick?: (postId: number) => void;
+  onCreatorClick?: (username: string) => void;
+}
+
+interface ResultCardProps {
+  result: PromptSearchResult;
+  onPostClick?: (postId: number) => void;
+  onCreatorClick?: (username: string) => void;
+}
+
+type NSFWFilter = 'all' | 'sfw' | 'nsfw';
+
+const RESULTS_PER_PAGE = 30;
+
+const ResultCard = ({ result, onPostClick, onCreatorClick }: ResultCardProps) => {
+  const [loaded, setLoaded] = useState(false);
+  const isVideo = result.url.endsWith('.mp4');
+
+  return (
+    <article className="mb-3">
+      <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow">
+        <div
+          className="cursor-pointer relative bg-white"
+          style={result.width && result.height ? { aspectRatio: `${result.width} / ${result.height}` } : undefined}
+          onClick={() => onPostClick?.(result.post_id)}
+        >
+          {isVideo ? (
+            <video
+              src={ensureHttps(result.url)}
+              className="w-full h-auto transition-opacity duration-300"
+              style={{ opacity: loaded ? 1 : 0 }}
+              autoPlay
+              muted
+              loop
+              playsInline
+              preload="metadata"
+              onLoadedData={() => setLoaded(true)}
+            />
+          ) : (
+            <img
+              src={ensureHttps(result.url)}
+              alt={`Post ${result.post_id} by ${result.creator_username}`}
+              className="w-full h-auto transition-opacity duration-300"
+              style={{ opacity: loaded ? 1 : 0 }}
+              loading="lazy"
+              onLoad={() => setLoaded(true)}
+            />
+          )}
+        </div>
+
+        <div className="p-2 space-y-1">
+          <p className="text-xs text-gray-600 line-clamp-4 break-words">
+            {splitSnippet(result.snippet).map((part, index) =>
+              part.match
+                ? <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{part.text}</mark>
+                : <span key={index}>{part.text}</span>
+            )}
+          </p>
+          <div className="flex items-center justify-between gap-2">
+            <button
+              onClick={() => onCreatorClick?.(result.creator_username)}
+              className="text-xs font-medium text-gray-900 hover:text-red-600 transition-colors truncate min-w-0 text-left"
+            >
+              @{result.creator_username}
+            </button>
+            {result.published_at && (
+              <span className="text-xs text-gray-400 flex-shrink-0">
+                {new Date(result.published_at).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric'
+                })}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </article>
+  );
+};
+
+export const PromptSearch = ({ onPostClick, onCreatorClick }: PromptSearchProps) => {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [creator, setCreator] = useState('');
+  const [nsfwFilter, setNsfwFilter] = useState<NSFWFilter>('all');
+  const [publishedFrom, setPublishedFrom] = useState('');
+  const [publishedTo, setPublishedTo] = useState('');
+  const [negative, setNegative] = useState(false);
+  const [showNSFW, setShowNSFW] = useState(true);
+  const [creators, setCreators] = useState<string[]>([]);
+  const [results, setResults] = useState<PromptSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses to superseded searches are dropped
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    loadFilterOptions();
+  }, []);
+
+  async function loadFilterOptions() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [{ data: creatorsData }, nsfwPreference] = await Promise.all([
+        supabase
+          .from('creators')
+          .select('username')
+          .eq('user_id', user.id)
+          .order('username', { ascending: true }),
+        getUserNSFWPreference()
+      ]);
+
+      setCreators((creatorsData || []).map(c => c.username));
+      setShowNSFW(nsfwPreference);
+    } catch (err) {
+      console.error('Error loading search filters:', err);
+    }
+  }
+
+  // The date inputs are whole days, so "to" includes the day picked
+  const filters = useMemo((): PromptSearchFilters => {
+    const toDate = publishedTo ? new Date(publishedTo) : null;
+    toDate?.setDate(toDate.getDate() + 1);
+
+    return {
+      query,
+      creator: creator || null,
+      nsfw: !showNSFW || nsfwFilter === 'sfw' ? false : nsfwFilter === 'nsfw' ? true : null,
+      publishedFrom: publishedFrom ? new Date(publishedFrom).toISOString() : null,
+      publishedTo: toDate ? toDate.toISOString() : null,
+      negative
+    };
+  }, [query, creator, nsfwFilter, publishedFrom, publishedTo, negative, showNSFW]);
+
+  const runSearch = useCallback(async () => {
+    const searchId = ++searchIdRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+      console.log(`🔎 Searching prompts for "${filters.query}"`);
+
+      const data = await searchPrompts(filters, 0, RESULTS_PER_PAGE);
+      if (searchId !== searchIdRef.current) return;
+
+      console.log(`✅ Found ${data.length}${data.length === RESULTS_PER_PAGE ? '+' : ''} matching posts`);
+      setResults(data);
+      setHasMore(data.length === RESULTS_PER_PAGE);
+    } catch (err) {
+      if (searchId !== searchIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setResults([]);
+      setHasMore(false);
+    } finally {
+      if (searchId === searchIdRef.current) setLoading(false);
+    }
+  }, [filters]);
+
+  const loadMoreResults = useCallback(async () => {
+    const searchId = searchIdRef.current;
+
+    try {
+      setLoadingMore(true);
+      const data = await searchPrompts(filters, results.length, RESULTS_PER_PAGE);
+      if (searchId !== searchIdRef.current) return;
+
+      setResults(prev => [...prev, ...data]);
+      setHasMore(data.length === RESULTS_PER_PAGE);
+    } catch (err) {
+      console.error('Error loading more search results:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, results.length]);
+
+  // Search again whenever the query or a filter changes
+  useEffect(() => {
+    if (filters.query) runSearch();
+  }, [filters, runSearch]);
+
+  useEffect(() => {
+    // Infinite scroll: load the next page near the bottom
+    const handleScroll = () => {
+      if (window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2000 && hasMore && !loadingMore && !loading) {
+        loadMoreResults();
+      }
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [hasMore, loadingMore, loading, loadMoreResults]);
+
+  const breakpointColumns = {
+    default: 5,
+    1280: 4,
+    1024: 3,
+    768: 2
+  };
+
+  const inputClassName = 'px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500';
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setQuery(input.trim());
+        }}
+        className="mb-4 flex gap-2"
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={negative ? 'Search negative prompts...' : 'Search prompts... ("exact phrase", -exclude, or)'}
+            className="w-full pl-10 pr-3 py-3 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+            autoFocus
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!input.trim()}
+          className="px-6 py-3 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          Search
+        </button>
+      </form>
+
+      {/* Filters */}
+      <div className="mb-8 flex flex-wrap items-center gap-3">
+        <select value={creator} onChange={(e) => setCreator(e.target.value)} className={inputClassName} title="Creator">
+          <option value="">All creators</option>
+          {creators.map(username => (
+            <option key={username} value={username}>@{username}</option>
+          ))}
+        </select>
+
+        {showNSFW && (
+          <select value={nsfwFilter} onChange={(e) => setNsfwFilter(e.target.value as NSFWFilter)} className={inputClassName} title="NSFW">
+            <option value="all">SFW and NSFW</option>
+            <option value="sfw">SFW only</option>
+            <option value="nsfw">NSFW only</option>
+          </select>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <input type="date" value={publishedFrom} onChange={(e) => setPublishedFrom(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <input type="date" value={publishedTo} onChange={(e) => setPublishedTo(e.target.value)} className={inputClassName} />
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={negative}
+            onChange={(e) => setNegative(e.target.checked)}
+            className="accent-red-600"
+          />
+          Search negative prompts
+        </label>
+      </div>
+
+      {error ? (
+        <div className="text-center text-red-600 py-16">Error: {error}</div>
+      ) : !query ? (
+        <div className="text-center text-gray-600 py-16">
+          <p className="text-xl">Search the prompts of every synced image</p>
+          <p className="text-sm mt-2">Images synced before prompts were captured show up after their creator is reconciled</p>
+        </div>
+      ) : loading ? (
+        <div className="text-center text-gray-600 py-16">Searching...</div>
+      ) : results.length === 0 ? (
+        <div className="text-center text-gray-600 py-16">No prompts match "{query}"</div>
+      ) : (
+        <>
+          <Masonry
+            breakpointCols={breakpointColumns}
+            className="flex -ml-3 w-auto"
+            columnClassName="pl-3 bg-clip-padding"
+          >
+            {results.map((result) => (
+              <ResultCard
+                key={result.post_id}
+                result={result}
+                onPostClick={onPostClick}
+                onCreatorClick={onCreatorClick}
+              />
+            ))}
+          </Masonry>
+          <div className="mt-8 mb-24 text-center text-gray-600">
+            {results.length} matching {results.length === 1 ? 'post' : 'posts'}{hasMore ? ' so far' : ''}
+            {loadingMore && (
+              <div className="mt-4 text-sm text-gray-500">Loading more results...</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,348 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase, ensureHttps } from '../lib/supabase';
+import type { ResourceType } from '../lib/civitai';
+import {
+  RESOURCE_TYPE_LABELS,
+  getResourceLabel,
+  fetchResourceUsage,
+  fetchResource,
+  fetchPostsUsingResource,
+  type Resource,
+  type ResourceUsage,
+  type ResourcePost
+} from '../lib/resources';
+import Masonry from 'react-masonry-css';
+import { ArrowLeft } from 'lucide-react';
+
+interface ResourcesProps {
+  // Resource whose posts are shown, null for the usage list
+  resourceKey: string | null;
+  onResourceChange: (key: string | null) => void;
+  onPostClick?: (postId: number) => void;
+  onCreatorClick?: (username: string) => void;
+}
+
+interface ResourcePostCardProps {
+  post: ResourcePost;
+  onPostClick?: (postId: number) => void;
+  onCreatorClick?: (username: string) => void;
+}
+
+const POSTS_PER_PAGE = 30;
+
+const ResourcePostCard = ({ post, onPostClick, onCreatorClick }: ResourcePostCardProps) => {
+  const [loaded, setLoaded] = useState(false);
+  const isVideo = post.cover_image_url.endsWith('.mp4');
+
+  return (
+    <article className="mb-3">
+      <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow">
+        <div
+          className="cursor-pointer relative bg-white"
+          style={post.cover_width && post.cover_height ? { aspectRatio: `${post.cover_width} / ${post.cover_height}` } : undefined}
+          onClick={() => onPostClick?.(post.post_id)}
+        >
+          {isVideo ? (
+            <video
+              src={ensureHttps(post.cover_image_url)}
+              className="w-full h-auto transition-opacity duration-300"
+              style={{ opacity: loaded ? 1 : 0 }}
+              autoPlay
+              muted
+              loop
+              playsInline
+              preload="metadata"
+              onLoadedData={() => setLoaded(true)}
+            />
+          ) : (
+            <img
+              src={ensureHttps(post.cover_image_url)}
+              alt={`Post ${post.post_id} by ${post.creator_username}`}
+              className="w-full h-auto transition-opacity duration-300"
+              style={{ opacity: loaded ? 1 : 0 }}
+              loading="lazy"
+              onLoad={() => setLoaded(true)}
+            />
+          )}
+          {post.image_count && post.image_count > 1 && (
+            <div className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded">
+              {post.image_count}
+            </div>
+          )}
+        </div>
+
+        <div className="p-2 flex items-center justify-between gap-2">
+          <button
+            onClick={() => onCreatorClick?.(post.creator_username)}
+            className="text-xs font-medium text-gray-900 hover:text-red-600 transition-colors truncate min-w-0 text-left"
+          >
+            @{post.creator_username}
+          </button>
+          {post.published_at && (
+            <span className="text-xs text-gray-400 flex-shrink-0">
+              {new Date(post.published_at).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric'
+              })}
+            </span>
+          )}
+        </div>
+      </div>
+    </article>
+  );
+};
+
+/**
+ * Most used checkpoints, LoRAs and embeddings across the user's creators,
+ * and the posts made with any one of them
+ */
+export const Resources = ({ resourceKey, onResourceChange, onPostClick, onCreatorClick }: ResourcesProps) => {
+  const [creator, setCreator] = useState('');
+  const [type, setType] = useState<ResourceType | ''>('');
+  const [creators, setCreators] = useState<string[]>([]);
+  const [usage, setUsage] = useState<ResourceUsage[]>([]);
+  const [resource, setResource] = useState<Resource | null>(null);
+  const [posts, setPosts] = useState<ResourcePost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses for a resource that is no longer selected are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    loadCreators();
+  }, []);
+
+  async function loadCreators() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data } = await supabase
+        .from('creators')
+        .select('username')
+        .eq('user_id', user.id)
+        .order('username', { ascending: true });
+
+      setCreators((data || []).map(c => c.username));
+    } catch (err) {
+      console.error('Error loading creators:', err);
+    }
+  }
+
+  const loadUsage = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchResourceUsage({ creator: creator || null, type: type || null });
+      if (requestId !== requestIdRef.current) return;
+
+      console.log(`🧩 Loaded ${data.length} resources`);
+      setUsage(data);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [creator, type]);
+
+  async function loadResourcePosts(key: string) {
+    const requestId = ++requestIdRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setPosts([]);
+      setHasMore(false);
+
+      const found = await fetchResource(key);
+      if (requestId !== requestIdRef.current) return;
+      setResource(found);
+      if (!found) return;
+
+      const data = await fetchPostsUsingResource(found.id, 0, POSTS_PER_PAGE);
+      if (requestId !== requestIdRef.current) return;
+
+      console.log(`🧩 Found ${data.length}${data.length === POSTS_PER_PAGE ? '+' : ''} posts using ${getResourceLabel(found)}`);
+      setPosts(data);
+      setHasMore(data.length === POSTS_PER_PAGE);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }
+
+  const loadMorePosts = useCallback(async () => {
+    if (!resource) return;
+    const requestId = requestIdRef.current;
+
+    try {
+      setLoadingMore(true);
+      const data = await fetchPostsUsingResource(resource.id, posts.length, POSTS_PER_PAGE);
+      if (requestId !== requestIdRef.current) return;
+
+      setPosts(prev => [...prev, ...data]);
+      setHasMore(data.length === POSTS_PER_PAGE);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [resource, posts.length]);
+
+  useEffect(() => {
+    if (resourceKey) {
+      loadResourcePosts(resourceKey);
+    } else {
+      loadUsage();
+    }
+  }, [resourceKey, loadUsage]);
+
+  useEffect(() => {
+    // Infinite scroll: load the next page near the bottom
+    const handleScroll = () => {
+      if (window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2000 && hasMore && !loadingMore && !loading) {
+        loadMorePosts();
+      }
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [hasMore, loadingMore, loading, loadMorePosts]);
+
+  const breakpointColumns = {
+    default: 5,
+    1280: 4,
+    1024: 3,
+    768: 2
+  };
+
+  const inputClassName = 'px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500';
+
+  if (resourceKey) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <button
+          onClick={() => onResourceChange(null)}
+          className="mb-4 flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          <ArrowLeft size={16} />
+          All resources
+        </button>
+
+        {resource && (
+          <div className="mb-8">
+            <h1 className="text-2xl font-bold text-gray-900 break-words">{getResourceLabel(resource)}</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              {RESOURCE_TYPE_LABELS[resource.type]}
+              {resource.hash && ` · ${resource.hash}`}
+            </p>
+          </div>
+        )}
+
+        {error ? (
+          <div className="text-center text-red-600 py-16">Error: {error}</div>
+        ) : loading ? (
+          <div className="text-center text-gray-600 py-16">Loading posts...</div>
+        ) : !resource || posts.length === 0 ? (
+          <div className="text-center text-gray-600 py-16">No synced posts from your creators use this resource yet</div>
+        ) : (
+          <>
+            <Masonry
+              breakpointCols={breakpointColumns}
+              className="flex -ml-3 w-auto"
+              columnClassName="pl-3 bg-clip-padding"
+            >
+              {posts.map((post) => (
+                <ResourcePostCard
+                  key={post.post_id}
+                  post={post}
+                  onPostClick={onPostClick}
+                  onCreatorClick={onCreatorClick}
+                />
+              ))}
+            </Masonry>
+            <div className="mt-8 mb-24 text-center text-gray-600">
+              {posts.length} {posts.length === 1 ? 'post' : 'posts'}{hasMore ? ' so far' : ''}
+              {loadingMore && (
+                <div className="mt-4 text-sm text-gray-500">Loading more posts...</div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold text-gray-900">Resources</h1>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-8 flex flex-wrap items-center gap-3">
+        <select value={creator} onChange={(e) => setCreator(e.target.value)} className={inputClassName} title="Creator">
+          <option value="">All creators</option>
+          {creators.map(username => (
+            <option key={username} value={username}>@{username}</option>
+          ))}
+        </select>
+
+        <select value={type} onChange={(e) => setType(e.target.value as ResourceType | '')} className={inputClassName} title="Type">
+          <option value="">All types</option>
+          {(Object.keys(RESOURCE_TYPE_LABELS) as ResourceType[]).map(resourceType => (
+            <option key={resourceType} value={resourceType}>{RESOURCE_TYPE_LABELS[resourceType]}</option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <div className="text-center text-red-600 py-16">Error: {error}</div>
+      ) : loading ? (
+        <div className="text-center text-gray-600 py-16">Loading resources...</div>
+      ) : usage.length === 0 ? (
+        <div className="text-center text-gray-600 py-16">
+          <p className="text-xl">No resources found</p>
+          <p className="text-sm mt-2">Resources are read from image metadata when posts are synced or reconciled</p>
+        </div>
+      ) : (
+        <div className="space-y-2 mb-24">
+          {usage.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => onResourceChange(item.key)}
+              className="w-full grid grid-cols-4 items-center gap-4 py-3 px-4 bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow text-left"
+            >
+              <div className="col-span-3 min-w-0">
+                <div className="text-base font-medium text-gray-900 truncate">{getResourceLabel(item)}</div>
+                <div className="text-xs text-gray-500">
+                  {RESOURCE_TYPE_LABELS[item.type]}
+                  {item.last_used_at && ` · last used ${new Date(item.last_used_at).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric'
+                  })}`}
+                </div>
+              </div>
+              <div className="text-right text-sm text-gray-600">
+                <div>{item.post_count} {item.post_count === 1 ? 'post' : 'posts'}</div>
+                <div className="text-xs text-gray-400">
+                  {item.image_count} {item.image_count === 1 ? 'image' : 'images'}
+                  {!creator && ` · ${item.creator_count} ${item.creator_count === 1 ? 'creator' : 'creators'}`}
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,68 @@
 import { useState, useEffect } from 'react';
 import { supabase, Creator, extractUsernameFromUrl } from '../lib/supabase';
-import { Plus, Users, FileText, Image as ImageIcon, Heart, Star, Pencil, Check, X, Eraser } from 'lucide-react';
+import { Plus, Users, FileText, Image as ImageIcon, Heart, Star, Pencil, Check, X, Eraser, GitCompare, History } from 'lucide-react';
 import { getStoredProfiles, saveProfile, removeProfile, getCurrentProfileEmail, type StoredProfile } from '../lib/profiles';
+import { useRateLimiterState } from '../hooks/useRateLimiterState';
+import { on, emit } from '../lib/events';
+import { SyncHistory } from './SyncHistory';
+import { FollowedSources } from './FollowedSources';
+import { getSourceAdapter } from '../lib/sourceAdapters';
+import { SYNC_FREQUENCIES, SYNC_FREQUENCY_LABELS, type SyncFrequency } from '../lib/syncSchedule';
 
 interface SettingsProps {
   onCreatorClick?: (username: string) => void;
   onViewHidden?: () => void;
   onViewUnclaimed?: () => void;
+  onViewResources?: () => void;
   onNSFWToggle?: () => void;
 }
 
-export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFWToggle }: SettingsProps) => {
+/**
+ * Tooltip for a creator whose last sync failed: the error and when it will be retried
+ */
+function describeCreatorSyncError(creator: Creator): string {
+  if (creator.sync_status === 'parked') {
+    return `Not found on Civitai, skipped by background sync until synced by hand${creator.sync_error ? `\n${creator.sync_error}` : ''}`;
+  }
+  const retry = creator.next_sync_at
+    ? `Retrying after ${new Date(creator.next_sync_at).toLocaleString()}`
+    : 'Not retried automatically';
+  return `${creator.sync_error || 'Sync failed'} (${creator.sync_error_category || 'unknown'})\n${retry}`;
+}
+
+/**
+ * When the background sync will next check a creator, for the creator list
+ */
+function describeNextSync(creator: Creator): string {
+  if (creator.sync_status === 'parked') return 'Not checked until synced by hand';
+  if (creator.sync_frequency === 'manual') return 'Manual sync only';
+  if (!creator.next_sync_at || new Date(creator.next_sync_at).getTime() <= Date.now()) return 'Next check: due now';
+
+  return `Next check: ${new Date(creator.next_sync_at).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })}`;
+}
+
+/**
+ * How much of a creator's history the backfill has archived, for the creator list
+ * The percentage needs Civitai's image total; without it the count walked so far is shown
+ */
+function describeBackfill(creator: Creator): string {
+  if (creator.backfill_completed_at) return 'History archived';
+
+  const walked = creator.backfill_images || 0;
+  if (walked === 0 && !creator.tail_cursor) return 'History not backfilled';
+  if (!creator.backfill_total_images) return `History: ${walked.toLocaleString()} images archived`;
+
+  // Capped below 100 until the backfill actually reaches the oldest post
+  const percent = Math.min(99, Math.floor((walked / creator.backfill_total_images) * 100));
+  return `History ${percent}% archived`;
+}
+
+export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onViewResources, onNSFWToggle }: SettingsProps) => {
   const [creators, setCreators] = useState<Creator[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -22,6 +74,8 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
   const [savingMyUsername, setSavingMyUsername] = useState(false);
   const [tempUsername, setTempUsername] = useState('');
   const [syncingCreator, setSyncingCreator] = useState<string | null>(null);
+  const [reconcilingCreator, setReconcilingCreator] = useState<string | null>(null);
+  const [historyCreator, setHistoryCreator] = useState<string | null>(null);
   const [totalPosts, setTotalPosts] = useState(0);
   const [totalImages, setTotalImages] = useState(0);
   const [favoritesCount, setFavoritesCount] = useState(0);
@@ -30,6 +84,9 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
   const [storedProfiles, setStoredProfiles] = useState<StoredProfile[]>([]);
   const [editingProfile, setEditingProfile] = useState<string | null>(null);
   const [tempNickname, setTempNickname] = useState('');
+  const rateLimit = useRateLimiterState();
+  const rateLimitBackingOff = !!rateLimit && rateLimit.backoffUntil !== null && rateLimit.backoffUntil > Date.now();
+  const rateLimitThrottled = !!rateLimit && rateLimit.refillPerSecond < rateLimit.maxRefillPerSecond;
 
   // console.log(`🔄 Settings rendering with ${creators.length} creators:`, creators.map(c => c.username));
 
@@ -41,29 +98,67 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
     fetchNSFWPreference();
     loadStoredProfiles();
 
-    // Listen for sync completion from App.tsx
-    const handleSyncCompleted = () => {
-      console.log('🔄 Sync completed, refreshing dashboard stats...');
-      fetchDashboardStats();
-      fetchCreators();
-    };
+    // Update a creator's post count in real-time while the worker syncs it
+    const unsubscribeProgress = on('syncProgress', (progress) => {
+      if (progress.status !== 'syncing') return;
+      console.log(`📊 Sync progress for ${progress.creator}: ${progress.totalPosts} posts, ${progress.totalImages} images (page ${progress.currentPage})`);
+      refreshCreatorCounts([progress.creator], { [progress.creator]: progress.totalPosts });
+    });
 
-    // Listen for posts added via browser extension
-    const handlePostsAdded = () => {
-      console.log('📝 Posts added via extension, refreshing dashboard stats...');
+    // Listen for sync completion - only the synced creators' counts are refreshed
+    const unsubscribeSyncCompleted = on('syncCompleted', ({ creators: syncedCreators, totalNewPosts }) => {
+      console.log(`🔄 Sync completed (${totalNewPosts} new posts), refreshing dashboard stats...`);
       fetchDashboardStats();
-      fetchCreators();
-    };
+      refreshCreatorCounts(syncedCreators);
+    });
 
-    window.addEventListener('syncCompleted', handleSyncCompleted);
-    window.addEventListener('postsAdded', handlePostsAdded);
+    // Listen for posts added via browser extension or claimed creators
+    const unsubscribePostsAdded = on('postsAdded', ({ creator }) => {
+      console.log('📝 Posts added, refreshing dashboard stats...');
+      fetchDashboardStats();
+      // The browser extension doesn't say which creator, so refresh them all
+      if (creator) {
+        refreshCreatorCounts([creator]);
+      } else {
+        fetchCreators();
+      }
+    });
 
     return () => {
-      window.removeEventListener('syncCompleted', handleSyncCompleted);
-      window.removeEventListener('postsAdded', handlePostsAdded);
+      unsubscribeProgress();
+      unsubscribeSyncCompleted();
+      unsubscribePostsAdded();
     };
   }, []);
 
+  /**
+   * Re-count displayable posts for some creators without refetching the whole list
+   * @param usernames - Creators to re-count
+   * @param totalPosts - Optional total_posts values reported by the sync
+   */
+  async function refreshCreatorCounts(usernames: string[], totalPosts: Record<string, number> = {}) {
+    try {
+      const counts = await Promise.all(usernames.map(async (username) => {
+        const { count } = await supabase
+          .from('posts')
+          .select('*', { count: 'exact', head: true })
+          .eq('creator_username', username)
+          .not('cover_image_url', 'is', null);
+
+        return [username, count || 0] as const;
+      }));
+      const countMap = new Map(counts);
+
+      setCreators(prev => prev.map(c =>
+        countMap.has(c.username)
+          ? { ...c, actual_post_count: countMap.get(c.username), total_posts: totalPosts[c.username] ?? c.total_posts }
+          : c
+      ));
+    } catch (err) {
+      console.error('Error refreshing creator counts:', err);
+    }
+  }
+
   async function checkSyncStatus() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -72,7 +167,7 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
       // Get all creators' sync status
       const { data: creatorsData } = await supabase
         .from('creators')
-        .select('username, sync_status')
+        .select('username, sync_status, sync_error, sync_error_category, sync_frequency, next_sync_at, parked_at, tail_cursor, backfill_images, backfill_total_images, backfill_completed_at')
         .eq('user_id', user.id);
 
       if (creatorsData && creatorsData.length > 0) {
@@ -80,7 +175,7 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
         setCreators(prevCreators =>
           prevCreators.map(creator => {
             const updated = creatorsData.find(c => c.username === creator.username);
-            return updated ? { ...creator, sync_status: updated.sync_status } : creator;
+            return updated ? { ...creator, ...updated } : creator;
           })
         );
       }
@@ -327,7 +422,7 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
 
       // Trigger background sync for the new creator
       console.log('🔄 Triggering sync for new creator...');
-      window.dispatchEvent(new Event('triggerSync'));
+      emit('triggerSync', { creator: username });
 
       // Reset form
       setNewCreatorUsername('');
@@ -484,7 +579,7 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
     setTempNickname('');
     loadStoredProfiles();
     // Notify Navigation component to refresh profiles
-    window.dispatchEvent(new Event('profilesUpdated'));
+    emit('profilesUpdated', { profiles: getStoredProfiles() });
   }
 
   function handleRemoveProfile(email: string) {
@@ -492,7 +587,7 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
     removeProfile(email);
     loadStoredProfiles();
     // Notify Navigation component to refresh profiles
-    window.dispatchEvent(new Event('profilesUpdated'));
+    emit('profilesUpdated', { profiles: getStoredProfiles() });
   }
 
   async function handleLogout() {
@@ -521,48 +616,38 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
         .eq('username', username)
         .eq('user_id', user.id);
 
-      console.log(`🔄 Starting sync for ${username}. This may take several minutes...`);
-
-      // Start sync in background
-      const { syncCreator } = await import('../lib/sync');
+      console.log(`🔄 Queueing sync for ${username}. This may take several minutes...`);
 
-      // Use progress callback to log updates and update UI
-      syncCreator(username, async (progress) => {
-        console.log(`📊 Sync progress for ${username}: ${progress.totalPosts} posts, ${progress.totalImages} images (page ${progress.currentPage})`);
-
-        // Query for displayable posts count (with cover images)
-        const { count } = await supabase
-          .from('posts')
-          .select('*', { count: 'exact', head: true })
-          .eq('creator_username', username)
-          .not('cover_image_url', 'is', null);
+      // Queue the sync for the worker
+      const { enqueueSyncJob, waitForSyncJobs, summarizeSyncJobs } = await import('../lib/syncJobs');
+      const job = await enqueueSyncJob(username, { kind: 'sync', fullBackfill: true });
 
-        // Update the creator's post count in real-time
-        setCreators(prev => prev.map(c =>
-          c.username === username
-            ? { ...c, actual_post_count: count || 0, total_posts: progress.totalPosts }
-            : c
-        ));
-      }, { fullBackfill: true, userId: user.id }).then(async () => {
-        console.log(`✅ Sync completed for ${username}`);
-        // Refresh stats when done
-        await fetchCreators();
-        await fetchDashboardStats();
-        setSyncingCreator(null);
-      }).catch((err) => {
+      // Poll the job - progress reaches the creator list through syncProgress events
+      waitForSyncJobs([job.id]).then(([finishedJob]) => {
         // If sync was cancelled, don't show error or refresh
-        if (err instanceof Error && err.message === 'SYNC_CANCELLED') {
+        if (finishedJob?.status === 'cancelled') {
           console.log(`🛑 Sync was cancelled for ${username}`);
           return;
         }
-        console.error(`❌ Sync failed for ${username}:`, err);
+        if (finishedJob?.status === 'failed') {
+          console.error(`❌ Sync failed for ${username}:`, finishedJob.error);
+          alert('Sync error: ' + (finishedJob.error || 'Unknown error'));
+          setSyncingCreator(null);
+          return;
+        }
+        console.log(`✅ Sync completed for ${username}`);
+        // Refresh stats and open feeds when done
+        emit('syncCompleted', summarizeSyncJobs([finishedJob]));
+        setSyncingCreator(null);
+      }).catch((err) => {
+        console.error(`❌ Error watching sync for ${username}:`, err);
         alert('Sync error: ' + (err instanceof Error ? err.message : 'Unknown error'));
         setSyncingCreator(null);
       });
 
-      // Don't wait for sync to complete - let it run in background
+      // Don't wait for sync to complete - the worker runs it in background
       // Just show immediate feedback
-      console.log(`⏳ Sync started for ${username} in background. Check console for progress updates.`);
+      console.log(`⏳ Sync job ${job.id} queued for ${username}. Check the worker log for progress updates.`);
 
     } catch (err) {
       alert('Sync error: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -577,14 +662,9 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
 
       console.log(`🛑 Stopping sync for ${username}...`);
 
-      // Reset sync status to completed (will cause running sync to cancel)
-      const { error } = await supabase
-        .from('creators')
-        .update({ sync_status: 'completed' })
-        .eq('username', username)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      // Cancel queued jobs and reset sync status to completed (will cause running sync to cancel)
+      const { cancelSyncJobs } = await import('../lib/syncJobs');
+      await cancelSyncJobs(username);
 
       console.log(`✅ Sync stopped for ${username}`);
 
@@ -681,6 +761,59 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
     }
   }
 
+  async function handleSyncFrequencyChange(username: string, frequency: SyncFrequency) {
+    try {
+      const { setCreatorSyncFrequency } = await import('../lib/sync');
+      const nextSyncAt = await setCreatorSyncFrequency(username, frequency);
+      setCreators(prev => prev.map(c =>
+        c.username === username ? { ...c, sync_frequency: frequency, next_sync_at: nextSyncAt } : c
+      ));
+    } catch (err) {
+      console.error('Error changing sync frequency:', err);
+      alert('Error changing sync frequency: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  async function handleReconcileCreator(username: string) {
+    try {
+      setReconcilingCreator(username);
+      console.log(`🔍 Queueing reconciliation for ${username}...`);
+
+      // The worker walks the creator's posts on Civitai and flags anything deleted there
+      const { enqueueSyncJob, waitForSyncJobs, summarizeSyncJobs } = await import('../lib/syncJobs');
+      const job = await enqueueSyncJob(username, { kind: 'reconcile' });
+      const [finishedJob] = await waitForSyncJobs([job.id]);
+
+      if (finishedJob?.status === 'cancelled') {
+        console.log(`🛑 Reconciliation was cancelled for ${username}`);
+        return;
+      }
+      if (finishedJob?.status === 'failed') {
+        throw new Error(finishedJob.error || 'Reconciliation failed');
+      }
+
+      emit('syncCompleted', summarizeSyncJobs([finishedJob]));
+
+      const summary = finishedJob?.reconcile_summary;
+      if (!summary) {
+        alert(`${username} was already up to date`);
+        return;
+      }
+
+      alert(
+        `Reconciled ${summary.postsChecked} post(s) for ${username}:\n\n` +
+        `Removed on Civitai: ${summary.postsRemoved.length} post(s), ${summary.imagesRemoved} image(s)\n` +
+        `Back on Civitai: ${summary.postsRestored.length} post(s), ${summary.imagesRestored} image(s)\n` +
+        `Updated: ${summary.postsUpdated.length} post(s), ${summary.imagesAdded} image(s) added`
+      );
+    } catch (err) {
+      console.error('Error reconciling posts:', err);
+      alert('Reconcile error: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setReconcilingCreator(null);
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -747,7 +880,20 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
 
       {/* Creators List */}
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-2xl font-bold text-gray-900">Creators</h2>
+        <div className="flex items-center gap-3">
+          <h2 className="text-2xl font-bold text-gray-900">Creators</h2>
+          {/* Sync worker's Civitai rate limiter status */}
+          {rateLimit && (rateLimitBackingOff || rateLimitThrottled) && (
+            <span
+              className="text-xs font-medium px-3 py-1 rounded-full bg-red-600 text-white"
+              title={`${rateLimit.queued} request(s) waiting, ${rateLimit.consecutiveFailures} failure(s) in a row`}
+            >
+              {rateLimitBackingOff
+                ? `Civitai ${rateLimit.lastStatus} - syncs paused until ${new Date(rateLimit.backoffUntil!).toLocaleTimeString()}`
+                : `Syncs throttled to ${Math.round(rateLimit.refillPerSecond * 60)}/min`}
+            </span>
+          )}
+        </div>
         <button
           onClick={() => setShowAddCreator(!showAddCreator)}
           className="w-10 h-10 p-2 bg-black text-white rounded-lg hover:bg-gray-800 transition-colors flex items-center justify-center"
@@ -812,119 +958,173 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
         <>
           <div className="space-y-2">
             {creators.map((creator) => (
-              <div key={creator.id} className="grid grid-cols-3 sm:grid-cols-4 items-center gap-4 py-3 px-4 bg-white rounded-lg shadow-sm">
-                <div className="flex items-center gap-2 min-w-0">
-                  <button
-                    onClick={() => onCreatorClick?.(creator.username)}
-                    className="text-base font-medium text-gray-900 hover:text-red-600 transition-colors text-left truncate"
-                  >
-                    @{creator.username}
-                  </button>
-                  {creator.username === myUsername && (
-                    <Star className="w-4 h-4 text-red-600 fill-red-600 flex-shrink-0" strokeWidth={0} />
-                  )}
-                </div>
-                <div className="flex justify-start">
-                  <div className="bg-gray-900 text-white px-4 py-2 rounded-full flex items-center">
-                    <span className="text-sm font-semibold tracking-tight leading-none">
-                      {creator.actual_post_count || 0}
-                    </span>
+              <div key={creator.id} className="bg-white rounded-lg shadow-sm">
+                <div className="grid grid-cols-3 sm:grid-cols-4 items-center gap-4 py-3 px-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <button
+                        onClick={() => onCreatorClick?.(creator.username)}
+                        className="text-base font-medium text-gray-900 hover:text-red-600 transition-colors text-left truncate"
+                      >
+                        @{creator.username}
+                      </button>
+                      {creator.username === myUsername && (
+                        <Star className="w-4 h-4 text-red-600 fill-red-600 flex-shrink-0" strokeWidth={0} />
+                      )}
+                      {(creator.sync_status === 'error' || creator.sync_status === 'parked') && (
+                        <span
+                          className="px-2 py-0.5 text-xs font-medium text-red-700 bg-red-50 rounded-full flex-shrink-0"
+                          title={describeCreatorSyncError(creator)}
+                        >
+                          {creator.sync_status === 'parked' ? 'Parked' : 'Sync error'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {describeNextSync(creator)} · {describeBackfill(creator)}
+                    </div>
                   </div>
-                </div>
-                <span className="hidden sm:block text-sm text-gray-500">
-                  {new Date(creator.added_at).toLocaleDateString('en-US', {
-                    month: 'short',
-                    day: 'numeric',
-                    year: 'numeric'
-                  })}
-                </span>
-                <div className="flex items-center gap-2 justify-end">
-                  {/* Sync button - click to sync or reset if stuck */}
-                  <button
-                    onClick={() => {
-                      if (creator.sync_status === 'syncing' || syncingCreator === creator.username) {
-                        handleResetSync(creator.username);
-                      } else {
-                        handleSyncCreator(creator.username);
-                      }
-                    }}
-                    className="p-1 hover:bg-gray-100 rounded transition-colors"
-                    title={creator.sync_status === 'syncing' ? 'Click to stop sync' : 'Sync creator'}
-                  >
-                    <svg
-                      className={`w-5 h-5 ${(syncingCreator === creator.username || creator.sync_status === 'syncing') ? 'animate-spin text-gray-400' : ''}`}
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      viewBox="0 0 24 24"
+                  <div className="flex justify-start">
+                    <div className="bg-gray-900 text-white px-4 py-2 rounded-full flex items-center">
+                      <span className="text-sm font-semibold tracking-tight leading-none">
+                        {creator.actual_post_count || 0}
+                      </span>
+                    </div>
+                  </div>
+                  <span className="hidden sm:block text-sm text-gray-500">
+                    {new Date(creator.added_at).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric'
+                    })}
+                  </span>
+                  <div className="flex items-center gap-2 justify-end">
+                    {/* Sync frequency - how often the background sync checks this creator */}
+                    <select
+                      value={creator.sync_frequency || 'daily'}
+                      onChange={(e) => handleSyncFrequencyChange(creator.username, e.target.value as SyncFrequency)}
+                      className="text-sm text-gray-700 bg-white border border-gray-300 rounded px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-red-500"
+                      title="How often to check for new posts"
                     >
-                      <path d="M20,4v5h-.6M4.1,11c.6-4.4,4.6-7.5,8.9-6.9,2.9.4,5.3,2.3,6.4,4.9M19.4,9h-4.4M4,20v-5h.6M4.6,15c1.7,4.1,6.3,6.1,10.4,4.4,2.7-1.1,4.6-3.5,4.9-6.4M4.6,15h4.4"/>
-                    </svg>
-                  </button>
-
-                  {/* Cleanup button - delete posts with no cover image */}
-                  <button
-                    onClick={() => handleCleanupPosts(creator.username)}
-                    className="p-1 hover:bg-gray-100 rounded transition-colors"
-                    title="Clean up posts with no cover image"
-                  >
-                    <Eraser className="w-5 h-5" />
-                  </button>
-
-                  {/* Visit on Civitai button */}
-                  <a
-                    href={`https://civitai.com/user/${creator.username}/posts`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="p-1 hover:bg-gray-100 rounded transition-colors"
-                    onClick={(e) => e.stopPropagation()}
-                    title="View on Civitai"
-                  >
-                    <svg
-                      className="w-5 h-5"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      viewBox="0 0 24 24"
+                      {SYNC_FREQUENCIES.map(frequency => (
+                        <option key={frequency} value={frequency}>{SYNC_FREQUENCY_LABELS[frequency]}</option>
+                      ))}
+                    </select>
+
+                    {/* Sync button - click to sync or reset if stuck */}
+                    <button
+                      onClick={() => {
+                        if (creator.sync_status === 'syncing' || syncingCreator === creator.username) {
+                          handleResetSync(creator.username);
+                        } else {
+                          handleSyncCreator(creator.username);
+                        }
+                      }}
+                      className="p-1 hover:bg-gray-100 rounded transition-colors"
+                      title={creator.sync_status === 'syncing' ? 'Click to stop sync' : 'Sync new posts and continue the history backfill'}
                     >
-                      <path
+                      <svg
+                        className={`w-5 h-5 ${(syncingCreator === creator.username || creator.sync_status === 'syncing') ? 'animate-spin text-gray-400' : ''}`}
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
                         strokeLinecap="round"
                         strokeLinejoin="round"
-                        d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-                      />
-                    </svg>
-                  </a>
-
-                  {/* Remove button */}
-                  <button
-                    onClick={() => handleRemoveCreator(creator.id, creator.username)}
-                    disabled={syncingCreator === creator.username}
-                    className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    title="Remove creator"
-                  >
-                    <svg
-                      className="w-5 h-5"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      viewBox="0 0 24 24"
+                        viewBox="0 0 24 24"
+                      >
+                        <path d="M20,4v5h-.6M4.1,11c.6-4.4,4.6-7.5,8.9-6.9,2.9.4,5.3,2.3,6.4,4.9M19.4,9h-4.4M4,20v-5h.6M4.6,15c1.7,4.1,6.3,6.1,10.4,4.4,2.7-1.1,4.6-3.5,4.9-6.4M4.6,15h4.4"/>
+                      </svg>
+                    </button>
+
+                    {/* History button - show what recent syncs did */}
+                    <button
+                      onClick={() => setHistoryCreator(historyCreator === creator.username ? null : creator.username)}
+                      className={`p-1 hover:bg-gray-100 rounded transition-colors ${historyCreator === creator.username ? 'text-red-600' : ''}`}
+                      title="Sync history"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                      />
-                    </svg>
-                  </button>
+                      <History className="w-5 h-5" />
+                    </button>
+
+                    {/* Reconcile button - flag posts and images deleted on Civitai */}
+                    <button
+                      onClick={() => handleReconcileCreator(creator.username)}
+                      disabled={reconcilingCreator === creator.username}
+                      className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                      title="Check for posts and images deleted on Civitai"
+                    >
+                      <GitCompare className={`w-5 h-5 ${reconcilingCreator === creator.username ? 'animate-pulse text-gray-400' : ''}`} />
+                    </button>
+
+                    {/* Cleanup button - delete posts with no cover image */}
+                    <button
+                      onClick={() => handleCleanupPosts(creator.username)}
+                      className="p-1 hover:bg-gray-100 rounded transition-colors"
+                      title="Clean up posts with no cover image"
+                    >
+                      <Eraser className="w-5 h-5" />
+                    </button>
+
+                    {/* Visit on Civitai button */}
+                    <a
+                      href={getSourceAdapter().getProfileUrl(creator.username)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="p-1 hover:bg-gray-100 rounded transition-colors"
+                      onClick={(e) => e.stopPropagation()}
+                      title="View on Civitai"
+                    >
+                      <svg
+                        className="w-5 h-5"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                        />
+                      </svg>
+                    </a>
+
+                    {/* Remove button */}
+                    <button
+                      onClick={() => handleRemoveCreator(creator.id, creator.username)}
+                      disabled={syncingCreator === creator.username}
+                      className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Remove creator"
+                    >
+                      <svg
+                        className="w-5 h-5"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                        />
+                      </svg>
+                    </button>
+                  </div>
                 </div>
+                {historyCreator === creator.username && (
+                  <div className="border-t border-gray-100">
+                    <SyncHistory username={creator.username} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
         </>
       )}
 
+      {/* Followed models, model versions and collections */}
+      <FollowedSources />
+
       {/* Content Preferences */}
       <div className="flex items-center justify-between mb-4 mt-8">
         <h2 className="text-2xl font-bold text-gray-900">Content Preferences</h2>
@@ -965,6 +1165,20 @@ export const Settings = ({ onCreatorClick, onViewHidden, onViewUnclaimed, onNSFW
           </div>
         </div>
 
+        <div className="grid grid-cols-4 items-center gap-4 py-3 px-4 bg-white rounded-lg shadow-sm">
+          <div className="col-span-3">
+            <span className="text-base font-medium text-gray-900">View Resources</span>
+          </div>
+          <div className="flex items-center justify-end">
+            <button
+              onClick={onViewResources}
+              className="w-[58px] h-[26px] bg-gray-900 text-white text-sm rounded hover:bg-gray-800 transition-colors"
+            >
+              View
+            </button>
+          </div>
+        </div>
+
         <div className="grid grid-cols-4 items-center gap-4 py-3 px-4 bg-white rounded-lg shadow-sm">
           <div className="col-span-3">
             <span className="text-base font-medium text-gray-900">View Scraped Posts</span>
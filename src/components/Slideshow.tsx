@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
-import { CivitaiImage } from '../lib/civitai';
+import { CivitaiImage, getGenerationParams } from '../lib/civitai';
+import { getSourceAdapter } from '../lib/sourceAdapters';
 import { Play, Square, Settings, Plus, Minus } from 'lucide-react';
 import { supabase, ensureHttps } from '../lib/supabase';
 import { useSwipeable } from 'react-swipeable';
@@ -374,6 +375,8 @@ export const Slideshow = ({ images, startIndex, onClose, onNavigateNext, onNavig
     return null;
   }
 
+  const generation = getGenerationParams(currentImage);
+
   // Check if the current item is a video
   const isVideo = (url: string) => url.toLowerCase().endsWith('.mp4') || url.toLowerCase().includes('.mp4?');
   const isCurrentVideo = isVideo(displayImage.url);
@@ -675,7 +678,7 @@ export const Slideshow = ({ images, startIndex, onClose, onNavigateNext, onNavig
       }`}>
         {/* Civitai link */}
         <a
-          href={`https://civitai.com/images/${currentImage.id}`}
+          href={getSourceAdapter().getImageUrl(currentImage.id)}
           target="_blank"
           rel="noopener noreferrer"
           className="w-12 h-12 flex items-center justify-center bg-black bg-opacity-50 hover:bg-opacity-70 rounded-full transition-colors"
@@ -731,7 +734,7 @@ export const Slideshow = ({ images, startIndex, onClose, onNavigateNext, onNavig
           onClick={() => setShowInfo(false)}
           className="absolute inset-0 bg-black bg-opacity-70 backdrop-blur-sm z-20 flex items-center justify-center"
         >
-          <div className="text-white rounded-lg p-8 max-w-2xl w-full mx-8">
+          <div className="text-white rounded-lg p-8 max-w-2xl w-full mx-8 max-h-full overflow-y-auto">
             <h2 className="text-2xl font-semibold mb-6">Image Information</h2>
 
             <div className="space-y-4">
@@ -782,6 +785,35 @@ export const Slideshow = ({ images, startIndex, onClose, onNavigateNext, onNavig
                 </div>
               )}
 
+              {/* Generation settings */}
+              {[
+                ['Model', generation.model],
+                ['Base Model', generation.baseModel],
+                ['Sampler', generation.sampler],
+                ['Steps', generation.steps],
+                ['CFG Scale', generation.cfgScale],
+                ['Seed', generation.seed]
+              ].filter(([, value]) => value !== null).map(([label, value]) => (
+                <div key={label} className="flex justify-between items-center border-b border-gray-700 pb-3">
+                  <span className="text-gray-400">{label}</span>
+                  <span className="font-medium text-right break-all max-w-md">{value}</span>
+                </div>
+              ))}
+
+              {/* Prompts */}
+              {generation.prompt && (
+                <div className="border-b border-gray-700 pb-3">
+                  <span className="text-gray-400">Prompt</span>
+                  <p className="mt-1 text-sm whitespace-pre-wrap break-words max-h-40 overflow-y-auto">{generation.prompt}</p>
+                </div>
+              )}
+              {generation.negativePrompt && (
+                <div className="border-b border-gray-700 pb-3">
+                  <span className="text-gray-400">Negative Prompt</span>
+                  <p className="mt-1 text-sm whitespace-pre-wrap break-words max-h-24 overflow-y-auto">{generation.negativePrompt}</p>
+                </div>
+              )}
+
               {/* NSFW */}
               <div className="flex justify-between items-center border-b border-gray-700 pb-3">
                 <span className="text-gray-400">NSFW</span>
@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { FEED_SORTS, FEED_SORT_LABELS, type FeedSort } from '../lib/reactions';
+import {
+  createSmartFeed,
+  updateSmartFeed,
+  deleteSmartFeed,
+  type SmartFeed,
+  type SmartFeedDefinition
+} from '../lib/smartFeeds';
+import { FeedFilterFields, filterInputClassName } from './FeedFilterFields';
+
+interface SmartFeedEditorProps {
+  // Feed being edited, null for a new one
+  feed: SmartFeed | null;
+  // Tab position of a new feed
+  position: number;
+  onSaved: (feed: SmartFeed) => void;
+  onDeleted: (id: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for defining a smart feed: a name, the creators it's limited to, filters and the sort it opens with
+ */
+export const SmartFeedEditor = ({ feed, position, onSaved, onDeleted, onClose }: SmartFeedEditorProps) => {
+  const [definition, setDefinition] = useState<SmartFeedDefinition>({
+    name: feed?.name ?? '',
+    creators: feed?.creators ?? [],
+    filters: feed?.filters ?? {},
+    sort: feed?.sort ?? 'newest'
+  });
+  const [followedCreators, setFollowedCreators] = useState<string[]>([]);
+  const [newCreator, setNewCreator] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadFollowedCreators();
+  }, []);
+
+  async function loadFollowedCreators() {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('creators')
+        .select('username')
+        .eq('user_id', user.id)
+        .order('username', { ascending: true });
+
+      if (error) throw error;
+      setFollowedCreators((data || []).map(c => c.username));
+    } catch (err) {
+      console.error('Error loading creators:', err);
+    }
+  }
+
+  const update = (changes: Partial<SmartFeedDefinition>) => {
+    setDefinition(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleCreator = (username: string) => {
+    update({
+      creators: definition.creators.includes(username)
+        ? definition.creators.filter(creator => creator !== username)
+        : [...definition.creators, username]
+    });
+  };
+
+  const addCreator = () => {
+    const username = newCreator.trim().replace(/^@/, '');
+    if (username && !definition.creators.includes(username)) {
+      update({ creators: [...definition.creators, username] });
+    }
+    setNewCreator('');
+  };
+
+  // Followed creators, then any picked ones that aren't followed
+  const creatorChoices = [...followedCreators, ...definition.creators.filter(creator => !followedCreators.includes(creator))];
+
+  async function handleSave() {
+    try {
+      setSaving(true);
+      const saved = feed ? await updateSmartFeed(feed.id, definition) : await createSmartFeed(definition, position);
+      console.log(`💾 Saved smart feed "${saved.name}"`);
+      onSaved(saved);
+    } catch (err) {
+      alert('Failed to save feed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!feed || !window.confirm(`Delete the feed "${feed.name}"?`)) return;
+
+    try {
+      await deleteSmartFeed(feed.id);
+      console.log(`🗑️  Deleted smart feed "${feed.name}"`);
+      onDeleted(feed.id);
+    } catch (err) {
+      alert('Failed to delete feed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-start justify-center overflow-y-auto p-4" onClick={onClose}>
+      <form
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+        className="w-full max-w-3xl mt-16 bg-white rounded-lg shadow-lg p-6 space-y-5"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-900">{feed ? 'Edit feed' : 'New feed'}</h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-900" title="Close">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={definition.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Name, e.g. Portraits or Recent videos"
+          className={`${filterInputClassName} w-full`}
+          autoFocus
+        />
+
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600">
+            Creators {definition.creators.length === 0 && <span className="text-gray-400">(none picked: everything in your Feed)</span>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {creatorChoices.map(username => (
+              <button
+                key={username}
+                type="button"
+                onClick={() => toggleCreator(username)}
+                className={`px-3 py-1 rounded-full border text-sm transition-colors ${
+                  definition.creators.includes(username)
+                    ? 'bg-red-600 border-red-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                @{username}
+              </button>
+            ))}
+            <input
+              type="text"
+              value={newCreator}
+              onChange={(e) => setNewCreator(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addCreator();
+                }
+              }}
+              onBlur={addCreator}
+              placeholder="Other username"
+              className={`${filterInputClassName} w-40 py-1`}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600">Filters</div>
+          <FeedFilterFields filters={definition.filters} onChange={(filters) => update({ filters })} />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Sort
+          <select
+            value={definition.sort}
+            onChange={(e) => update({ sort: e.target.value as FeedSort })}
+            className={filterInputClassName}
+          >
+            {FEED_SORTS.map(feedSort => (
+              <option key={feedSort} value={feedSort}>{FEED_SORT_LABELS[feedSort]}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center gap-2 pt-4 border-t border-gray-100">
+          {feed && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              Delete feed
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="ml-auto px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!definition.name.trim() || saving}
+            className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save feed'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
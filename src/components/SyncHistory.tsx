@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchSyncRuns, type SyncRun, type SyncStopReason } from '../lib/syncRuns';
+import { on } from '../lib/events';
+
+interface SyncHistoryProps {
+  username: string;
+}
+
+const STOP_REASON_LABELS: Record<SyncStopReason, string> = {
+  caught_up: 'Caught up',
+  end_of_feed: 'End of feed',
+  max_requests: 'Max requests',
+  completed: 'Completed',
+  new_posts_found: 'New posts found',
+  cancelled: 'Cancelled',
+  rate_limited: 'Rate limited (429)',
+  error: 'Error'
+};
+
+const KIND_LABELS: Record<SyncRun['kind'], string> = {
+  sync: 'Sync',
+  check: 'Check',
+  incomplete: 'Incomplete posts',
+  reconcile: 'Reconcile'
+};
+
+function formatDuration(run: SyncRun): string {
+  if (!run.finished_at) return 'running';
+  const seconds = Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export const SyncHistory = ({ username }: SyncHistoryProps) => {
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setError(null);
+      setRuns(await fetchSyncRuns(username));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [username]);
+
+  useEffect(() => {
+    loadRuns();
+
+    // Pick up new runs when a sync of this creator finishes
+    return on('syncCompleted', ({ creators }) => {
+      if (creators.includes(username)) loadRuns();
+    });
+  }, [username, loadRuns]);
+
+  if (loading) {
+    return <div className="px-4 py-3 text-sm text-gray-500">Loading sync history...</div>;
+  }
+
+  if (error) {
+    return <div className="px-4 py-3 text-sm text-red-600">Error: {error}</div>;
+  }
+
+  if (runs.length === 0) {
+    return <div className="px-4 py-3 text-sm text-gray-500">No syncs recorded for @{username} yet</div>;
+  }
+
+  return (
+    <div className="px-4 py-3 overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-xs text-gray-500 uppercase">
+          <tr>
+            <th className="py-1 pr-4 font-medium">Started</th>
+            <th className="py-1 pr-4 font-medium">Kind</th>
+            <th className="py-1 pr-4 font-medium">Duration</th>
+            <th className="py-1 pr-4 font-medium">Requests</th>
+            <th className="py-1 pr-4 font-medium">Pages</th>
+            <th className="py-1 pr-4 font-medium">New posts</th>
+            <th className="py-1 pr-4 font-medium">New images</th>
+            <th className="py-1 pr-4 font-medium">Stopped</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-900">
+          {runs.map((run) => (
+            <tr key={run.id} className="border-t border-gray-100 align-top">
+              <td className="py-1 pr-4 whitespace-nowrap">
+                {new Date(run.started_at).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+              </td>
+              <td className="py-1 pr-4">{KIND_LABELS[run.kind]}</td>
+              <td className="py-1 pr-4">{formatDuration(run)}</td>
+              <td className="py-1 pr-4">{run.requests}</td>
+              <td className="py-1 pr-4">{run.pages}</td>
+              <td className="py-1 pr-4">{run.new_posts}</td>
+              <td className="py-1 pr-4">{run.new_images}</td>
+              <td className="py-1 pr-4">
+                <span className={run.stop_reason === 'error' || run.stop_reason === 'rate_limited' ? 'text-red-600' : ''}>
+                  {run.stop_reason ? STOP_REASON_LABELS[run.stop_reason] : '—'}
+                </span>
+                {run.errors.length > 0 && (
+                  <ul className="mt-1 text-xs text-red-600 space-y-0.5">
+                    {run.errors.map((message, index) => (
+                      <li key={index} className="break-all">{message}</li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { supabase, ensureHttps } from '../lib/supabase';
+import { emit } from '../lib/events';
 import Masonry from 'react-masonry-css';
+import { getSourceAdapter } from '../lib/sourceAdapters';
 
 interface Post {
   post_id: number;
@@ -137,7 +139,7 @@ const PostCard = ({ post, onPostClick, onCreatorClick, onToggleFavorite, onAddTo
 
             {/* Link out */}
             <a
-              href={`https://civitai.com/posts/${post.post_id}`}
+              href={getSourceAdapter().getPostUrl(post.post_id)}
               target="_blank"
               rel="noopener noreferrer"
               className="p-1 hover:bg-gray-100 rounded transition-colors"
@@ -269,7 +271,7 @@ export function UnclaimedPosts({ onPostClick, onCreatorClick }: UnclaimedPostsPr
       setPosts(posts.filter(p => p.creator_username !== creatorUsername));
 
       // Dispatch event to refresh Settings page
-      window.dispatchEvent(new Event('postsAdded'));
+      emit('postsAdded', { creator: creatorUsername });
 
       alert(`Added ${creatorUsername} to your creators`);
     } catch (err) {
@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import type { RateLimiterState } from '../lib/civitai';
+import { fetchWorkerRateLimiterState } from '../lib/syncJobs';
+
+// Workers publish their state every few seconds while it changes
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Civitai rate limiter state of the sync workers, polled while mounted
+ * Syncs run in the worker, so its limiter (not the tab's) is the one Civitai throttles
+ * @returns null while loading or when no worker is running
+ */
+export const useRateLimiterState = (): RateLimiterState | null => {
+  const [state, setState] = useState<RateLimiterState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const workerState = await fetchWorkerRateLimiterState();
+        if (!cancelled) setState(workerState);
+      } catch (err) {
+        console.error('Error fetching sync worker rate limit:', err);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return state;
+};
@@ -1,6 +1,75 @@
 // Civitai API client
-const CIVITAI_API_BASE = 'https://civitai.com/api/v1';
+import {
+  createCivitaiError,
+  parseImagesResponse,
+  parseModel,
+  parseModelVersion,
+  parseCreatorsResponse
+} from './civitaiSchema';
 
+// Build-time default; the worker can point it elsewhere at runtime with setCivitaiApiBase()
+let civitaiApiBase: string = import.meta.env.VITE_CIVITAI_API_BASE || 'https://civitai.com/api/v1';
+
+/**
+ * Generation settings Civitai reports for an image
+ * Keys follow the A1111 infotext (hence "Model" and "Clip skip"), numbers sometimes arrive as strings
+ */
+export interface CivitaiImageMeta {
+  prompt?: string;
+  negativePrompt?: string;
+  seed?: number | string;
+  steps?: number | string;
+  sampler?: string;
+  cfgScale?: number | string;
+  Model?: string;
+  'Clip skip'?: number | string;
+  Size?: string;
+  resources?: CivitaiMetaResource[];
+  civitaiResources?: CivitaiMetaResource[];
+  hashes?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * A resource as listed in meta.resources (A1111 style) or meta.civitaiResources (Civitai generator)
+ */
+export interface CivitaiMetaResource {
+  name?: string;
+  type?: string;
+  weight?: number;
+  hash?: string;
+  modelVersionId?: number;
+  modelVersionName?: string;
+}
+
+export type ResourceType = 'checkpoint' | 'lora' | 'embedding' | 'other';
+
+/**
+ * A model used to generate an image, identified by key:
+ * version:<modelVersionId>, hash:<hash> or name:<type>:<name>, from most to least reliable
+ */
+export interface ImageResource {
+  key: string;
+  type: ResourceType;
+  name: string | null;
+  hash: string | null;
+  modelVersionId: number | null;
+  weight: number | null;
+}
+
+export interface CivitaiImageStats {
+  likeCount: number;
+  heartCount: number;
+  laughCount: number;
+  cryCount: number;
+  dislikeCount?: number;
+  commentCount: number;
+}
+
+/**
+ * An image as returned by the API, after validation (see civitaiSchema.ts)
+ * url is an absolute https URL; width and height are 0 when Civitai doesn't know them
+ */
 export interface CivitaiImage {
   id: number;
   url: string;
@@ -11,6 +80,25 @@ export interface CivitaiImage {
   postId: number;
   username?: string;
   createdAt?: string;
+  meta?: CivitaiImageMeta | null;
+  stats?: CivitaiImageStats | null;
+  baseModel?: string | null;
+  // Fields the app doesn't read yet, saved to images.raw
+  raw?: Record<string, unknown> | null;
+}
+
+/**
+ * Generation settings picked out of an image's meta, with numbers parsed
+ */
+export interface GenerationParams {
+  prompt: string | null;
+  negativePrompt: string | null;
+  seed: number | null;
+  steps: number | null;
+  sampler: string | null;
+  cfgScale: number | null;
+  model: string | null;
+  baseModel: string | null;
 }
 
 export interface CivitaiPost {
@@ -21,13 +109,37 @@ export interface CivitaiPost {
   images: CivitaiImage[];
 }
 
+/**
+ * Images API filters other than username, for following a model, model version or collection
+ */
+export interface CivitaiImageFilter {
+  modelId?: number;
+  modelVersionId?: number;
+  collectionId?: number;
+}
+
+export interface CivitaiModel {
+  id: number;
+  name: string;
+  type: string;
+}
+
+export interface CivitaiModelVersion {
+  id: number;
+  modelId: number;
+  name: string;
+  baseModel?: string;
+  model?: { name: string; type: string };
+}
+
 export interface CivitaiImagesResponse {
   items: CivitaiImage[];
   metadata: {
-    totalItems: number;
-    currentPage: number;
-    pageSize: number;
-    totalPages: number;
+    totalItems?: number;
+    currentPage?: number;
+    pageSize?: number;
+    totalPages?: number;
+    nextCursor?: string;
     nextPage?: string;
     prevPage?: string;
   };
@@ -39,17 +151,287 @@ export interface CivitaiCreator {
   link?: string;
 }
 
+export interface RateLimiterState {
+  tokens: number;
+  capacity: number;
+  refillPerSecond: number;
+  maxRefillPerSecond: number;
+  backoffUntil: number | null;
+  consecutiveFailures: number;
+  queued: number;
+  lastStatus: number | null;
+}
+
+/**
+ * Rate limiter every Civitai request goes through
+ * Implement this to plug in a different strategy with setRateLimiter()
+ */
+export interface RateLimiter {
+  /** Resolve when a request may be sent, reject with the signal's reason if it aborts while waiting */
+  acquire(signal?: AbortSignal): Promise<void>;
+  /** Report a successful response */
+  reportSuccess(status: number): void;
+  /** Report a 429 or 5xx response, with the Retry-After delay if the server sent one */
+  reportFailure(status: number, retryAfterMs: number | null): void;
+  getState(): RateLimiterState;
+  /** Listen for state changes, returns an unsubscribe function */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Sleep utility for rate limiting
+ * Rejects with the signal's reason as soon as it aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create a token bucket limiter with adaptive backoff
+ * The refill rate halves on every 429/5xx and recovers step by step on success;
+ * a failure also pauses all requests for Retry-After (or an exponential delay)
+ * @param capacity - Maximum burst of requests (default: 5)
+ * @param refillPerSecond - Tokens added per second at full speed (default: one every 3 seconds)
+ * @param maxBackoffMs - Upper bound for the exponential pause (default: 5 minutes)
+ */
+export function createTokenBucketLimiter(
+  capacity: number = 5,
+  refillPerSecond: number = 1 / 3,
+  maxBackoffMs: number = 300000
+): RateLimiter {
+  const minRefillPerSecond = refillPerSecond / 16;
+  const listeners = new Set<() => void>();
+  let lastRefill = Date.now();
+  let state: RateLimiterState = {
+    tokens: capacity,
+    capacity,
+    refillPerSecond,
+    maxRefillPerSecond: refillPerSecond,
+    backoffUntil: null,
+    consecutiveFailures: 0,
+    queued: 0,
+    lastStatus: null
+  };
+
+  // Replace the state object on every change so it can be used as a React snapshot
+  function update(changes: Partial<RateLimiterState>) {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener());
+  }
+
+  function refill() {
+    const now = Date.now();
+    const tokens = Math.min(capacity, state.tokens + ((now - lastRefill) / 1000) * state.refillPerSecond);
+    lastRefill = now;
+    state = { ...state, tokens };
+  }
+
+  return {
+    async acquire(signal) {
+      signal?.throwIfAborted();
+      update({ queued: state.queued + 1 });
+      try {
+        while (true) {
+          const now = Date.now();
+          if (state.backoffUntil && state.backoffUntil > now) {
+            await sleep(state.backoffUntil - now, signal);
+            continue;
+          }
+
+          refill();
+          if (state.tokens >= 1) {
+            update({ tokens: state.tokens - 1, backoffUntil: null });
+            return;
+          }
+
+          await sleep(((1 - state.tokens) / state.refillPerSecond) * 1000, signal);
+        }
+      } finally {
+        update({ queued: state.queued - 1 });
+      }
+    },
+
+    reportSuccess(status) {
+      // Additive recovery towards the configured rate
+      update({
+        lastStatus: status,
+        consecutiveFailures: 0,
+        refillPerSecond: Math.min(state.maxRefillPerSecond, state.refillPerSecond + state.maxRefillPerSecond / 8)
+      });
+    },
+
+    reportFailure(status, retryAfterMs) {
+      const consecutiveFailures = state.consecutiveFailures + 1;
+      const backoffMs = retryAfterMs ?? Math.min(maxBackoffMs, Math.pow(2, consecutiveFailures) * 5000); // 10s, 20s, 40s...
+      console.warn(`⏳ Civitai returned ${status}. Pausing all requests for ${Math.round(backoffMs / 1000)}s...`);
+      update({
+        lastStatus: status,
+        consecutiveFailures,
+        backoffUntil: Date.now() + backoffMs,
+        refillPerSecond: Math.max(minRefillPerSecond, state.refillPerSecond / 2)
+      });
+    },
+
+    getState() {
+      return state;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+let rateLimiter: RateLimiter = createTokenBucketLimiter();
+
+/**
+ * Replace the limiter shared by all Civitai requests
+ */
+export function setRateLimiter(limiter: RateLimiter): void {
+  rateLimiter = limiter;
+}
+
+/**
+ * Send every Civitai request to another API base, e.g. the offline mock (worker/mockCivitai.ts)
+ * @param base - URL up to and including /api/v1, without a trailing slash
+ */
+export function setCivitaiApiBase(base: string): void {
+  civitaiApiBase = base.replace(/\/+$/, '');
+}
+
+/**
+ * Get the shared limiter (for the sync worker to publish its state)
+ */
+export function getRateLimiter(): RateLimiter {
+  return rateLimiter;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Fetch a Civitai URL through the shared rate limiter
+ * 429 and 5xx responses are retried after the limiter's backoff; the last response is returned
+ * @param url - Full request URL
+ * @param maxRetries - Retries after a 429/5xx (default: 3)
+ * @param signal - Aborts the wait for the limiter and the request itself
+ */
+export async function civitaiFetch(url: string, maxRetries: number = 3, signal?: AbortSignal): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await rateLimiter.acquire(signal);
+    const response = await fetch(url, { signal });
+
+    if (response.status !== 429 && response.status < 500) {
+      rateLimiter.reportSuccess(response.status);
+      return response;
+    }
+
+    rateLimiter.reportFailure(response.status, parseRetryAfter(response.headers.get('Retry-After')));
+
+    if (attempt >= maxRetries) {
+      return response;
+    }
+
+    console.warn(`🔁 Retrying ${url} (${attempt + 1}/${maxRetries})`);
+  }
+}
+
+/**
+ * Read and validate a Civitai response
+ * Throws a CivitaiApiError for error statuses, bodies that aren't JSON and bodies that don't validate
+ * @param parse - Validates the parsed JSON (see civitaiSchema.ts)
+ */
+async function readResponse<T>(response: Response, url: string, parse: (data: unknown, url: string) => T): Promise<T> {
+  if (!response.ok) {
+    // Include the error body when there is one - it says e.g. which user wasn't found
+    let errorDetails = response.statusText;
+    try {
+      errorDetails = JSON.stringify(await response.json());
+    } catch {
+      // If response isn't JSON, use statusText
+    }
+    throw createCivitaiError('http', `Civitai API error: ${response.status}. Details: ${errorDetails}`, {
+      status: response.status,
+      url
+    });
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw createCivitaiError('invalid_response', `Civitai API returned a response that isn't JSON (${response.status})`, {
+      status: response.status,
+      url
+    });
+  }
+
+  return parse(data, url);
+}
+
+/**
+ * Cursor for the page after this one, null on the last page
+ * Cursor-paginated responses carry it as metadata.nextCursor and inside metadata.nextPage, which might be
+ * a full URL or a relative path
+ */
+export function getNextCursor(response: CivitaiImagesResponse): string | null {
+  const { nextCursor, nextPage } = response.metadata;
+  if (nextCursor) return nextCursor;
+  if (!nextPage) return null;
+
+  try {
+    const url = new URL(nextPage, 'https://civitai.com');
+    return url.searchParams.get('cursor');
+  } catch {
+    // If URL parsing fails, try regex
+    const cursorMatch = nextPage.match(/cursor=([^&]+)/);
+    return cursorMatch ? decodeURIComponent(cursorMatch[1]) : null;
+  }
+}
+
 /**
  * Fetch images by username
  * @param username - Civitai username
  * @param limit - Number of images to fetch (default: 100, max: 200)
  * @param cursor - Pagination cursor value (just the cursor, not full URL)
+ * @param signal - Cancels the request, including any wait for the rate limiter
  */
 export async function fetchImagesByUsername(
   username: string,
   limit: number = 100,
   cursor?: string,
-  sortNewest: boolean = true
+  sortNewest: boolean = true,
+  signal?: AbortSignal
 ): Promise<CivitaiImagesResponse> {
   const params = new URLSearchParams({
     username,
@@ -63,45 +445,84 @@ export async function fetchImagesByUsername(
     params.append('cursor', cursor);
   }
 
-  const url = `${CIVITAI_API_BASE}/images?${params}`;
+  const url = `${civitaiApiBase}/images?${params}`;
   console.log(`🌐 Fetching: ${url}`);
-  const response = await fetch(url);
+  const response = await civitaiFetch(url, 3, signal);
+  const data = await readResponse(response, url, parseImagesResponse);
+  console.log(`📦 API returned ${data.items.length} images for ${username}`);
+  return data;
+}
 
-  if (!response.ok) {
-    // Try to get error details from response
-    let errorDetails = response.statusText;
-    try {
-      const errorData = await response.json();
-      errorDetails = JSON.stringify(errorData);
-    } catch (e) {
-      // If response isn't JSON, use statusText
-    }
-    throw new Error(`Civitai API error: ${response.status}. Details: ${errorDetails}`);
+/**
+ * Fetch the newest images matching a filter (model, model version or collection)
+ * @param filter - Which images to fetch
+ * @param limit - Number of images to fetch (default: 100, max: 200)
+ * @param cursor - Pagination cursor value (just the cursor, not full URL)
+ * @param signal - Cancels the request, including any wait for the rate limiter
+ */
+export async function fetchImagesByFilter(
+  filter: CivitaiImageFilter,
+  limit: number = 100,
+  cursor?: string,
+  signal?: AbortSignal
+): Promise<CivitaiImagesResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    nsfw: 'true',
+    sort: 'Newest',
+  });
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined) params.append(key, value.toString());
+  }
+
+  if (cursor) {
+    params.append('cursor', cursor);
   }
 
-  const data = await response.json();
-  console.log(`📦 API returned ${data.items?.length || 0} images for ${username}`);
+  const url = `${civitaiApiBase}/images?${params}`;
+  console.log(`🌐 Fetching: ${url}`);
+  const response = await civitaiFetch(url, 3, signal);
+  const data = await readResponse(response, url, parseImagesResponse);
+  console.log(`📦 API returned ${data.items.length} images for ${JSON.stringify(filter)}`);
   return data;
 }
 
+/**
+ * Fetch a model's details
+ * @param modelId - Civitai model ID
+ */
+export async function fetchModel(modelId: number): Promise<CivitaiModel> {
+  const url = `${civitaiApiBase}/models/${modelId}`;
+  const response = await civitaiFetch(url);
+  return readResponse(response, url, parseModel);
+}
+
+/**
+ * Fetch a model version's details
+ * @param modelVersionId - Civitai model version ID
+ */
+export async function fetchModelVersion(modelVersionId: number): Promise<CivitaiModelVersion> {
+  const url = `${civitaiApiBase}/model-versions/${modelVersionId}`;
+  const response = await civitaiFetch(url);
+  return readResponse(response, url, parseModelVersion);
+}
+
 /**
  * Fetch images by post ID
  * @param postId - Civitai post ID
+ * @param signal - Cancels the request, including any wait for the rate limiter
  */
-export async function fetchImagesByPostId(postId: number): Promise<CivitaiImagesResponse> {
+export async function fetchImagesByPostId(postId: number, signal?: AbortSignal): Promise<CivitaiImagesResponse> {
   const params = new URLSearchParams({
     postId: postId.toString(),
     limit: '200', // Get all images from post
     nsfw: 'true',
   });
 
-  const response = await fetch(`${CIVITAI_API_BASE}/images?${params}`);
-
-  if (!response.ok) {
-    throw new Error(`Civitai API error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
+  const url = `${civitaiApiBase}/images?${params}`;
+  const response = await civitaiFetch(url, 3, signal);
+  return readResponse(response, url, parseImagesResponse);
 }
 
 /**
@@ -118,13 +539,147 @@ export async function searchCreators(
     limit: limit.toString(),
   });
 
-  const response = await fetch(`${CIVITAI_API_BASE}/creators?${params}`);
+  const url = `${civitaiApiBase}/creators?${params}`;
+  const response = await civitaiFetch(url);
+  return readResponse(response, url, parseCreatorsResponse);
+}
 
-  if (!response.ok) {
-    throw new Error(`Civitai API error: ${response.status} ${response.statusText}`);
+function metaText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function metaNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Read the generation settings of an image (all null for images posted without metadata)
+ */
+export function getGenerationParams(image: CivitaiImage): GenerationParams {
+  const meta = image.meta || {};
+  return {
+    prompt: metaText(meta.prompt),
+    negativePrompt: metaText(meta.negativePrompt),
+    seed: metaNumber(meta.seed),
+    steps: metaNumber(meta.steps),
+    sampler: metaText(meta.sampler),
+    cfgScale: metaNumber(meta.cfgScale),
+    model: metaText(meta.Model),
+    baseModel: metaText(image.baseModel)
+  };
+}
+
+/**
+ * Columns of an images table row that come from the API (everything but image_id and post_id)
+ * Unknown dimensions are saved as null
+ */
+export function toImageColumns(image: CivitaiImage) {
+  return {
+    url: image.url,
+    hash: image.hash,
+    width: image.width || null,
+    height: image.height || null,
+    nsfw: image.nsfw,
+    ...toGenerationColumns(image),
+    raw: image.raw ?? null
+  };
+}
+
+/**
+ * Generation metadata columns of an images table row
+ */
+export function toGenerationColumns(image: CivitaiImage) {
+  const generation = getGenerationParams(image);
+  return {
+    prompt: generation.prompt,
+    negative_prompt: generation.negativePrompt,
+    seed: generation.seed,
+    steps: generation.steps,
+    sampler: generation.sampler,
+    cfg_scale: generation.cfgScale,
+    model_name: generation.model,
+    base_model: generation.baseModel,
+    meta: image.meta ?? null,
+    stats: image.stats ?? null
+  };
+}
+
+function toResourceType(type: unknown): ResourceType {
+  const normalized = typeof type === 'string' ? type.toLowerCase().replace(/[^a-z]/g, '') : '';
+  if (normalized === 'model' || normalized === 'checkpoint') return 'checkpoint';
+  if (['lora', 'locon', 'lycoris', 'dora'].includes(normalized)) return 'lora';
+  if (['embed', 'embedding', 'textualinversion'].includes(normalized)) return 'embedding';
+  return 'other';
+}
+
+/**
+ * Key a resource is stored under, or null if there's nothing to identify it by
+ */
+export function getResourceKey(resource: Omit<ImageResource, 'key' | 'weight'>): string | null {
+  if (resource.modelVersionId) return `version:${resource.modelVersionId}`;
+  if (resource.hash) return `hash:${resource.hash.toLowerCase()}`;
+  if (resource.name) return `name:${resource.type}:${resource.name.toLowerCase()}`;
+  return null;
+}
+
+/**
+ * Read the checkpoints, LoRAs and embeddings an image was made with
+ * Combines meta.resources, meta.civitaiResources, meta.Model and meta.hashes, one entry per key
+ */
+export function getImageResources(image: CivitaiImage): ImageResource[] {
+  const meta = image.meta || {};
+  const found: Array<Omit<ImageResource, 'key'>> = [];
+
+  for (const resource of Array.isArray(meta.resources) ? meta.resources : []) {
+    found.push({
+      type: toResourceType(resource.type),
+      name: metaText(resource.name),
+      hash: metaText(resource.hash),
+      modelVersionId: null,
+      weight: metaNumber(resource.weight)
+    });
+  }
+
+  for (const resource of Array.isArray(meta.civitaiResources) ? meta.civitaiResources : []) {
+    found.push({
+      type: toResourceType(resource.type),
+      name: metaText(resource.modelVersionName),
+      hash: null,
+      modelVersionId: metaNumber(resource.modelVersionId),
+      weight: metaNumber(resource.weight)
+    });
+  }
+
+  if (metaText(meta.Model) && !found.some(resource => resource.type === 'checkpoint')) {
+    found.push({ type: 'checkpoint', name: metaText(meta.Model), hash: metaText(meta['Model hash']), modelVersionId: null, weight: null });
+  }
+
+  // hashes: { model: "...", "lora:name": "...", "embed:name": "..." } fills in or adds hashed resources
+  for (const [label, hash] of Object.entries(meta.hashes && typeof meta.hashes === 'object' ? meta.hashes : {})) {
+    if (!metaText(hash)) continue;
+    const [prefix, ...nameParts] = label.split(':');
+    const type = prefix === 'model' ? 'checkpoint' : toResourceType(prefix);
+    const name = nameParts.join(':') || null;
+    const existing = found.find(resource => resource.type === type && !resource.hash &&
+      (type === 'checkpoint' || resource.name?.toLowerCase() === name?.toLowerCase()));
+
+    if (existing) {
+      existing.hash = metaText(hash);
+    } else if (type !== 'other') {
+      found.push({ type, name: type === 'checkpoint' ? null : name, hash: metaText(hash), modelVersionId: null, weight: null });
+    }
+  }
+
+  const resources = new Map<string, ImageResource>();
+  for (const resource of found) {
+    const key = getResourceKey(resource);
+    if (key && !resources.has(key)) {
+      resources.set(key, { key, ...resource });
+    }
   }
 
-  return response.json();
+  return Array.from(resources.values());
 }
 
 /**
@@ -158,13 +713,6 @@ export function getFirstImagePerPost(images: CivitaiImage[]): Array<{ image: Civ
   }));
 }
 
-/**
- * Sleep utility for rate limiting
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Fetch all images for a user by paginating through results
  * @param username - Civitai username
@@ -177,22 +725,13 @@ export async function fetchAllImagesByUsername(
   const allImages: CivitaiImage[] = [];
   let currentPage = 1;
   let hasMore = true;
-  let retryCount = 0;
-  const maxRetries = 3;
 
+  // Pacing and 429 backoff are handled by the shared rate limiter
   while (hasMore && currentPage <= maxPages) {
     try {
-      // Add delay between requests to avoid rate limiting (3 seconds per request)
-      if (currentPage > 1) {
-        await sleep(3000);
-      }
-
       const response = await fetchImagesByUsername(username, 200, String(currentPage));
       allImages.push(...response.items);
 
-      // Reset retry count on success
-      retryCount = 0;
-
       console.log(`Fetched page ${currentPage} for ${username}:`, {
         imagesThisPage: response.items.length,
         totalSoFar: allImages.length,
@@ -211,18 +750,6 @@ export async function fetchAllImagesByUsername(
 
       currentPage++;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '';
-
-      // If it's a 429 (rate limit) error, try exponential backoff
-      if (errorMessage.includes('429') && retryCount < maxRetries) {
-        retryCount++;
-        const waitTime = Math.pow(2, retryCount) * 5000; // 10s, 20s, 40s
-        console.warn(`⏳ Rate limited on page ${currentPage}. Waiting ${waitTime/1000}s before retry ${retryCount}/${maxRetries}...`);
-        await sleep(waitTime);
-        // Don't increment currentPage, retry the same page
-        continue;
-      }
-
       console.error(`❌ Error fetching page ${currentPage} for ${username}:`, error);
       break;
     }
@@ -0,0 +1,281 @@
+// Runtime checks for Civitai API responses
+// Every response is validated and normalised here, so an API change fails in one place
+// instead of showing up later as a database error.
+import type {
+  CivitaiImage,
+  CivitaiImageMeta,
+  CivitaiImageStats,
+  CivitaiImagesResponse,
+  CivitaiModel,
+  CivitaiModelVersion,
+  CivitaiCreator
+} from './civitai';
+
+/**
+ * - http: Civitai answered with an error status
+ * - invalid_response: the body isn't JSON or doesn't match what the app expects
+ */
+export type CivitaiErrorKind = 'http' | 'invalid_response';
+
+/**
+ * Error thrown by every Civitai API call
+ * The message starts with "Civitai API error: <status>" for HTTP errors, which the sync classifies on
+ */
+export interface CivitaiApiError extends Error {
+  name: 'CivitaiApiError';
+  kind: CivitaiErrorKind;
+  status: number | null;
+  url: string;
+  // What didn't match, for invalid responses (e.g. "items[3].postId: expected a positive integer")
+  issues: string[];
+}
+
+/**
+ * Create a typed Civitai error
+ */
+export function createCivitaiError(
+  kind: CivitaiErrorKind,
+  message: string,
+  details: { status?: number | null; url: string; issues?: string[] }
+): CivitaiApiError {
+  return Object.assign(new Error(message), {
+    name: 'CivitaiApiError' as const,
+    kind,
+    status: details.status ?? null,
+    url: details.url,
+    issues: details.issues ?? []
+  });
+}
+
+/**
+ * Check whether an error came from a Civitai API call
+ */
+export function isCivitaiError(error: unknown): error is CivitaiApiError {
+  return error instanceof Error && error.name === 'CivitaiApiError';
+}
+
+// Fields of an image the app reads; anything else is kept in CivitaiImage.raw
+const KNOWN_IMAGE_FIELDS = new Set([
+  'id', 'url', 'hash', 'width', 'height', 'nsfw', 'nsfwLevel', 'postId', 'username', 'createdAt', 'meta', 'stats', 'baseModel'
+]);
+
+// nsfwLevel values (named or numeric) that count as NSFW
+const NSFW_LEVELS = new Set(['Mature', 'X']);
+const NSFW_MIN_LEVEL = 4;
+
+type Issues = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readId(value: unknown, path: string, issues: Issues): number {
+  const id = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+  if (typeof id === 'number' && Number.isSafeInteger(id) && id > 0) return id;
+
+  issues.push(`${path}: expected a positive integer, got ${JSON.stringify(value)}`);
+  return 0;
+}
+
+function readString(value: unknown, path: string, issues: Issues): string {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+
+  issues.push(`${path}: expected a non-empty string, got ${JSON.stringify(value)}`);
+  return '';
+}
+
+function readOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Image dimensions as whole pixels, 0 when Civitai doesn't know them
+ */
+function readDimension(value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? Math.round(number) : 0;
+}
+
+function readCount(value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? Math.round(number) : 0;
+}
+
+/**
+ * Absolute https URL for an image, fixing a missing or malformed protocol ("https:/image.com")
+ */
+function readImageUrl(value: unknown, path: string, issues: Issues): string {
+  const text = readString(value, path, issues);
+  if (!text) return '';
+
+  const withProtocol = /^https?:\/\//.test(text)
+    ? text.replace(/^http:/, 'https:')
+    : `https://${text.replace(/^https?[:/]+/, '')}`;
+
+  try {
+    return new URL(withProtocol).toString();
+  } catch {
+    issues.push(`${path}: expected a URL, got ${JSON.stringify(value)}`);
+    return '';
+  }
+}
+
+/**
+ * NSFW flag from `nsfw` (a boolean, or a level name in older responses) or `nsfwLevel`
+ */
+function readNsfw(nsfw: unknown, nsfwLevel: unknown): boolean {
+  if (typeof nsfw === 'boolean') return nsfw;
+
+  const level = typeof nsfw === 'string' ? nsfw : nsfwLevel;
+  if (typeof level === 'number') return level >= NSFW_MIN_LEVEL;
+  return typeof level === 'string' && NSFW_LEVELS.has(level);
+}
+
+function readStats(value: unknown): CivitaiImageStats | null {
+  if (!isObject(value)) return null;
+
+  return {
+    likeCount: readCount(value.likeCount),
+    heartCount: readCount(value.heartCount),
+    laughCount: readCount(value.laughCount),
+    cryCount: readCount(value.cryCount),
+    dislikeCount: readCount(value.dislikeCount),
+    commentCount: readCount(value.commentCount)
+  };
+}
+
+function readCreatedAt(value: unknown, path: string, issues: Issues): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) return value;
+
+  issues.push(`${path}: expected a date, got ${JSON.stringify(value)}`);
+  return undefined;
+}
+
+/**
+ * Validate and normalise one image, adding what's wrong with it to issues
+ */
+function parseImage(value: unknown, path: string, issues: Issues): CivitaiImage {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return { id: 0, url: '', nsfw: false, width: 0, height: 0, hash: '', postId: 0 };
+  }
+
+  const raw: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (!KNOWN_IMAGE_FIELDS.has(key)) raw[key] = field;
+  }
+
+  return {
+    id: readId(value.id, `${path}.id`, issues),
+    url: readImageUrl(value.url, `${path}.url`, issues),
+    nsfw: readNsfw(value.nsfw, value.nsfwLevel),
+    width: readDimension(value.width),
+    height: readDimension(value.height),
+    hash: readOptionalString(value.hash) ?? '',
+    postId: readId(value.postId, `${path}.postId`, issues),
+    username: readOptionalString(value.username),
+    createdAt: readCreatedAt(value.createdAt, `${path}.createdAt`, issues),
+    meta: isObject(value.meta) ? (value.meta as CivitaiImageMeta) : null,
+    stats: readStats(value.stats),
+    baseModel: readOptionalString(value.baseModel) ?? null,
+    raw: Object.keys(raw).length > 0 ? raw : null
+  };
+}
+
+function invalidResponse(url: string, issues: Issues): CivitaiApiError {
+  const shown = issues.slice(0, 5).join('; ');
+  const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : '';
+  return createCivitaiError('invalid_response', `Civitai API returned an invalid response: ${shown}${more}`, { url, issues });
+}
+
+/**
+ * Validate an images API response
+ * The whole response is rejected if its shape is wrong or any of its images doesn't validate:
+ * skipping an image would save its post incomplete, and reconciliation would flag it removed upstream
+ */
+export function parseImagesResponse(data: unknown, url: string): CivitaiImagesResponse {
+  if (!isObject(data) || !Array.isArray(data.items)) {
+    throw invalidResponse(url, ['items: expected an array']);
+  }
+
+  const metadata = isObject(data.metadata) ? data.metadata : {};
+  const issues: Issues = [];
+  const items = data.items.map((item, index) => parseImage(item, `items[${index}]`, issues));
+
+  if (issues.length > 0) {
+    throw invalidResponse(url, issues);
+  }
+
+  return {
+    items,
+    metadata: {
+      totalItems: typeof metadata.totalItems === 'number' ? metadata.totalItems : undefined,
+      currentPage: typeof metadata.currentPage === 'number' ? metadata.currentPage : undefined,
+      pageSize: typeof metadata.pageSize === 'number' ? metadata.pageSize : undefined,
+      totalPages: typeof metadata.totalPages === 'number' ? metadata.totalPages : undefined,
+      nextCursor: metadata.nextCursor === undefined || metadata.nextCursor === null ? undefined : String(metadata.nextCursor),
+      nextPage: readOptionalString(metadata.nextPage),
+      prevPage: readOptionalString(metadata.prevPage)
+    }
+  };
+}
+
+/**
+ * Validate a models API response
+ */
+export function parseModel(data: unknown, url: string): CivitaiModel {
+  const issues: Issues = [];
+  if (!isObject(data)) throw invalidResponse(url, ['expected an object']);
+
+  const model = {
+    id: readId(data.id, 'id', issues),
+    name: readString(data.name, 'name', issues),
+    type: readOptionalString(data.type) ?? ''
+  };
+
+  if (issues.length > 0) throw invalidResponse(url, issues);
+  return model;
+}
+
+/**
+ * Validate a model versions API response
+ */
+export function parseModelVersion(data: unknown, url: string): CivitaiModelVersion {
+  const issues: Issues = [];
+  if (!isObject(data)) throw invalidResponse(url, ['expected an object']);
+
+  const version: CivitaiModelVersion = {
+    id: readId(data.id, 'id', issues),
+    modelId: readId(data.modelId, 'modelId', issues),
+    name: readString(data.name, 'name', issues),
+    baseModel: readOptionalString(data.baseModel)
+  };
+  if (isObject(data.model) && readOptionalString(data.model.name)) {
+    version.model = { name: readOptionalString(data.model.name)!, type: readOptionalString(data.model.type) ?? '' };
+  }
+
+  if (issues.length > 0) throw invalidResponse(url, issues);
+  return version;
+}
+
+/**
+ * Validate a creators API response, skipping entries without a username
+ */
+export function parseCreatorsResponse(data: unknown, url: string): { items: CivitaiCreator[] } {
+  if (!isObject(data) || !Array.isArray(data.items)) {
+    throw invalidResponse(url, ['items: expected an array']);
+  }
+
+  return {
+    items: data.items.filter(isObject).flatMap(item => {
+      const username = readOptionalString(item.username);
+      if (!username) return [];
+      return [{
+        username,
+        modelCount: typeof item.modelCount === 'number' ? item.modelCount : undefined,
+        link: readOptionalString(item.link)
+      }];
+    })
+  };
+}
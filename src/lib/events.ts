@@ -0,0 +1,56 @@
+import type { SyncProgress } from './sync';
+import type { StoredProfile } from './profiles';
+
+/**
+ * Events shared between components, keyed by event name
+ */
+export interface AppEvents {
+  // A creator's sync advanced, finished or failed
+  syncProgress: SyncProgress;
+  // A batch of syncs finished
+  syncCompleted: {
+    creators: string[];
+    newPostIds: number[];
+    totalNewPosts: number;
+  };
+  // Posts were added outside a sync (browser extension, claimed creators, incomplete post sync)
+  // The browser extension dispatches this without a payload, so every field is optional
+  postsAdded: {
+    creator?: string;
+    postIds?: number[];
+  };
+  // Ask App to queue a background sync
+  triggerSync: {
+    creator?: string;
+  };
+  // Stored login profiles changed
+  profilesUpdated: {
+    profiles: StoredProfile[];
+  };
+}
+
+export type AppEventName = keyof AppEvents;
+
+/**
+ * Publish an event to every listener in this tab
+ */
+export function emit<K extends AppEventName>(name: K, payload: AppEvents[K]): void {
+  window.dispatchEvent(new CustomEvent(name, { detail: payload }));
+}
+
+/**
+ * Listen for an event, returns an unsubscribe function
+ * Events dispatched without a payload (plain Event) arrive as an empty object
+ */
+export function on<K extends AppEventName>(
+  name: K,
+  listener: (payload: AppEvents[K]) => void
+): () => void {
+  const handler = (event: Event) => {
+    // Only postsAdded comes from outside the app, and its payload fields are all optional
+    listener((event as CustomEvent<AppEvents[K] | null>).detail ?? ({} as AppEvents[K]));
+  };
+
+  window.addEventListener(name, handler);
+  return () => window.removeEventListener(name, handler);
+}
@@ -0,0 +1,182 @@
+import { supabase } from './supabase';
+import type { CoverOrientation, MediaType, NsfwFilter, PostFilters } from './feedQuery';
+
+// "Last N days" choices
+export const WITHIN_DAYS = [1, 7, 30, 90, 365];
+
+export function getWithinDaysLabel(days: number): string {
+  return days === 1 ? 'Last 24 hours' : `Last ${days} days`;
+}
+
+export const ORIENTATIONS: CoverOrientation[] = ['portrait', 'landscape', 'square'];
+
+export const ORIENTATION_LABELS: Record<CoverOrientation, string> = {
+  portrait: 'Portrait',
+  landscape: 'Landscape',
+  square: 'Square'
+};
+
+export const MEDIA_TYPES: MediaType[] = ['image', 'video'];
+
+export const MEDIA_TYPE_LABELS: Record<MediaType, string> = {
+  image: 'Images only',
+  video: 'Videos only'
+};
+
+export const NSFW_FILTERS: NsfwFilter[] = ['sfw', 'nsfw'];
+
+export const NSFW_FILTER_LABELS: Record<NsfwFilter, string> = {
+  sfw: 'SFW only',
+  nsfw: 'NSFW only'
+};
+
+/**
+ * A named set of filters saved by the user (feed_filter_presets, migrations/add_feed_filters.sql)
+ */
+export interface FilterPreset {
+  id: number;
+  user_id: string;
+  name: string;
+  filters: PostFilters;
+  created_at: string;
+}
+
+// Query string parameter of each filter
+const URL_PARAMS: Record<keyof PostFilters, string> = {
+  publishedFrom: 'from',
+  publishedTo: 'to',
+  publishedWithinDays: 'within_days',
+  minImages: 'min_images',
+  maxImages: 'max_images',
+  orientation: 'orientation',
+  media: 'media',
+  nsfw: 'nsfw'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filters with unset and invalid values left out, so equal filters compare (and encode) equal
+ */
+export function cleanFilters(filters: PostFilters): PostFilters {
+  const clean: PostFilters = {};
+  if (filters.publishedFrom && DATE_PATTERN.test(filters.publishedFrom)) clean.publishedFrom = filters.publishedFrom;
+  if (filters.publishedTo && DATE_PATTERN.test(filters.publishedTo)) clean.publishedTo = filters.publishedTo;
+  if (Number.isInteger(filters.publishedWithinDays) && filters.publishedWithinDays! > 0) clean.publishedWithinDays = filters.publishedWithinDays;
+  if (Number.isInteger(filters.minImages) && filters.minImages! >= 0) clean.minImages = filters.minImages;
+  if (Number.isInteger(filters.maxImages) && filters.maxImages! >= 0) clean.maxImages = filters.maxImages;
+  if (filters.orientation && ORIENTATIONS.includes(filters.orientation)) clean.orientation = filters.orientation;
+  if (filters.media && MEDIA_TYPES.includes(filters.media)) clean.media = filters.media;
+  if (filters.nsfw && NSFW_FILTERS.includes(filters.nsfw)) clean.nsfw = filters.nsfw;
+  return clean;
+}
+
+/**
+ * Number of filters set
+ */
+export function countActiveFilters(filters: PostFilters): number {
+  return Object.keys(cleanFilters(filters)).length;
+}
+
+/**
+ * Whether two sets of filters pick the same posts
+ */
+export function sameFilters(a: PostFilters, b: PostFilters): boolean {
+  return JSON.stringify(cleanFilters(a)) === JSON.stringify(cleanFilters(b));
+}
+
+/**
+ * Read filters from a query string (default: the current URL's)
+ */
+export function readFiltersFromUrl(search: string = window.location.search): PostFilters {
+  const params = new URLSearchParams(search);
+  const number = (name: string) => {
+    const value = params.get(name);
+    return value !== null && value !== '' ? Number(value) : null;
+  };
+
+  return cleanFilters({
+    publishedFrom: params.get(URL_PARAMS.publishedFrom),
+    publishedTo: params.get(URL_PARAMS.publishedTo),
+    publishedWithinDays: number(URL_PARAMS.publishedWithinDays),
+    minImages: number(URL_PARAMS.minImages),
+    maxImages: number(URL_PARAMS.maxImages),
+    orientation: params.get(URL_PARAMS.orientation) as CoverOrientation | null,
+    media: params.get(URL_PARAMS.media) as MediaType | null,
+    nsfw: params.get(URL_PARAMS.nsfw) as NsfwFilter | null
+  });
+}
+
+/**
+ * Put filters in the current URL (replacing any there), so a filtered feed can be bookmarked or shared
+ * Other query parameters are kept; no history entry is added
+ */
+export function writeFiltersToUrl(filters: PostFilters): void {
+  const url = new URL(window.location.href);
+  for (const param of Object.values(URL_PARAMS)) {
+    url.searchParams.delete(param);
+  }
+  for (const [key, value] of Object.entries(cleanFilters(filters))) {
+    url.searchParams.set(URL_PARAMS[key as keyof PostFilters], String(value));
+  }
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
+
+/**
+ * The current user's filter presets, by name
+ */
+export async function fetchFilterPresets(): Promise<FilterPreset[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('feed_filter_presets')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Save filters under a name, replacing the preset with that name if there is one
+ */
+export async function saveFilterPreset(name: string, filters: PostFilters): Promise<FilterPreset> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to save filter presets');
+  }
+
+  const presetName = name.trim();
+  if (!presetName) {
+    throw new Error('Enter a name for the preset');
+  }
+
+  const { data, error } = await supabase
+    .from('feed_filter_presets')
+    .upsert(
+      { user_id: user.id, name: presetName, filters: cleanFilters(filters) },
+      { onConflict: 'user_id,name' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Delete a filter preset
+ */
+export async function deleteFilterPreset(id: number): Promise<void> {
+  const { error } = await supabase
+    .from('feed_filter_presets')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
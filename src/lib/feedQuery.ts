@@ -0,0 +1,291 @@
+import { supabase } from './supabase';
+import { getFeedSortSince, type FeedSort } from './reactions';
+import { getSourceLabel, type SourceType } from './sources';
+
+/**
+ * Posts a feed is made of
+ * - following: posts by followed creators or brought in by followed sources, except the user's own
+ * - creator: one creator's posts
+ * - creators: posts by any of some creators (smart feeds limited to creators)
+ * - favorites / hidden: posts the user favorited / hid
+ */
+export type FeedSource =
+  | { type: 'following' }
+  | { type: 'creator'; username: string }
+  | { type: 'creators'; usernames: string[] }
+  | { type: 'favorites' }
+  | { type: 'hidden' };
+
+export type CoverOrientation = 'portrait' | 'landscape' | 'square';
+
+export type MediaType = 'video' | 'image';
+
+export type NsfwFilter = 'sfw' | 'nsfw';
+
+/**
+ * Filters the user picks in the filter panel (and saves as presets)
+ */
+export interface PostFilters {
+  // Published on or after / on or before, YYYY-MM-DD in the user's time zone
+  publishedFrom?: string | null;
+  publishedTo?: string | null;
+  // Published in the last N days, counted from when the feed loads (smart feeds like "videos from the last 7 days")
+  publishedWithinDays?: number | null;
+  // Image count range, both included
+  minImages?: number | null;
+  maxImages?: number | null;
+  // Cover shape; posts without cover dimensions don't match
+  orientation?: CoverOrientation | null;
+  // Video (.mp4 cover) or image posts only
+  media?: MediaType | null;
+  // Only SFW or only NSFW posts, whatever the show_nsfw setting is; unset follows the setting
+  nsfw?: NsfwFilter | null;
+}
+
+export interface FeedFilters extends PostFilters {
+  // Show NSFW posts whatever the user's preference is
+  includeNsfw?: boolean;
+  // Keep posts the user hid (the hidden feed always does)
+  includeHidden?: boolean;
+}
+
+/**
+ * Everything that decides which posts a view shows and in what order
+ * Pages, counts and prev/next navigation all read the same description, so they can't disagree
+ */
+export interface FeedQuery {
+  source: FeedSource;
+  sort: FeedSort;
+  filters?: FeedFilters;
+}
+
+/**
+ * A post as the feeds show it
+ */
+export interface FeedPost {
+  postId: number;
+  username: string;
+  coverImageUrl: string;
+  coverWidth?: number;
+  coverHeight?: number;
+  imageCount: number;
+  reactionCount: number;
+  nsfw: boolean;
+  publishedAt: string | null;
+  updatedAt: string | null;
+  // Followed source that brought in a post by a creator who isn't followed
+  via: string | null;
+  isHidden: boolean;
+  isFavorited: boolean;
+}
+
+/**
+ * Where the next page starts: the last post of the page before, with the sort key it was shown with
+ */
+export interface FeedCursor {
+  postId: number;
+  reactionCount: number;
+}
+
+export interface FeedPage {
+  posts: FeedPost[];
+  // Null on the last page
+  nextCursor: FeedCursor | null;
+  // Posts in the whole feed, on the first page only (null on later pages and when the page is empty)
+  total: number | null;
+}
+
+// feed_posts row (migrations/add_feed_posts.sql)
+interface FeedPostRow {
+  post_id: number;
+  creator_username: string;
+  // Null for favorited or hidden posts whose images were never synced
+  cover_image_url: string | null;
+  cover_width: number | null;
+  cover_height: number | null;
+  image_count: number | null;
+  reaction_count: number | null;
+  nsfw: boolean;
+  published_at: string | null;
+  updated_at: string | null;
+  is_favorited: boolean;
+  is_hidden: boolean;
+  via_source_type: SourceType | null;
+  via_source_civitai_id: number | null;
+  via_source_name: string | null;
+  // First page only
+  total_count: number | null;
+}
+
+/**
+ * feed_filter arguments for a query (feed_posts and feed_neighbours take them too)
+ */
+function toFeedArgs(query: FeedQuery) {
+  const { source, sort, filters = {} } = query;
+  return {
+    p_source: source.type,
+    p_creator: source.type === 'creator' ? source.username : null,
+    p_creators: source.type === 'creators' ? source.usernames : null,
+    p_published_since: getFeedSortSince(sort),
+    p_include_nsfw: filters.includeNsfw || false,
+    p_include_hidden: filters.includeHidden || false,
+    p_published_from: publishedFrom(filters),
+    // The "to" day is included, so the range ends where the next day starts
+    p_published_to: filters.publishedTo ? startOfDay(filters.publishedTo, 1) : null,
+    p_min_images: filters.minImages ?? null,
+    p_max_images: filters.maxImages ?? null,
+    p_orientation: filters.orientation || null,
+    p_media: filters.media || null,
+    p_nsfw: filters.nsfw || null
+  };
+}
+
+/**
+ * Earliest publish time the filters allow: the later of the "from" day and the last N days
+ */
+function publishedFrom(filters: PostFilters): string | null {
+  const fromDay = filters.publishedFrom ? startOfDay(filters.publishedFrom) : null;
+  const withinDays = filters.publishedWithinDays
+    ? new Date(Date.now() - filters.publishedWithinDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+  if (!fromDay || !withinDays) return fromDay ?? withinDays;
+  return new Date(fromDay) > new Date(withinDays) ? fromDay : withinDays;
+}
+
+/**
+ * Start of a YYYY-MM-DD day (plus some days) in the user's time zone, as an ISO timestamp
+ */
+function startOfDay(date: string, addDays: number = 0): string {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+}
+
+/**
+ * Call feed_posts: the feed's posts in its sort, with the user's interactions joined in
+ */
+async function callFeedPosts(
+  query: FeedQuery,
+  cursor: FeedCursor | null,
+  limit: number,
+  postIds: number[] | null = null
+): Promise<FeedPostRow[]> {
+  const { data, error } = await supabase.rpc('feed_posts', {
+    ...toFeedArgs(query),
+    p_sort: query.sort,
+    p_post_ids: postIds,
+    p_limit: limit,
+    p_after_post_id: cursor?.postId ?? null,
+    p_after_reaction_count: cursor?.reactionCount ?? null
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Map feed_posts rows to feed posts
+ */
+function toFeedPost(row: FeedPostRow): FeedPost {
+  return {
+    postId: row.post_id,
+    username: row.creator_username,
+    coverImageUrl: row.cover_image_url ?? '',
+    coverWidth: row.cover_width ?? undefined,
+    coverHeight: row.cover_height ?? undefined,
+    imageCount: row.image_count || 0,
+    reactionCount: row.reaction_count || 0,
+    nsfw: row.nsfw,
+    publishedAt: row.published_at,
+    updatedAt: row.updated_at,
+    via: row.via_source_type && row.via_source_civitai_id !== null
+      ? getSourceLabel({ type: row.via_source_type, civitai_id: row.via_source_civitai_id, name: row.via_source_name })
+      : null,
+    isHidden: row.is_hidden,
+    isFavorited: row.is_favorited
+  };
+}
+
+/**
+ * One page of a feed, in the feed's sort, with the number of posts in the whole feed
+ * Pages are keyset pages: posts a sync saves above the cursor don't shift the ones below it
+ * @param cursor - The previous page's nextCursor, null for the first page
+ * @param limit - Posts per page
+ */
+export async function fetchFeedPage(query: FeedQuery, cursor: FeedCursor | null, limit: number): Promise<FeedPage> {
+  const rows = await callFeedPosts(query, cursor, limit);
+  const last = rows[rows.length - 1];
+  return {
+    posts: rows.map(toFeedPost),
+    nextCursor: rows.length === limit
+      ? { postId: last.post_id, reactionCount: last.reaction_count || 0 }
+      : null,
+    // Only the first page is counted, and past the last page there are no rows to read it from
+    total: rows.length > 0 && rows[0].total_count !== null ? Number(rows[0].total_count) : null
+  };
+}
+
+/**
+ * Specific posts, if they belong in the feed, in the feed's sort (for merging in posts a sync just saved)
+ */
+export async function fetchFeedPosts(query: FeedQuery, postIds: number[]): Promise<FeedPost[]> {
+  if (postIds.length === 0) return [];
+
+  const rows = await callFeedPosts(query, null, postIds.length, postIds);
+  return rows.map(toFeedPost);
+}
+
+/**
+ * Number of posts in a feed
+ */
+export async function countFeedPosts(query: FeedQuery): Promise<number> {
+  const rows = await callFeedPosts(query, null, 1);
+  return rows.length > 0 ? Number(rows[0].total_count ?? 0) : 0;
+}
+
+/**
+ * Posts followed by the ones of incoming that aren't already there
+ * Order is stable: a post keeps the place it was first shown in, so a page overlapping the last one
+ * (or a post merged in by a sync) never shows twice
+ */
+export function appendFeedPosts<T extends { postId: number }>(posts: T[], incoming: T[]): T[] {
+  const seen = new Set(posts.map(post => post.postId));
+  const added = incoming.filter(post => {
+    if (seen.has(post.postId)) return false;
+    seen.add(post.postId);
+    return true;
+  });
+  return added.length > 0 ? [...posts, ...added] : posts;
+}
+
+/**
+ * Posts with incoming merged in by post_id, newest first (posts already there get the fresh data)
+ */
+export function mergeFeedPosts<T extends { postId: number }>(posts: T[], incoming: T[]): T[] {
+  const incomingIds = new Set(incoming.map(post => post.postId));
+  return [...posts.filter(post => !incomingIds.has(post.postId)), ...incoming].sort((a, b) => b.postId - a.postId);
+}
+
+/**
+ * The posts before and after one in a feed's sort, for prev/next navigation
+ * Previous is the one shown above it (newer, or more reactions), next the one below
+ */
+export async function fetchFeedNeighbours(
+  query: FeedQuery,
+  postId: number
+): Promise<{ prevPostId: number | null; nextPostId: number | null }> {
+  const { data, error } = await supabase
+    .rpc('feed_neighbours', {
+      p_post_id: postId,
+      ...toFeedArgs(query),
+      p_sort: query.sort
+    })
+    .maybeSingle();
+
+  if (error) throw error;
+  const neighbours = data as { prev_post_id: number | null; next_post_id: number | null } | null;
+  return {
+    prevPostId: neighbours?.prev_post_id ?? null,
+    nextPostId: neighbours?.next_post_id ?? null
+  };
+}
@@ -0,0 +1,36 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type FeedSort = 'newest' | 'reacted-week' | 'reacted-all';
+
+export const FEED_SORTS: FeedSort[] = ['newest', 'reacted-week', 'reacted-all'];
+
+export const FEED_SORT_LABELS: Record<FeedSort, string> = {
+  newest: 'Newest',
+  'reacted-week': 'Most reacted this week',
+  'reacted-all': 'Most reacted all time'
+};
+
+// "This week" = published in the last 7 days
+const TRENDING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Earliest published_at a sort includes, null if it includes every post
+ */
+export function getFeedSortSince(sort: FeedSort): string | null {
+  return sort === 'reacted-week' ? new Date(Date.now() - TRENDING_WINDOW_MS).toISOString() : null;
+}
+
+/**
+ * Recompute posts' reaction and comment counts from their images' stats
+ * Best effort: failures are logged and never fail the save that changed the images
+ * @param client - Supabase client (the sync passes its own so the worker can use the service role)
+ */
+export async function refreshPostStats(postIds: number[], client: SupabaseClient = supabase): Promise<void> {
+  if (postIds.length === 0) return;
+
+  const { error } = await client.rpc('refresh_post_stats', { p_post_ids: postIds });
+  if (error) {
+    console.warn(`⚠️  Could not refresh stats for ${postIds.length} posts:`, error);
+  }
+}
@@ -0,0 +1,198 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { getImageResources, type CivitaiImage, type ResourceType } from './civitai';
+
+export interface Resource {
+  id: number;
+  key: string;
+  type: ResourceType;
+  name: string | null;
+  hash: string | null;
+  model_version_id: number | null;
+}
+
+export interface ResourceUsage extends Resource {
+  image_count: number;
+  post_count: number;
+  creator_count: number;
+  last_used_at: string | null;
+}
+
+export interface ResourcePost {
+  post_id: number;
+  creator_username: string;
+  cover_image_url: string;
+  cover_width: number | null;
+  cover_height: number | null;
+  image_count: number | null;
+  published_at: string | null;
+  nsfw: boolean;
+}
+
+export const RESOURCE_TYPE_LABELS: Record<ResourceType, string> = {
+  checkpoint: 'Checkpoint',
+  lora: 'LoRA',
+  embedding: 'Embedding',
+  other: 'Other'
+};
+
+/**
+ * Name to show for a resource, falling back to its hash or model version
+ */
+export function getResourceLabel(resource: Pick<Resource, 'name' | 'hash' | 'model_version_id'>): string {
+  if (resource.name) return resource.name;
+  if (resource.hash) return `Hash ${resource.hash.slice(0, 10)}`;
+  if (resource.model_version_id) return `Model version ${resource.model_version_id}`;
+  return 'Unknown';
+}
+
+/**
+ * Store the resources a batch of images was made with and link them to the images
+ * Each image's links are replaced, so re-saving an image doesn't leave stale ones behind
+ * Best effort: failures are logged and never fail the sync that saved the images
+ * @param images - Images that are already saved
+ * @param client - Supabase client (the sync passes its own so the worker can use the service role)
+ */
+export async function saveImageResources(images: CivitaiImage[], client: SupabaseClient = supabase): Promise<void> {
+  if (images.length === 0) return;
+
+  try {
+    const imageResources = images.map(image => ({ image, resources: getImageResources(image) }));
+    const resourceRows = new Map<string, Omit<Resource, 'id'>>();
+    for (const { resources } of imageResources) {
+      for (const resource of resources) {
+        resourceRows.set(resource.key, {
+          key: resource.key,
+          type: resource.type,
+          name: resource.name,
+          hash: resource.hash,
+          model_version_id: resource.modelVersionId
+        });
+      }
+    }
+
+    const keys = Array.from(resourceRows.keys());
+    const resourceIds = new Map<string, number>();
+
+    if (keys.length > 0) {
+      const { error: insertError } = await client
+        .from('resources')
+        .upsert(Array.from(resourceRows.values()), { onConflict: 'key', ignoreDuplicates: true });
+      if (insertError) throw insertError;
+
+      const { data: savedResources, error: selectError } = await client
+        .from('resources')
+        .select('id, key')
+        .in('key', keys);
+      if (selectError) throw selectError;
+
+      for (const resource of savedResources || []) {
+        resourceIds.set(resource.key, resource.id);
+      }
+    }
+
+    const { error: deleteError } = await client
+      .from('image_resources')
+      .delete()
+      .in('image_id', images.map(image => image.id));
+    if (deleteError) throw deleteError;
+
+    const links = new Map<string, { image_id: number; resource_id: number; weight: number | null }>();
+    for (const { image, resources } of imageResources) {
+      for (const resource of resources) {
+        const resourceId = resourceIds.get(resource.key);
+        if (resourceId) {
+          links.set(`${image.id}:${resourceId}`, { image_id: image.id, resource_id: resourceId, weight: resource.weight });
+        }
+      }
+    }
+
+    if (links.size > 0) {
+      const { error: linkError } = await client
+        .from('image_resources')
+        .insert(Array.from(links.values()));
+      if (linkError) throw linkError;
+    }
+  } catch (error) {
+    console.warn(`⚠️  Could not save resources for ${images.length} images:`, error);
+  }
+}
+
+/**
+ * Most used resources across the current user's creators
+ * @param options.creator - Only count this creator's posts
+ * @param options.type - Only this kind of resource
+ * @param options.limit - Number of resources (default: 100)
+ */
+export async function fetchResourceUsage(
+  options?: { creator?: string | null; type?: ResourceType | null; limit?: number }
+): Promise<ResourceUsage[]> {
+  const { data, error } = await supabase.rpc('resource_usage', {
+    p_creator: options?.creator || null,
+    p_type: options?.type || null,
+    p_limit: options?.limit ?? 100
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Look up a resource by key, null if no saved image uses it
+ */
+export async function fetchResource(key: string): Promise<Resource | null> {
+  const { data, error } = await supabase
+    .from('resources')
+    .select('*')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Posts from the current user's creators with at least one image made with a resource, newest first
+ * @param resourceId - Resource to look for
+ * @param offset - Posts to skip
+ * @param limit - Posts per page (default: 30)
+ */
+export async function fetchPostsUsingResource(
+  resourceId: number,
+  offset: number = 0,
+  limit: number = 30
+): Promise<ResourcePost[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to browse resources');
+  }
+
+  const { data: creators, error: creatorsError } = await supabase
+    .from('creators')
+    .select('username')
+    .eq('user_id', user.id);
+
+  if (creatorsError) throw creatorsError;
+
+  const { data, error } = await supabase
+    .from('posts')
+    .select('post_id, creator_username, cover_image_url, cover_width, cover_height, image_count, published_at, nsfw, images!inner(image_resources!inner(resource_id))')
+    .in('creator_username', (creators || []).map(c => c.username))
+    .eq('images.image_resources.resource_id', resourceId)
+    .not('cover_image_url', 'is', null)
+    .order('post_id', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+  // Leave out the embedded images, they're only there for the filter
+  return (data || []).map(post => ({
+    post_id: post.post_id,
+    creator_username: post.creator_username,
+    cover_image_url: post.cover_image_url,
+    cover_width: post.cover_width,
+    cover_height: post.cover_height,
+    image_count: post.image_count,
+    published_at: post.published_at,
+    nsfw: post.nsfw
+  }));
+}
@@ -0,0 +1,67 @@
+import { supabase } from './supabase';
+
+export interface PromptSearchFilters {
+  query: string;
+  // Only this creator's posts
+  creator?: string | null;
+  // null = any, true = NSFW only, false = SFW only
+  nsfw?: boolean | null;
+  // Published on or after / before (ISO dates)
+  publishedFrom?: string | null;
+  publishedTo?: string | null;
+  // Search negative prompts instead of prompts
+  negative?: boolean;
+}
+
+export interface PromptSearchResult {
+  post_id: number;
+  image_id: number;
+  url: string;
+  width: number | null;
+  height: number | null;
+  nsfw: boolean;
+  creator_username: string;
+  published_at: string | null;
+  rank: number;
+  // Matching part of the prompt, matches wrapped in [[ ]]
+  snippet: string;
+}
+
+/**
+ * Split a result snippet into plain and highlighted parts
+ */
+export function splitSnippet(snippet: string): Array<{ text: string; match: boolean }> {
+  return snippet
+    .split(/(\[\[.*?\]\])/)
+    .filter(Boolean)
+    .map(part => part.startsWith('[[') && part.endsWith(']]')
+      ? { text: part.slice(2, -2), match: true }
+      : { text: part, match: false });
+}
+
+/**
+ * Full-text search of prompts across the current user's creators, one result per post
+ * See migrations/add_prompt_search.sql for the search syntax and ranking
+ * @param filters - Search text and filters
+ * @param offset - Results to skip
+ * @param limit - Results per page (default: 30)
+ */
+export async function searchPrompts(
+  filters: PromptSearchFilters,
+  offset: number = 0,
+  limit: number = 30
+): Promise<PromptSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_prompts', {
+    p_query: filters.query,
+    p_creator: filters.creator || null,
+    p_nsfw: filters.nsfw ?? null,
+    p_published_from: filters.publishedFrom || null,
+    p_published_to: filters.publishedTo || null,
+    p_negative: filters.negative || false,
+    p_limit: limit,
+    p_offset: offset
+  });
+
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,122 @@
+import { supabase } from './supabase';
+import { cleanFilters } from './feedFilters';
+import type { FeedSort } from './reactions';
+import type { FeedQuery, PostFilters } from './feedQuery';
+
+/**
+ * A feed the user defined and named, shown as its own tab (smart_feeds, migrations/add_smart_feeds.sql)
+ */
+export interface SmartFeed {
+  id: number;
+  user_id: string;
+  name: string;
+  // Only posts by these creators; empty for everything the Feed shows
+  creators: string[];
+  filters: PostFilters;
+  // Sort the feed opens with
+  sort: FeedSort;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * What a smart feed is made of, as the user edits it
+ */
+export type SmartFeedDefinition = Pick<SmartFeed, 'name' | 'creators' | 'filters' | 'sort'>;
+
+/**
+ * The feed a smart feed shows, for pages, counts and prev/next navigation (the same queries as the Feed)
+ */
+export function toSmartFeedQuery(feed: SmartFeed, sort: FeedSort = feed.sort): FeedQuery {
+  return {
+    source: feed.creators.length > 0 ? { type: 'creators', usernames: feed.creators } : { type: 'following' },
+    sort,
+    filters: cleanFilters(feed.filters)
+  };
+}
+
+/**
+ * A definition with the name trimmed and creators trimmed, deduplicated and sorted
+ */
+function cleanDefinition(definition: SmartFeedDefinition): SmartFeedDefinition {
+  const name = definition.name.trim();
+  if (!name) {
+    throw new Error('Enter a name for the feed');
+  }
+
+  const creators = [...new Set(definition.creators.map(creator => creator.trim()).filter(Boolean))]
+    .sort((a, b) => a.localeCompare(b));
+
+  return { name, creators, filters: cleanFilters(definition.filters), sort: definition.sort };
+}
+
+/**
+ * The current user's smart feeds, in tab order
+ */
+export async function fetchSmartFeeds(): Promise<SmartFeed[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('smart_feeds')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('position', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Save a new smart feed as the last tab
+ */
+export async function createSmartFeed(definition: SmartFeedDefinition, position: number): Promise<SmartFeed> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to save feeds');
+  }
+
+  const { data, error } = await supabase
+    .from('smart_feeds')
+    .insert({ user_id: user.id, ...cleanDefinition(definition), position })
+    .select()
+    .single();
+
+  if (error?.code === '23505') {
+    throw new Error(`You already have a feed named "${definition.name.trim()}"`);
+  }
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Change a smart feed's definition
+ */
+export async function updateSmartFeed(id: number, definition: SmartFeedDefinition): Promise<SmartFeed> {
+  const { data, error } = await supabase
+    .from('smart_feeds')
+    .update({ ...cleanDefinition(definition), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error?.code === '23505') {
+    throw new Error(`You already have a feed named "${definition.name.trim()}"`);
+  }
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Delete a smart feed
+ */
+export async function deleteSmartFeed(id: number): Promise<void> {
+  const { error } = await supabase
+    .from('smart_feeds')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
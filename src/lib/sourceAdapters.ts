@@ -0,0 +1,100 @@
+import { fetchImagesByUsername, fetchImagesByPostId, getNextCursor, type CivitaiImage } from './civitai';
+
+/**
+ * Sites posts can come from; posts.site and images.site hold one of these
+ */
+export type SiteId = 'civitai';
+
+/**
+ * One page of a creator's images, newest first
+ * Images use the app's image model (CivitaiImage), which every adapter maps the site's data to
+ */
+export interface SourcePage {
+  images: CivitaiImage[];
+  nextCursor: string | null;
+  // Every image the creator has on the site, when the site reports it
+  totalItems: number | null;
+}
+
+/**
+ * What the sync and the UI need from a gallery site
+ * Post and image IDs are the site's own: Civitai's are stored as they are, other sites' are mapped to
+ * local IDs with resolve_site_ids() (migrations/add_site_namespacing.sql) before saving
+ */
+export interface SourceAdapter {
+  site: SiteId;
+  name: string;
+  /** A page of a creator's posts (as their images), newest first */
+  listCreatorPosts(
+    username: string,
+    options?: { limit?: number; cursor?: string; signal?: AbortSignal }
+  ): Promise<SourcePage>;
+  /** Every image of one post, empty if the post is gone */
+  fetchPostImages(postId: number, signal?: AbortSignal): Promise<CivitaiImage[]>;
+  getProfileUrl(username: string): string;
+  getPostUrl(postId: number): string;
+  getImageUrl(imageId: number): string;
+  /** Username in one of the site's profile URLs, null if the URL isn't one */
+  parseProfileUrl(url: string): string | null;
+}
+
+export const civitaiAdapter: SourceAdapter = {
+  site: 'civitai',
+  name: 'Civitai',
+
+  async listCreatorPosts(username, options = {}) {
+    const response = await fetchImagesByUsername(username, options.limit ?? 200, options.cursor, true, options.signal);
+    return { images: response.items, nextCursor: getNextCursor(response), totalItems: response.metadata.totalItems ?? null };
+  },
+
+  async fetchPostImages(postId, signal) {
+    const response = await fetchImagesByPostId(postId, signal);
+    return response.items;
+  },
+
+  getProfileUrl(username) {
+    return `https://civitai.com/user/${username}/posts`;
+  },
+
+  getPostUrl(postId) {
+    return `https://civitai.com/posts/${postId}`;
+  },
+
+  getImageUrl(imageId) {
+    return `https://civitai.com/images/${imageId}`;
+  },
+
+  parseProfileUrl(url) {
+    const match = url.match(/civitai\.com\/user\/([^/?#]+)/);
+    if (!match) return null;
+
+    try {
+      return decodeURIComponent(match[1]);
+    } catch {
+      // Malformed percent-encoding, e.g. a truncated "%E0%A4"
+      return null;
+    }
+  }
+};
+
+const SOURCE_ADAPTERS: Record<SiteId, SourceAdapter> = {
+  civitai: civitaiAdapter
+};
+
+/**
+ * Adapter for a site (Civitai when not given - creators are only followed on Civitai so far)
+ */
+export function getSourceAdapter(site: SiteId = 'civitai'): SourceAdapter {
+  return SOURCE_ADAPTERS[site];
+}
+
+/**
+ * Find the site a profile URL belongs to, with the username in it
+ */
+export function parseProfileUrl(url: string): { adapter: SourceAdapter; username: string } | null {
+  for (const adapter of Object.values(SOURCE_ADAPTERS)) {
+    const username = adapter.parseProfileUrl(url);
+    if (username) return { adapter, username };
+  }
+  return null;
+}
@@ -0,0 +1,143 @@
+import { supabase } from './supabase';
+import { fetchModel, fetchModelVersion, type CivitaiImageFilter } from './civitai';
+
+export type SourceType = 'model' | 'model_version' | 'collection';
+
+/**
+ * Something followed besides a creator; its images sync into posts/images like a creator's
+ */
+export interface Source {
+  id: number;
+  user_id: string;
+  type: SourceType;
+  civitai_id: number;
+  name: string | null;
+  sync_status: 'pending' | 'syncing' | 'completed' | 'error';
+  sync_error: string | null;
+  last_synced_at: string | null;
+  total_posts: number;
+  created_at: string;
+}
+
+export const SOURCE_TYPES: SourceType[] = ['model', 'model_version', 'collection'];
+
+export const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  model: 'Model',
+  model_version: 'Model version',
+  collection: 'Collection'
+};
+
+/**
+ * Name to show for a source
+ */
+export function getSourceLabel(source: Pick<Source, 'type' | 'civitai_id' | 'name'>): string {
+  return source.name || `${SOURCE_TYPE_LABELS[source.type]} ${source.civitai_id}`;
+}
+
+/**
+ * Civitai images API filter for a source
+ */
+export function toImageFilter(source: Pick<Source, 'type' | 'civitai_id'>): CivitaiImageFilter {
+  switch (source.type) {
+    case 'model':
+      return { modelId: source.civitai_id };
+    case 'model_version':
+      return { modelVersionId: source.civitai_id };
+    case 'collection':
+      return { collectionId: source.civitai_id };
+  }
+}
+
+/**
+ * Read a source's Civitai ID from an ID or a civitai.com URL
+ * Model URLs that pick a version (?modelVersionId=) give the version when following a model version
+ */
+export function parseSourceId(type: SourceType, input: string): number | null {
+  const text = input.trim();
+  if (/^\d+$/.test(text)) return Number(text);
+
+  try {
+    const url = new URL(text, 'https://civitai.com');
+    if (type === 'model_version') {
+      const versionId = url.searchParams.get('modelVersionId') || url.pathname.match(/\/model-versions\/(\d+)/)?.[1];
+      return versionId ? Number(versionId) : null;
+    }
+    const pattern = type === 'model' ? /\/models\/(\d+)/ : /\/collections\/(\d+)/;
+    const id = url.pathname.match(pattern)?.[1];
+    return id ? Number(id) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The current user's sources, oldest first
+ */
+export async function fetchSources(): Promise<Source[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('sources')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Follow a model, model version or collection
+ * Models and model versions are named from Civitai when no name is given
+ * @param input - Civitai ID or civitai.com URL
+ */
+export async function addSource(type: SourceType, input: string, name?: string): Promise<Source> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to follow sources');
+  }
+
+  const civitaiId = parseSourceId(type, input);
+  if (!civitaiId) {
+    throw new Error(`Enter a ${SOURCE_TYPE_LABELS[type].toLowerCase()} ID or civitai.com URL`);
+  }
+
+  let sourceName = name?.trim() || null;
+  if (!sourceName && type !== 'collection') {
+    try {
+      if (type === 'model') {
+        sourceName = (await fetchModel(civitaiId)).name;
+      } else {
+        const version = await fetchModelVersion(civitaiId);
+        sourceName = version.model ? `${version.model.name} - ${version.name}` : version.name;
+      }
+    } catch (err) {
+      console.warn(`⚠️  Could not look up the name of ${type} ${civitaiId}:`, err);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('sources')
+    .insert({ user_id: user.id, type, civitai_id: civitaiId, name: sourceName })
+    .select()
+    .single();
+
+  if (error?.code === '23505') {
+    throw new Error(`You already follow ${SOURCE_TYPE_LABELS[type].toLowerCase()} ${civitaiId}`);
+  }
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Stop following a source; posts it brought in stay, but leave the Feed unless a followed creator made them
+ */
+export async function removeSource(id: number): Promise<void> {
+  const { error } = await supabase
+    .from('sources')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -1,22 +1,499 @@
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
 import { supabase } from './supabase';
-import { fetchImagesByUsername, CivitaiImage, groupImagesByPost } from './civitai';
-
-interface SyncProgress {
+import { fetchImagesByFilter, getNextCursor, CivitaiImage, groupImagesByPost, getGenerationParams, getImageResources, toImageColumns } from './civitai';
+import type { SyncRunKind, SyncStopReason } from './syncRuns';
+import { classifySyncError, describeSyncError, getNextSyncAttempt, type SyncErrorCategory } from './syncErrors';
+import { getNextScheduledSync, CADENCE_SAMPLE_SIZE, type SyncFrequency } from './syncSchedule';
+import { saveImageResources } from './resources';
+import { refreshPostStats } from './reactions';
+import { getSourceLabel, toImageFilter, type Source } from './sources';
+import { getSourceAdapter } from './sourceAdapters';
+
+export interface SyncProgress {
   creator: string;
   currentPage: number;
   totalImages: number;
   totalPosts: number;
   status: 'syncing' | 'completed' | 'error';
   error?: string;
+  errorCategory?: SyncErrorCategory;
+  cursor?: string | null;
+  newPostIds?: number[];
+  reconcile?: ReconcileSummary;
+}
+
+/**
+ * Differences a reconciliation sync found between Civitai and the local mirror
+ */
+export interface ReconcileSummary {
+  postsChecked: number;
+  postsRemoved: number[];
+  postsRestored: number[];
+  postsUpdated: number[];
+  imagesAdded: number;
+  imagesRemoved: number;
+  imagesRestored: number;
+}
+
+export type ProgressCallback = (progress: SyncProgress) => void;
+
+// Client used by all sync functions - the browser session by default,
+// swapped for a service-role client when running in the sync worker
+let db: SupabaseClient = supabase;
+
+// Site creators are synced from (creators don't record a site yet, so all of them are on Civitai)
+const creatorSite = getSourceAdapter();
+
+// Followed models and collections are checked this often
+const SOURCE_SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// A source's first sync only goes this many pages back - popular models have far more images than anyone scrolls
+const SOURCE_FIRST_SYNC_PAGES = 3;
+const SOURCE_MAX_PAGES = 20;
+
+// Posts published this recently get their reaction counts refreshed whenever a sync walks past them
+const STATS_REFRESH_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Run the sync functions against a different Supabase client
+ */
+export function setSyncClient(client: SupabaseClient): void {
+  db = client;
+}
+
+/**
+ * Counters for the sync_runs row of a run in progress
+ */
+interface SyncRunRecorder {
+  id: number | null;
+  requests: number;
+  pages: number;
+  newPosts: number;
+  newImages: number;
+  errors: string[];
+}
+
+/**
+ * Open a sync_runs row for a run
+ * History is best effort - a failed insert is logged and never stops the sync
+ */
+async function startSyncRun(userId: string, username: string, kind: SyncRunKind): Promise<SyncRunRecorder> {
+  const run: SyncRunRecorder = { id: null, requests: 0, pages: 0, newPosts: 0, newImages: 0, errors: [] };
+
+  const { data, error } = await db
+    .from('sync_runs')
+    .insert({ user_id: userId, creator_username: username, kind })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error(`Error recording ${kind} run for ${username}:`, error);
+  } else {
+    run.id = data.id;
+  }
+
+  return run;
+}
+
+/**
+ * Close a run's sync_runs row with its counters and stop reason
+ */
+async function finishSyncRun(
+  run: SyncRunRecorder,
+  stopReason: SyncStopReason,
+  details?: object
+): Promise<void> {
+  if (run.id === null) return;
+
+  const { error } = await db
+    .from('sync_runs')
+    .update({
+      finished_at: new Date().toISOString(),
+      requests: run.requests,
+      pages: run.pages,
+      new_posts: run.newPosts,
+      new_images: run.newImages,
+      errors: run.errors.slice(-20), // Keep the row small if a run keeps failing
+      stop_reason: stopReason,
+      details: details ?? null
+    })
+    .eq('id', run.id);
+
+  if (error) {
+    console.error(`Error finishing sync run ${run.id}:`, error);
+  }
+}
+
+/**
+ * Stop reason for a run that threw
+ */
+function stopReasonForError(error: unknown): SyncStopReason {
+  const category = classifySyncError(error);
+  if (category === 'cancelled') return 'cancelled';
+  if (category === 'rate_limited') return 'rate_limited';
+  return 'error';
+}
+
+/**
+ * Throw SYNC_CANCELLED if the sync's signal has aborted
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('SYNC_CANCELLED');
+  }
+}
+
+/**
+ * Work out when the background sync should next check a creator, from its sync_frequency
+ * Adaptive creators read their recent published_at history to learn how often they post
+ */
+async function scheduleNextSync(username: string, userId: string): Promise<string | null> {
+  const { data: creator } = await db
+    .from('creators')
+    .select('sync_frequency')
+    .eq('username', username)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const frequency: SyncFrequency = creator?.sync_frequency || 'daily';
+  let publishedAt: string[] = [];
+
+  if (frequency === 'adaptive') {
+    const { data: posts } = await db
+      .from('posts')
+      .select('published_at')
+      .eq('creator_username', username)
+      .not('published_at', 'is', null)
+      .order('published_at', { ascending: false })
+      .limit(CADENCE_SAMPLE_SIZE);
+
+    publishedAt = (posts || []).map(post => post.published_at);
+  }
+
+  return getNextScheduledSync(frequency, publishedAt)?.toISOString() ?? null;
+}
+
+/**
+ * Save a page of posts and their images with one upsert per table
+ * Returns the number of posts saved
+ * @param username - Creator of every post, or null to take each post's creator from its images (source syncs)
+ */
+async function savePostBatch(
+  username: string | null,
+  postGroups: Map<number, CivitaiImage[]>,
+  postIds: number[]
+): Promise<number> {
+  const now = new Date().toISOString();
+
+  const postRows = postIds.map(postId => {
+    const firstImage = postGroups.get(postId)![0];
+    return {
+      post_id: postId,
+      creator_username: username ?? firstImage.username,
+      cover_image_url: firstImage.url,
+      cover_image_hash: firstImage.hash,
+      cover_width: firstImage.width,
+      cover_height: firstImage.height,
+      image_count: postGroups.get(postId)!.length,
+      nsfw: firstImage.nsfw,
+      published_at: firstImage.createdAt || null,
+      removed_upstream: false,
+      removed_upstream_at: null,
+      updated_at: now
+    };
+  });
+
+  const { error: postError } = await db
+    .from('posts')
+    .upsert(postRows, { onConflict: 'post_id' });
+
+  if (postError) {
+    console.error(`Error saving ${postRows.length} posts:`, postError);
+    return 0;
+  }
+
+  // De-duplicate by image_id - Postgres rejects an upsert that touches the same row twice
+  const imageRows = new Map<number, ReturnType<typeof toImageRow>>();
+  for (const postId of postIds) {
+    for (const image of postGroups.get(postId)!) {
+      imageRows.set(image.id, toImageRow(image, postId));
+    }
+  }
+
+  const { error: imageError } = await db
+    .from('images')
+    .upsert(Array.from(imageRows.values()), {
+      onConflict: 'image_id',
+      ignoreDuplicates: false
+    });
+
+  if (!imageError) {
+    await saveImageResources(postIds.flatMap(postId => postGroups.get(postId)!), db);
+    await refreshPostStats(postIds, db);
+    return postRows.length;
+  }
+
+  // The batch is rejected as a whole - retry per post so one bad row doesn't lose the page
+  console.warn(`⚠️  Bulk image upsert failed (${imageError.message}). Retrying post by post...`);
+
+  for (const postId of postIds) {
+    const images = postGroups.get(postId)!;
+    const { error: postImagesError } = await db
+      .from('images')
+      .upsert(images.map(image => toImageRow(image, postId)), {
+        onConflict: 'image_id',
+        ignoreDuplicates: false
+      });
+
+    if (!postImagesError) {
+      await saveImageResources(images, db);
+    }
+
+    // Ignore duplicate key errors (23505) - images already exist
+    if (postImagesError && postImagesError.code !== '23505') {
+      console.error(`Error saving images for post ${postId}:`, postImagesError);
+
+      // Correct image_count with what actually made it into the database
+      const { count: savedCount } = await db
+        .from('images')
+        .select('*', { count: 'exact', head: true })
+        .eq('post_id', postId);
+
+      console.warn(`⚠️  Post ${postId}: Expected ${images.length} images, saved ${savedCount || 0}`);
+      await db
+        .from('posts')
+        .update({ image_count: savedCount || 0 })
+        .eq('post_id', postId);
+    }
+  }
+
+  await refreshPostStats(postIds, db);
+  return postRows.length;
+}
+
+/**
+ * Save fresh stats for already saved images of recently published posts and roll them up
+ * Only images already in the database are touched, so a post cut off at a page boundary isn't changed
+ */
+async function refreshRecentStats(postGroups: Map<number, CivitaiImage[]>, postIds: number[]): Promise<void> {
+  const cutoff = Date.now() - STATS_REFRESH_WINDOW_MS;
+  const recentPostIds = postIds.filter(postId => {
+    const createdAt = postGroups.get(postId)![0].createdAt;
+    return createdAt && new Date(createdAt).getTime() >= cutoff;
+  });
+  if (recentPostIds.length === 0) return;
+
+  try {
+    const images = recentPostIds.flatMap(postId => postGroups.get(postId)!);
+    const { data: savedImages, error: lookupError } = await db
+      .from('images')
+      .select('image_id')
+      .in('image_id', images.map(image => image.id));
+    if (lookupError) throw lookupError;
+
+    const savedIds = new Set((savedImages || []).map(image => image.image_id));
+    const rows = new Map<number, ReturnType<typeof toImageRow>>();
+    for (const image of images) {
+      if (savedIds.has(image.id)) rows.set(image.id, toImageRow(image, image.postId));
+    }
+    if (rows.size === 0) return;
+
+    const { error: saveError } = await db
+      .from('images')
+      .upsert(Array.from(rows.values()), { onConflict: 'image_id' });
+    if (saveError) throw saveError;
+
+    await refreshPostStats(recentPostIds, db);
+    console.log(`📈 Refreshed reaction counts for ${recentPostIds.length} recent posts`);
+  } catch (error) {
+    console.warn(`⚠️  Could not refresh reaction counts for ${recentPostIds.length} recent posts:`, error);
+  }
+}
+
+/**
+ * Map a Civitai image to an images table row
+ */
+function toImageRow(image: CivitaiImage, postId: number) {
+  return {
+    image_id: image.id,
+    post_id: postId,
+    ...toImageColumns(image),
+    removed_upstream: false,
+    removed_upstream_at: null
+  };
 }
 
-type ProgressCallback = (progress: SyncProgress) => void;
+/**
+ * Page through a query past the 1000 row response limit
+ */
+async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const pageSize = 1000;
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await page(from, from + pageSize - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) return rows;
+  }
+}
 
 /**
- * Sleep utility for rate limiting
+ * Split IDs into chunks small enough for an `in` filter
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+function chunk<T>(items: T[], size: number = 200): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Compare what Civitai returned for a post ID range with the local mirror
+ * Missing posts and images are flagged removed_upstream (never deleted), reappearing ones are restored,
+ * and posts whose images changed (or lack generation metadata) get fresh image_count, cover and metadata
+ * @param remoteImages - Every image Civitai returned, grouped by post
+ * @param range - Post ID bounds the walk covered (null = open ended)
+ * @param partialPostIds - Posts at an open bound whose images may continue outside the walk
+ * @param signal - Cancels the per-post checks
+ */
+async function reconcilePosts(
+  username: string,
+  remoteImages: Map<number, CivitaiImage[]>,
+  range: { minPostId: number | null; maxPostId: number | null },
+  partialPostIds: Set<number>,
+  signal?: AbortSignal
+): Promise<ReconcileSummary> {
+  const now = new Date().toISOString();
+  const summary: ReconcileSummary = {
+    postsChecked: 0,
+    postsRemoved: [],
+    postsRestored: [],
+    postsUpdated: [],
+    imagesAdded: 0,
+    imagesRemoved: 0,
+    imagesRestored: 0
+  };
+
+  // Posts: every local post in the range should have come back from Civitai
+  const localPosts = await fetchAllRows<{ post_id: number; cover_image_url: string | null; image_count: number | null; removed_upstream: boolean }>((from, to) => {
+    let query = db
+      .from('posts')
+      .select('post_id, cover_image_url, image_count, removed_upstream')
+      .eq('creator_username', username);
+    if (range.minPostId !== null) query = query.gte('post_id', range.minPostId);
+    if (range.maxPostId !== null) query = query.lte('post_id', range.maxPostId);
+    return query.order('post_id').range(from, to);
+  });
+
+  const missingPostIds: number[] = [];
+  for (const post of localPosts) {
+    if (!remoteImages.has(post.post_id)) {
+      if (!post.removed_upstream) missingPostIds.push(post.post_id);
+    } else if (post.removed_upstream) {
+      summary.postsRestored.push(post.post_id);
+    }
+  }
+
+  // The username listing doesn't return every post (see syncIncompletePosts), so confirm each
+  // missing post by ID before flagging it; a post that still exists is compared like the others
+  for (const postId of missingPostIds) {
+    throwIfCancelled(signal);
+    try {
+      const images = await creatorSite.fetchPostImages(postId, signal);
+      if (images.length === 0) {
+        summary.postsRemoved.push(postId);
+      } else {
+        remoteImages.set(postId, images);
+      }
+    } catch (error) {
+      throwIfCancelled(signal);
+      console.warn(`⚠️  Could not check post ${postId}, leaving it as is:`, error);
+    }
+  }
+
+  for (const postIds of chunk(summary.postsRemoved)) {
+    const { error } = await db
+      .from('posts')
+      .update({ removed_upstream: true, removed_upstream_at: now, updated_at: now })
+      .in('post_id', postIds);
+    if (error) throw error;
+  }
+
+  summary.postsChecked = remoteImages.size;
+
+  // Images: only posts we already had (new posts were saved whole during the walk)
+  const localPostsById = new Map(localPosts.map(post => [post.post_id, post]));
+  const comparablePostIds = Array.from(remoteImages.keys())
+    .filter(postId => localPostsById.has(postId) && !partialPostIds.has(postId));
+
+  const changedPostIds = new Set(summary.postsRestored);
+  const removedImageIds: number[] = [];
+
+  for (const postIds of chunk(comparablePostIds)) {
+    const localImages = await fetchAllRows<{ image_id: number; post_id: number; hash: string | null; prompt: string | null; removed_upstream: boolean; image_resources: Array<{ resource_id: number }> }>((from, to) =>
+      db
+        .from('images')
+        .select('image_id, post_id, hash, prompt, removed_upstream, image_resources(resource_id)')
+        .in('post_id', postIds)
+        .order('image_id')
+        .range(from, to)
+    );
+
+    const localByPost = new Map<number, typeof localImages>();
+    for (const image of localImages) {
+      localByPost.set(image.post_id, [...(localByPost.get(image.post_id) || []), image]);
+    }
+
+    for (const postId of postIds) {
+      const remote = remoteImages.get(postId)!;
+      const remoteIds = new Set(remote.map(image => image.id));
+      const local = localByPost.get(postId) || [];
+      const localIds = new Set(local.map(image => image.image_id));
+
+      const added = remote.filter(image => !localIds.has(image.id)).length;
+      const restored = local.filter(image => image.removed_upstream && remoteIds.has(image.image_id)).length;
+      // Images scraped by the browser extension (no hash) never come back from the API - keep them
+      const removed = local.filter(image => !image.removed_upstream && image.hash !== null && !remoteIds.has(image.image_id));
+
+      const localPost = localPostsById.get(postId)!;
+      const coverChanged = localPost.cover_image_url !== remote[0].url;
+      const countChanged = localPost.image_count !== remote.length;
+      // Images saved before generation metadata was captured get it filled in
+      const localPrompts = new Map(local.map(image => [image.image_id, image.prompt]));
+      const metaMissing = remote.some(image => localPrompts.get(image.id) === null && getGenerationParams(image).prompt !== null);
+      // Same for the resources they were made with
+      const localResourceCounts = new Map(local.map(image => [image.image_id, image.image_resources?.length ?? 0]));
+      const resourcesMissing = remote.some(image => localResourceCounts.get(image.id) === 0 && getImageResources(image).length > 0);
+
+      if (added || restored || removed.length || coverChanged || countChanged || metaMissing || resourcesMissing) {
+        changedPostIds.add(postId);
+      }
+      summary.imagesAdded += added;
+      summary.imagesRestored += restored;
+      summary.imagesRemoved += removed.length;
+      removedImageIds.push(...removed.map(image => image.image_id));
+    }
+  }
+
+  // Re-saving a post from the remote data fixes cover and image_count, adds missing images
+  // and clears removed_upstream on the post and on images that came back
+  summary.postsUpdated = Array.from(changedPostIds).filter(postId => !summary.postsRestored.includes(postId));
+  for (const postIds of chunk(Array.from(changedPostIds))) {
+    await savePostBatch(username, remoteImages, postIds);
+  }
+
+  for (const imageIds of chunk(removedImageIds)) {
+    const { error } = await db
+      .from('images')
+      .update({ removed_upstream: true, removed_upstream_at: now })
+      .in('image_id', imageIds);
+    if (error) throw error;
+  }
+
+  return summary;
 }
 
 /**
@@ -25,16 +502,18 @@ function sleep(ms: number): Promise<void> {
 export async function syncCreator(
   username: string,
   onProgress?: ProgressCallback,
-  options?: { fullBackfill?: boolean; userId?: string }
+  options?: { fullBackfill?: boolean; userId?: string; startCursor?: string | null; signal?: AbortSignal; reconcile?: boolean }
 ): Promise<void> {
   console.log(`🔄 Starting sync for ${username}`);
+  const signal = options?.signal;
+  let syncOptions = options || {};
+  let run: SyncRunRecorder | null = null;
 
   try {
     // Get current user ID
-    let syncOptions = options || {};
     const userId = syncOptions.userId;
     if (!userId) {
-      const { data: { user } } = await supabase.auth.getUser();
+      const { data: { user } } = await db.auth.getUser();
       if (!user) {
         throw new Error('User must be logged in to sync creators');
       }
@@ -42,48 +521,86 @@ export async function syncCreator(
     }
 
     // Get creator info to check last synced cursor (filtered by user)
-    const { data: creatorInfo } = await supabase
+    const { data: creatorInfo } = await db
       .from('creators')
-      .select('last_cursor, total_posts')
+      .select('last_cursor, total_posts, head_post_id, tail_cursor, backfill_images, backfill_total_images, backfill_completed_at')
       .eq('username', username)
       .eq('user_id', syncOptions.userId!)
       .maybeSingle();
 
     const lastCursor = creatorInfo?.last_cursor || null;
     const existingPosts = creatorInfo?.total_posts || 0;
+    const headPostId: number | null = creatorInfo?.head_post_id ?? null;
+    const tailCursor: string | null = creatorInfo?.tail_cursor || null;
+    const historyComplete = !!creatorInfo?.backfill_completed_at;
     console.log(`📄 Last cursor: ${lastCursor || '(starting from beginning)'}`);
     console.log(`📊 Existing posts in DB: ${existingPosts}`);
 
     const isInitialSync = !lastCursor && existingPosts === 0;
-    const isFullBackfill = syncOptions.fullBackfill || false;
+    const isReconcile = syncOptions.reconcile || false;
+    const isBackfill = (syncOptions.fullBackfill || false) && !isReconcile;
+
+    // A backfill always catches up at the head first, then continues from the saved tail,
+    // so an interrupted backfill job resumes from tail_cursor rather than its own cursor
+    const startCursor = isBackfill ? null : syncOptions.startCursor || null;
+
+    // The tail walks history newest to oldest across syncs: the first walk from the newest post starts it,
+    // backfills continue it once they've caught up at the head
+    let advancingTail = false;
+    let pendingTailCursor: string | null = null;
+    let backfillImages: number = creatorInfo?.backfill_images || 0;
+    let backfillTotal: number | null = creatorInfo?.backfill_total_images ?? null;
+    if (!isReconcile && !historyComplete) {
+      if (!tailCursor && !startCursor) {
+        advancingTail = true;
+        backfillImages = 0;
+      } else if (isBackfill && tailCursor) {
+        pendingTailCursor = tailCursor;
+      }
+    }
 
     // Always start from beginning to catch new posts (cursor points to old data)
     // We'll stop when we hit posts we've already seen
-    console.log(`${isInitialSync ? '🆕 Initial sync' : isFullBackfill ? '📜 Full backfill' : '🔄 Checking for new posts'}`);
+    console.log(`${isInitialSync ? '🆕 Initial sync' : isReconcile ? '🔍 Reconciling with Civitai' : isBackfill ? '📜 Backfill' : '🔄 Checking for new posts'}`);
+
+    run = await startSyncRun(syncOptions.userId!, username, isReconcile ? 'reconcile' : 'sync');
+    let stopReason: SyncStopReason = 'end_of_feed';
 
     // Update creator status to syncing
-    await supabase
+    await db
       .from('creators')
       .update({ sync_status: 'syncing' })
       .eq('username', username)
       .eq('user_id', syncOptions.userId!);
 
-    // Always start without cursor to get newest posts first
-    let currentCursor: string | undefined = undefined;
+    // Start without cursor to get newest posts first, unless resuming an interrupted job
+    let currentCursor: string | undefined = startCursor || undefined;
+    if (currentCursor) {
+      console.log(`⏯️  Resuming ${username} from saved cursor ${currentCursor.substring(0, 20)}...`);
+    }
+    // Newest post of a walk that started at the head, recorded as head_post_id once the walk catches up
+    let newestPostId: number | null = null;
+    let caughtUpAtHead = false;
     let hasMore = true;
     let totalImages = 0;
     let totalPosts = 0;
+    const savedPostIds: number[] = [];
+    // Reconciliation only: every image Civitai returned, grouped by post
+    const remoteImages = new Map<number, CivitaiImage[]>();
+    const remoteImageIds = new Set<number>();
     let consecutiveFullyExistingPages = 0;
     let requestCount = 0;
     const maxRequests = 50; // Limit to prevent infinite loops
-    const batchSize = 5; // Fetch 5 requests per batch
-    const batchDelayMs = 60000; // Wait 1 minute between batches
+    let pageRetries = 0;
+    const maxPageRetries = 3; // On top of the limiter's own retries
 
     while (hasMore && requestCount < maxRequests) {
-      const isFirstRequest = requestCount === 0;
       try {
-        // Check if sync was cancelled by user
-        const { data: statusCheck } = await supabase
+        // Stop between pages, so the saved cursor always points past a fully saved page
+        throwIfCancelled(signal);
+
+        // Fallback for cancels from another tab or client, which only change sync_status
+        const { data: statusCheck } = await db
           .from('creators')
           .select('sync_status')
           .eq('username', username)
@@ -95,130 +612,71 @@ export async function syncCreator(
           throw new Error('SYNC_CANCELLED');
         }
 
-        // Add delay between batches (every 5 requests)
-        if (requestCount > 0 && requestCount % batchSize === 0) {
-          console.log(`⏸️  Batch complete. Waiting ${batchDelayMs/1000}s before next batch to avoid rate limits...`);
-          await sleep(batchDelayMs);
-        }
-
-        // Add 3-second delay between individual requests (but not before the first request)
-        if (requestCount > 0 && requestCount % batchSize !== 0) {
-          await sleep(3000);
-        }
-
-        console.log(`📥 Fetching batch ${Math.floor(requestCount / batchSize) + 1}, request ${requestCount + 1} for ${username}${currentCursor ? ' (cursor: ' + currentCursor.substring(0, 20) + '...)' : ' (initial)'}`);
+        // Pacing between requests is handled by the shared Civitai rate limiter
+        console.log(`📥 Fetching request ${requestCount + 1} for ${username}${currentCursor ? ' (cursor: ' + currentCursor.substring(0, 20) + '...)' : ' (initial)'}`);
 
-        const response = await fetchImagesByUsername(username, 200, currentCursor);
+        run.requests++;
+        const page = await creatorSite.listCreatorPosts(username, { limit: 200, cursor: currentCursor, signal });
+        const fromHead = !currentCursor;
 
-        if (!response.items || response.items.length === 0) {
+        if (page.images.length === 0) {
           console.log(`✅ No more images for ${username}`);
           break;
         }
 
-        totalImages += response.items.length;
+        totalImages += page.images.length;
 
         // Group images by post
-        const postGroups = groupImagesByPost(response.items);
+        const postGroups = groupImagesByPost(page.images);
 
         // Log the post IDs we received
         const postIds = Array.from(postGroups.keys()).sort((a, b) => b - a); // Sort descending
         console.log(`📋 Received ${postGroups.size} posts in this batch:`);
         console.log(`   Post IDs: ${postIds.join(', ')}`);
 
-        // Track how many posts we've seen that already exist
-        let existingPostsCount = 0;
-        const newPostIds: number[] = [];
-
-        // Save posts and images to database
-        for (const [postId, images] of postGroups.entries()) {
-          // Check if this post already exists
-          const { data: existingPost } = await supabase
-            .from('posts')
-            .select('post_id')
-            .eq('post_id', postId)
-            .maybeSingle();
-
-          if (existingPost) {
-            existingPostsCount++;
-            // Check if post has images already
-            const { count: imageCount } = await supabase
-              .from('images')
-              .select('*', { count: 'exact', head: true })
-              .eq('post_id', postId);
-
-            if (imageCount && imageCount > 0) {
-              // Post has images, skip it
-              continue;
-            }
-            // Post exists but has no images, continue to save images
-            newPostIds.push(postId);
-          } else {
-            newPostIds.push(postId);
-          }
-          const firstImage = images[0];
-
-          // Insert or update post
-          const { error: postError } = await supabase
-            .from('posts')
-            .upsert({
-              post_id: postId,
-              creator_username: username,
-              cover_image_url: firstImage.url,
-              cover_image_hash: firstImage.hash,
-              cover_width: firstImage.width,
-              cover_height: firstImage.height,
-              image_count: images.length,
-              nsfw: firstImage.nsfw,
-              published_at: firstImage.createdAt || null,
-              updated_at: new Date().toISOString()
-            }, {
-              onConflict: 'post_id'
-            });
-
-          if (postError) {
-            console.error(`Error saving post ${postId}:`, postError);
-            continue;
-          }
+        if (fromHead && newestPostId === null) {
+          newestPostId = postIds[0];
+        }
 
-          totalPosts++;
-
-          // Insert images for this post
-          let successfulImagesSaved = 0;
-          for (const image of images) {
-            const { error: imageError } = await supabase
-              .from('images')
-              .upsert({
-                image_id: image.id,
-                post_id: postId,
-                url: image.url,
-                hash: image.hash,
-                width: image.width,
-                height: image.height,
-                nsfw: image.nsfw
-              }, {
-                onConflict: 'image_id',
-                ignoreDuplicates: false
-              });
-
-            if (imageError) {
-              // Ignore duplicate key errors (23505) - image already exists
-              if (imageError.code !== '23505') {
-                console.error(`Error saving image ${image.id}:`, imageError);
-              } else {
-                successfulImagesSaved++; // Count duplicates as successful
-              }
-            } else {
-              successfulImagesSaved++;
-            }
+        if (isReconcile) {
+          // A post's images can be split across pages, so collect the whole walk before comparing
+          for (const image of page.images) {
+            if (remoteImageIds.has(image.id)) continue;
+            remoteImageIds.add(image.id);
+            remoteImages.set(image.postId, [...(remoteImages.get(image.postId) || []), image]);
           }
+        }
+
+        // Look up which posts already exist (and whether they have images) in one query
+        const { data: existingRows, error: lookupError } = await db
+          .from('posts')
+          .select('post_id, images(count)')
+          .in('post_id', postIds);
+
+        if (lookupError) {
+          throw lookupError;
+        }
+
+        const existingImageCounts = new Map<number, number>(
+          (existingRows || []).map(row => [row.post_id, row.images?.[0]?.count || 0])
+        );
 
-          // Update image_count with actual saved count
-          if (successfulImagesSaved !== images.length) {
-            console.warn(`⚠️  Post ${postId}: Expected ${images.length} images, saved ${successfulImagesSaved}`);
-            await supabase
-              .from('posts')
-              .update({ image_count: successfulImagesSaved })
-              .eq('post_id', postId);
+        // Track how many posts we've seen that already exist
+        const existingPostsCount = existingImageCounts.size;
+
+        // Skip posts that already have images; save new posts and existing posts without images
+        const newPostIds = postIds.filter(postId => !existingImageCounts.get(postId));
+
+        // Posts we already have keep their images, but recent ones get fresh reaction counts
+        await refreshRecentStats(postGroups, postIds.filter(postId => existingImageCounts.get(postId)));
+
+        if (newPostIds.length > 0) {
+          const savedCount = await savePostBatch(username, postGroups, newPostIds);
+          totalPosts += savedCount;
+          if (savedCount > 0) {
+            savedPostIds.push(...newPostIds);
+            run.newPosts += savedCount;
+            run.newImages += newPostIds.reduce((sum, postId) => sum + postGroups.get(postId)!.length, 0);
           }
         }
 
@@ -227,19 +685,32 @@ export async function syncCreator(
           consecutiveFullyExistingPages++;
           console.log(`✅ All ${postGroups.size} posts in this batch already exist (${consecutiveFullyExistingPages} consecutive)`);
 
-          // For full backfill, keep going regardless
-          if (isFullBackfill) {
-            console.log(`📜 Full backfill: Continuing to fetch all posts...`);
+          // A page reaching the post the last sync caught up to means nothing newer is missing
+          const reachedHead = headPostId !== null && postIds[postIds.length - 1] <= headPostId;
+
+          // Reconciliation and the tail of a backfill see every page, keep going regardless
+          if (isReconcile || (isBackfill && advancingTail)) {
+            console.log(`📜 Backfill: Continuing to fetch all posts...`);
           }
-          // For regular sync, stop after 2 consecutive batches ONLY if we're just checking for new posts
-          // Don't stop if there's still a nextPage and we haven't hit a reasonable limit
-          else if (consecutiveFullyExistingPages >= 2 && !response.metadata.nextPage) {
-            console.log(`🛑 Found ${consecutiveFullyExistingPages} consecutive batches with all existing posts and no more pages. All caught up!`);
-            hasMore = false;
-            break;
-          } else if (consecutiveFullyExistingPages >= 2) {
-            console.log(`🛑 Found ${consecutiveFullyExistingPages} consecutive batches with all existing posts. All caught up!`);
+          // Otherwise stop after 2 consecutive batches, or once the head is reached
+          else if (consecutiveFullyExistingPages >= 2 || reachedHead) {
+            caughtUpAtHead = true;
+
+            if (pendingTailCursor) {
+              console.log(`⏩ Caught up with new posts. Continuing the backfill from the saved tail...`);
+              currentCursor = pendingTailCursor;
+              pendingTailCursor = null;
+              advancingTail = true;
+              consecutiveFullyExistingPages = 0;
+              requestCount++;
+              run.pages++;
+              pageRetries = 0;
+              continue;
+            }
+
+            console.log(`🛑 ${reachedHead ? 'Reached the newest post of the last sync' : `Found ${consecutiveFullyExistingPages} consecutive batches with all existing posts`}. All caught up!`);
             hasMore = false;
+            stopReason = 'caught_up';
             break;
           } else {
             console.log(`⏭️  Continuing to check for more posts...`);
@@ -253,46 +724,44 @@ export async function syncCreator(
         }
 
         // Update last_cursor after successful request (save progress)
-        const nextPage = response.metadata.nextPage;
-        let cursorValue: string | null = null;
-
-        if (nextPage) {
-          // Extract just the cursor value from the nextPage URL
-          // nextPage might be a full URL or a relative path
-          try {
-            const url = new URL(nextPage, 'https://civitai.com');
-            cursorValue = url.searchParams.get('cursor');
-          } catch {
-            // If URL parsing fails, try regex
-            const cursorMatch = nextPage.match(/cursor=([^&]+)/);
-            cursorValue = cursorMatch ? decodeURIComponent(cursorMatch[1]) : null;
-          }
-
-          console.log(`🔗 Next cursor value: ${cursorValue || 'NONE'}`);
+        const cursorValue = page.nextCursor;
 
-          // Store just the cursor value, not the full URL
-          if (cursorValue) {
-            await supabase
-              .from('creators')
-              .update({ last_cursor: cursorValue })
-              .eq('username', username)
-              .eq('user_id', syncOptions.userId!);
-            console.log(`💾 Saved cursor to database`);
-          } else {
-            console.log(`⚠️  Could not extract cursor from nextPage`);
-          }
+        if (cursorValue) {
+          console.log(`🔗 Next cursor value: ${cursorValue}`);
         } else {
           console.log(`⚠️  No next cursor - reached end of available posts`);
         }
 
+        // The tail moves with every page of history walked, so the next backfill continues after it
+        if (advancingTail) {
+          backfillImages += page.images.length;
+          backfillTotal = page.totalItems ?? backfillTotal;
+        }
+
+        if (cursorValue || advancingTail) {
+          await db
+            .from('creators')
+            .update({
+              ...(cursorValue && { last_cursor: cursorValue }),
+              ...(advancingTail && {
+                tail_cursor: cursorValue,
+                backfill_images: backfillImages,
+                backfill_total_images: backfillTotal
+              })
+            })
+            .eq('username', username)
+            .eq('user_id', syncOptions.userId!);
+          console.log(`💾 Saved cursor to database`);
+        }
+
         // Report progress with actual unique post count from database
-        const { count: currentPostCount } = await supabase
+        const { count: currentPostCount } = await db
           .from('posts')
           .select('*', { count: 'exact', head: true })
           .eq('creator_username', username);
 
         // Update the total_posts in creators table for real-time UI update
-        await supabase
+        await db
           .from('creators')
           .update({ total_posts: currentPostCount || 0 })
           .eq('username', username)
@@ -304,32 +773,33 @@ export async function syncCreator(
             currentPage: requestCount + 1,
             totalImages,
             totalPosts: currentPostCount || 0,
-            status: 'syncing'
+            status: 'syncing',
+            cursor: cursorValue,
+            newPostIds: savedPostIds
           });
         }
 
         // Check if there are more pages
-        hasMore = !!response.metadata.nextPage || response.items.length === 200;
-        // Update currentCursor to the extracted cursor value (not the full URL)
+        hasMore = !!cursorValue || page.images.length === 200;
         currentCursor = cursorValue || undefined;
         requestCount++;
+        run.pages++;
+        pageRetries = 0;
 
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        // An aborted fetch or limiter wait rejects with an AbortError - report it as a cancel
+        throwIfCancelled(signal);
 
-        // If rate limited, wait longer and continue
-        if (errorMessage.includes('429')) {
-          const waitTime = 120000; // 2 minutes
-          console.warn(`⏳ Rate limited. Waiting ${waitTime/1000}s...`);
-          await sleep(waitTime);
-          continue; // Retry same request
+        const errorMessage = describeSyncError(error);
+        const category = classifySyncError(error);
+        if (category !== 'cancelled') {
+          run.errors.push(`Page ${requestCount + 1}: ${errorMessage}`);
         }
 
-        // If 500 server error, retry with exponential backoff
-        if (errorMessage.includes('500')) {
-          const retryDelay = 10000; // 10 seconds
-          console.warn(`⚠️  Server error (500). Retrying in ${retryDelay/1000}s...`);
-          await sleep(retryDelay);
+        // If rate limited, server or network error, retry - the limiter is backing off, so the next request waits
+        if ((category === 'rate_limited' || category === 'network') && pageRetries < maxPageRetries) {
+          pageRetries++;
+          console.warn(`⏳ ${errorMessage}. Retrying same request (${pageRetries}/${maxPageRetries})...`);
           continue; // Retry same request
         }
 
@@ -339,25 +809,76 @@ export async function syncCreator(
       }
     }
 
+    if (hasMore && requestCount >= maxRequests) {
+      stopReason = 'max_requests';
+    }
+
+    let reconcileSummary: ReconcileSummary | undefined;
+    const walkReachedEnd = !(hasMore && requestCount >= maxRequests);
+    // A walk from the top that reached the end with nothing left on Civitai still covers every post
+    // (all of them deleted upstream), so it reconciles against the empty listing
+    if (isReconcile && (remoteImages.size > 0 || (walkReachedEnd && !syncOptions.startCursor))) {
+      throwIfCancelled(signal);
+
+      // The walk covers everything above its lowest post, unless it resumed mid-way,
+      // and everything below too if it reached the last page
+      const walkedPostIds = Array.from(remoteImages.keys());
+      const lowest = walkedPostIds.length > 0 ? Math.min(...walkedPostIds) : null;
+      const highest = walkedPostIds.length > 0 ? Math.max(...walkedPostIds) : null;
+      const partialPostIds = new Set<number>();
+      if (!walkReachedEnd && lowest !== null) partialPostIds.add(lowest);
+      if (syncOptions.startCursor && highest !== null) partialPostIds.add(highest);
+
+      reconcileSummary = await reconcilePosts(username, remoteImages, {
+        minPostId: walkReachedEnd ? null : lowest,
+        maxPostId: syncOptions.startCursor ? highest : null
+      }, partialPostIds, signal);
+
+      console.log(`🔍 Reconciled ${username}: ${reconcileSummary.postsChecked} posts checked, ` +
+        `${reconcileSummary.postsRemoved.length} removed, ${reconcileSummary.postsRestored.length} restored, ` +
+        `${reconcileSummary.postsUpdated.length} updated (${reconcileSummary.imagesAdded} images added, ` +
+        `${reconcileSummary.imagesRemoved} removed, ${reconcileSummary.imagesRestored} restored)`);
+    }
+
     // Get actual unique post count from database
-    const { count: actualPostCount } = await supabase
+    const { count: actualPostCount } = await db
       .from('posts')
       .select('*', { count: 'exact', head: true })
       .eq('creator_username', username);
 
+    // Reaching the oldest post completes the backfill; catching up (or reaching the end) moves the head
+    const reachedEnd = stopReason === 'end_of_feed';
+    if (reachedEnd && !historyComplete) {
+      console.log(`🏁 Whole history of ${username} is archived`);
+    }
+    const newHead = (caughtUpAtHead || reachedEnd) && newestPostId !== null
+      ? Math.max(newestPostId, headPostId ?? 0)
+      : null;
+
     // Update creator with sync completion
-    await supabase
+    await db
       .from('creators')
       .update({
         sync_status: 'completed',
         last_synced_at: new Date().toISOString(),
         total_posts: actualPostCount || 0,
+        ...(newHead !== null && { head_post_id: newHead }),
+        ...(reachedEnd && !historyComplete && {
+          tail_cursor: null,
+          backfill_completed_at: new Date().toISOString()
+        }),
+        sync_error: null,
+        sync_error_category: null,
+        sync_failures: 0,
+        next_sync_at: await scheduleNextSync(username, syncOptions.userId!),
+        parked_at: null,
         updated_at: new Date().toISOString()
       })
       .eq('username', username)
       .eq('user_id', syncOptions.userId!);
 
-    console.log(`✅ Sync completed for ${username}: ${actualPostCount} unique posts, ${totalImages} images fetched`);
+    console.log(`✅ Sync completed for ${username}: ${actualPostCount} unique posts, ${totalPosts} posts saved, ${totalImages} images fetched (${stopReason})`);
+    await finishSyncRun(run, stopReason, reconcileSummary);
 
     if (onProgress) {
       onProgress({
@@ -365,22 +886,67 @@ export async function syncCreator(
         currentPage: requestCount,
         totalImages,
         totalPosts: actualPostCount || 0,
-        status: 'completed'
+        status: 'completed',
+        newPostIds: savedPostIds,
+        reconcile: reconcileSummary
       });
     }
 
   } catch (error) {
-    console.error(`❌ Sync failed for ${username}:`, error);
+    const message = describeSyncError(error);
+    const category = classifySyncError(error);
+
+    if (run) {
+      // Page errors are already recorded, this catches failures outside the fetch loop
+      if (category !== 'cancelled' && !run.errors.some(recorded => recorded.endsWith(message))) {
+        run.errors.push(message);
+      }
+      await finishSyncRun(run, stopReasonForError(error));
+    }
+
+    if (category === 'cancelled') {
+      // The cursor was saved with the last completed page, so the next sync picks up from there
+      // last_synced_at and next_sync_at are left alone so the creator is still due for a sync
+      await db
+        .from('creators')
+        .update({ sync_status: 'completed', updated_at: new Date().toISOString() })
+        .eq('username', username)
+        .eq('user_id', syncOptions.userId!);
+
+      throw error;
+    }
+
+    console.error(`❌ Sync failed for ${username} (${category}):`, error);
+
+    // Schedule the next attempt for this kind of failure; creators that don't exist are parked
+    const { data: creatorState } = await db
+      .from('creators')
+      .select('sync_failures')
+      .eq('username', username)
+      .eq('user_id', syncOptions.userId!)
+      .maybeSingle();
+
+    const failures = (creatorState?.sync_failures || 0) + 1;
+    const nextAttempt = getNextSyncAttempt(category, failures);
+    if (category === 'not_found') {
+      console.warn(`🅿️  ${username} was not found on Civitai - parking until synced by hand`);
+    } else if (nextAttempt) {
+      console.log(`⏰ Next attempt for ${username} after ${nextAttempt.toISOString()} (failure ${failures})`);
+    }
 
-    // Update creator with error status
-    await supabase
+    await db
       .from('creators')
       .update({
-        sync_status: 'error',
+        sync_status: category === 'not_found' ? 'parked' : 'error',
+        sync_error: message,
+        sync_error_category: category,
+        sync_failures: failures,
+        next_sync_at: nextAttempt?.toISOString() ?? null,
+        parked_at: category === 'not_found' ? new Date().toISOString() : null,
         updated_at: new Date().toISOString()
       })
       .eq('username', username)
-      .eq('user_id', options?.userId!);
+      .eq('user_id', syncOptions.userId!);
 
     if (onProgress) {
       onProgress({
@@ -389,7 +955,8 @@ export async function syncCreator(
         totalImages: 0,
         totalPosts: 0,
         status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: message,
+        errorCategory: category
       });
     }
 
@@ -397,25 +964,248 @@ export async function syncCreator(
   }
 }
 
+/**
+ * Get a user's creators that are due a sync: pending creators, and creators whose next_sync_at
+ * (planned from their sync_frequency, or a retry delay after a failure) has passed
+ * Manual-only and parked creators are left out
+ */
+export async function getCreatorsNeedingSync(userId: string) {
+  const now = new Date().toISOString();
+  return db
+    .from('creators')
+    .select('username, last_synced_at, sync_status, sync_frequency, next_sync_at')
+    .eq('user_id', userId)
+    .is('parked_at', null)
+    .or(`sync_status.eq.pending,and(sync_frequency.neq.manual,or(next_sync_at.is.null,next_sync_at.lte.${now}))`);
+}
+
+/**
+ * Get sources (models, model versions, collections) that need syncing for a user
+ */
+export async function getSourcesNeedingSync(userId: string) {
+  const staleBefore = new Date(Date.now() - SOURCE_SYNC_INTERVAL_MS).toISOString();
+  return db
+    .from('sources')
+    .select('id, type, civitai_id, name, sync_status, last_synced_at')
+    .eq('user_id', userId)
+    .neq('sync_status', 'syncing')
+    .or(`sync_status.eq.pending,last_synced_at.is.null,last_synced_at.lt.${staleBefore}`);
+}
+
+/**
+ * Sync the newest images of a followed model, model version or collection
+ * Posts are saved under their own creators and linked to the source in source_posts;
+ * the walk stops once two pages in a row bring in nothing new
+ */
+export async function syncSource(
+  sourceId: number,
+  onProgress?: ProgressCallback,
+  options?: { startCursor?: string | null; signal?: AbortSignal }
+): Promise<void> {
+  const signal = options?.signal;
+
+  const { data: source, error: sourceError } = await db
+    .from('sources')
+    .select('*')
+    .eq('id', sourceId)
+    .maybeSingle<Source>();
+
+  if (sourceError) throw sourceError;
+  if (!source) {
+    throw new Error(`Source ${sourceId} not found`);
+  }
+
+  const label = getSourceLabel(source);
+  console.log(`🔄 Starting sync for ${label}`);
+
+  await db
+    .from('sources')
+    .update({ sync_status: 'syncing', sync_error: null })
+    .eq('id', sourceId);
+
+  try {
+    const maxPages = source.last_synced_at ? SOURCE_MAX_PAGES : SOURCE_FIRST_SYNC_PAGES;
+    let currentCursor: string | undefined = options?.startCursor || undefined;
+    let pages = 0;
+    let totalImages = 0;
+    let consecutiveEmptyPages = 0;
+    const linkedPostIds: number[] = [];
+
+    while (pages < maxPages) {
+      throwIfCancelled(signal);
+
+      const response = await fetchImagesByFilter(toImageFilter(source), 200, currentCursor, signal);
+      if (!response.items || response.items.length === 0) break;
+
+      totalImages += response.items.length;
+      const postGroups = groupImagesByPost(response.items);
+      // Posts are saved under their creator, so skip the odd image without one
+      const postIds = Array.from(postGroups.keys()).filter(postId => postGroups.get(postId)![0].username);
+
+      const [{ data: existingRows, error: lookupError }, { data: linkedRows, error: linkError }] = await Promise.all([
+        db.from('posts').select('post_id, images(count)').in('post_id', postIds),
+        db.from('source_posts').select('post_id').eq('source_id', sourceId).in('post_id', postIds)
+      ]);
+      if (lookupError) throw lookupError;
+      if (linkError) throw linkError;
+
+      // Save posts we don't have yet (or have without images), then link every post on the page
+      const existingImageCounts = new Map<number, number>(
+        (existingRows || []).map(row => [row.post_id, row.images?.[0]?.count || 0])
+      );
+      const newPostIds = postIds.filter(postId => !existingImageCounts.get(postId));
+      if (newPostIds.length > 0) {
+        await savePostBatch(null, postGroups, newPostIds);
+      }
+
+      const alreadyLinked = new Set((linkedRows || []).map(row => row.post_id));
+      const unlinkedPostIds = postIds.filter(postId => !alreadyLinked.has(postId));
+      if (unlinkedPostIds.length > 0) {
+        const { error: insertError } = await db
+          .from('source_posts')
+          .upsert(unlinkedPostIds.map(postId => ({ source_id: sourceId, post_id: postId })), { ignoreDuplicates: true });
+        if (insertError) throw insertError;
+        linkedPostIds.push(...unlinkedPostIds);
+      }
+
+      const cursorValue = getNextCursor(response);
+      pages++;
+
+      onProgress?.({
+        creator: label,
+        currentPage: pages,
+        totalImages,
+        totalPosts: linkedPostIds.length,
+        status: 'syncing',
+        cursor: cursorValue,
+        newPostIds: linkedPostIds
+      });
+
+      consecutiveEmptyPages = unlinkedPostIds.length === 0 ? consecutiveEmptyPages + 1 : 0;
+      if (consecutiveEmptyPages >= 2) {
+        console.log(`🛑 Two pages in a row with nothing new for ${label}. All caught up!`);
+        break;
+      }
+      if (!cursorValue) break;
+      currentCursor = cursorValue;
+    }
+
+    const { count: totalPosts } = await db
+      .from('source_posts')
+      .select('*', { count: 'exact', head: true })
+      .eq('source_id', sourceId);
+
+    await db
+      .from('sources')
+      .update({
+        sync_status: 'completed',
+        sync_error: null,
+        last_synced_at: new Date().toISOString(),
+        total_posts: totalPosts || 0
+      })
+      .eq('id', sourceId);
+
+    console.log(`✅ Synced ${label}: ${linkedPostIds.length} new posts from ${pages} pages`);
+  } catch (error) {
+    const category = classifySyncError(error);
+    await db
+      .from('sources')
+      .update({
+        sync_status: category === 'cancelled' ? 'completed' : 'error',
+        sync_error: category === 'cancelled' ? null : describeSyncError(error)
+      })
+      .eq('id', sourceId);
+    throw error;
+  }
+}
+
+/**
+ * Lightweight check followed by a sync only if the creator has new posts
+ */
+export async function checkAndSyncCreator(
+  username: string,
+  userId: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<void> {
+  const hasNewPosts = await checkForNewPosts(username, userId, signal);
+
+  if (hasNewPosts) {
+    console.log(`🔄 ${username} has new posts - syncing...`);
+    await syncCreator(username, onProgress, { userId, signal });
+  } else {
+    // No new posts, just refresh recent reaction counts, update the timestamp and plan the next check
+    console.log(`✅ ${username} is up to date - updating timestamp`);
+    await refreshCreatorStats(username, signal);
+    await db
+      .from('creators')
+      .update({
+        last_synced_at: new Date().toISOString(),
+        next_sync_at: await scheduleNextSync(username, userId)
+      })
+      .eq('username', username)
+      .eq('user_id', userId);
+  }
+}
+
+/**
+ * Refresh the reaction counts of a creator's recent posts from the first page of their images
+ * Skipped when they haven't published anything within the refresh window
+ */
+async function refreshCreatorStats(username: string, signal?: AbortSignal): Promise<void> {
+  const { count } = await db
+    .from('posts')
+    .select('*', { count: 'exact', head: true })
+    .eq('creator_username', username)
+    .gte('published_at', new Date(Date.now() - STATS_REFRESH_WINDOW_MS).toISOString());
+  if (!count) return;
+
+  try {
+    const page = await creatorSite.listCreatorPosts(username, { limit: 200, signal });
+    const postGroups = groupImagesByPost(page.images);
+    await refreshRecentStats(postGroups, Array.from(postGroups.keys()));
+  } catch (error) {
+    throwIfCancelled(signal);
+    console.warn(`⚠️  Could not refresh reaction counts for ${username}:`, error);
+  }
+}
+
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight
+ */
+async function runPool<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
 /**
  * Sync all creators that need syncing (for current user only)
+ * Several creators are checked/synced at once; all of them share the Civitai rate limiter,
+ * so concurrency only overlaps database work and waiting, not the request budget
+ * @param options.signal - Stops the creators being synced and skips the rest
+ * @param options.concurrency - Creators processed at once (default: 3)
  */
-export async function syncAllCreators(onProgress?: ProgressCallback): Promise<void> {
+export async function syncAllCreators(
+  onProgress?: ProgressCallback,
+  options?: { signal?: AbortSignal; concurrency?: number }
+): Promise<void> {
+  const signal = options?.signal;
+  const concurrency = Math.max(1, options?.concurrency ?? 3);
   console.log('🔄 Starting sync for all creators');
 
   // Get current user
-  const { data: { user } } = await supabase.auth.getUser();
+  const { data: { user } } = await db.auth.getUser();
   if (!user) {
     throw new Error('User must be logged in to sync creators');
   }
 
-  // Get creators that need syncing for this user (pending or not synced in last 24 hours)
-  const { data: creators, error } = await supabase
-    .from('creators')
-    .select('username, last_synced_at, sync_status')
-    .eq('user_id', user.id)
-    .or('sync_status.eq.pending,last_synced_at.is.null,last_synced_at.lt.' +
-        new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+  // Get creators that need syncing for this user
+  const { data: creators, error } = await getCreatorsNeedingSync(user.id);
 
   if (error) {
     console.error('Error fetching creators:', error);
@@ -427,52 +1217,43 @@ export async function syncAllCreators(onProgress?: ProgressCallback): Promise<vo
     return;
   }
 
-  console.log(`📋 Found ${creators.length} creators to check for user ${user.email}`);
+  console.log(`📋 Found ${creators.length} creators to check for user ${user.email} (${concurrency} at a time)`);
 
   // Check each creator for new posts using lightweight check
-  for (const creator of creators) {
+  // Progress is reported per creator through onProgress (every SyncProgress names its creator)
+  await runPool(creators, concurrency, async (creator) => {
+    throwIfCancelled(signal);
+
     try {
       // If sync_status is 'pending', skip the lightweight check and force full sync
       if (creator.sync_status === 'pending') {
         console.log(`⚡ ${creator.username} is pending - running full sync`);
-        await syncCreator(creator.username, onProgress, { userId: user.id });
+        await syncCreator(creator.username, onProgress, { userId: user.id, signal });
       } else {
         // Do lightweight check first
-        const hasNewPosts = await checkForNewPosts(creator.username, user.id);
-
-        if (hasNewPosts) {
-          console.log(`🔄 ${creator.username} has new posts - syncing...`);
-          await syncCreator(creator.username, onProgress, { userId: user.id });
-        } else {
-          // No new posts, just update the timestamp
-          console.log(`✅ ${creator.username} is up to date - updating timestamp`);
-          await supabase
-            .from('creators')
-            .update({ last_synced_at: new Date().toISOString() })
-            .eq('username', creator.username)
-            .eq('user_id', user.id);
-        }
+        await checkAndSyncCreator(creator.username, user.id, onProgress, signal);
       }
-
-      // Add delay between creators to avoid rate limiting (reduced from 10s to 3s since we're doing lightweight checks)
-      await sleep(3000);
     } catch (error) {
-      console.error(`Error processing ${creator.username}:`, error);
+      // Don't move on to the next creator after a cancel
+      throwIfCancelled(signal);
+      // syncCreator already scheduled the retry (or parked the creator) for this kind of error
+      console.error(`Error processing ${creator.username} (${classifySyncError(error)}):`, error);
       // Continue with next creator
     }
-  }
+  });
 
   console.log('✅ All creators checked/synced');
 }
 
 /**
  * Sync incomplete posts (posts with IDs but no images) by fetching via postId API
+ * Returns the IDs of the posts that were completed
  */
-export async function syncIncompletePosts(username: string): Promise<void> {
+export async function syncIncompletePosts(username: string): Promise<number[]> {
   console.log(`🔍 Finding incomplete posts for ${username}...`);
 
   // Get posts that have no cover_image_url (scraped by extension but not synced)
-  const { data: incompletePosts, error } = await supabase
+  const { data: incompletePosts, error } = await db
     .from('posts')
     .select('post_id')
     .eq('creator_username', username)
@@ -485,40 +1266,38 @@ export async function syncIncompletePosts(username: string): Promise<void> {
 
   if (!incompletePosts || incompletePosts.length === 0) {
     console.log('✅ No incomplete posts to sync');
-    return;
+    return [];
   }
 
+  const completedPostIds: number[] = [];
+
   console.log(`📝 Found ${incompletePosts.length} incomplete posts. Fetching details...`);
 
+  const { data: { user } } = await db.auth.getUser();
+  const run = user ? await startSyncRun(user.id, username, 'incomplete') : null;
+
   // Fetch details for each post using postId
-  // This uses the reliable /api/v1/images?postId=X endpoint
+  // This uses the reliable /api/v1/images?postId=X endpoint (paced by the shared rate limiter)
   for (const post of incompletePosts) {
     try {
-      await sleep(3000); // Rate limiting
+      if (run) run.requests++;
+      const images = await creatorSite.fetchPostImages(post.post_id);
 
-      const response = await fetch(`https://civitai.com/api/v1/images?postId=${post.post_id}&limit=200&nsfw=true`);
-
-      if (!response.ok) {
-        console.warn(`⚠️  Failed to fetch post ${post.post_id}: ${response.status}`);
-        continue;
-      }
-
-      const data = await response.json();
-
-      if (!data.items || data.items.length === 0) {
+      if (images.length === 0) {
         console.warn(`⚠️  No images found for post ${post.post_id}`);
+        run?.errors.push(`Post ${post.post_id}: no images returned`);
         continue;
       }
 
-      const firstImage = data.items[0];
+      const firstImage = images[0];
 
       // Update post with full details
-      await supabase
+      await db
         .from('posts')
         .update({
           cover_image_url: firstImage.url,
           cover_image_hash: firstImage.hash,
-          image_count: data.items.length,
+          image_count: images.length,
           nsfw: firstImage.nsfw,
           published_at: firstImage.createdAt || null,
           updated_at: new Date().toISOString()
@@ -526,37 +1305,44 @@ export async function syncIncompletePosts(username: string): Promise<void> {
         .eq('post_id', post.post_id);
 
       // Save all images
-      for (const image of data.items) {
-        await supabase
+      for (const image of images) {
+        await db
           .from('images')
-          .upsert({
-            image_id: image.id,
-            post_id: post.post_id,
-            url: image.url,
-            hash: image.hash,
-            width: image.width,
-            height: image.height,
-            nsfw: image.nsfw
-          }, { onConflict: 'image_id' });
+          .upsert(toImageRow(image, post.post_id), { onConflict: 'image_id' });
       }
+      await saveImageResources(images, db);
+      await refreshPostStats([post.post_id], db);
 
-      console.log(`✅ Synced post ${post.post_id} (${data.items.length} images)`);
+      completedPostIds.push(post.post_id);
+      if (run) {
+        run.newPosts++;
+        run.newImages += images.length;
+      }
+      console.log(`✅ Synced post ${post.post_id} (${images.length} images)`);
     } catch (err) {
       console.error(`❌ Error syncing post ${post.post_id}:`, err);
+      run?.errors.push(`Post ${post.post_id}: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   }
 
-  console.log(`✅ Completed syncing ${incompletePosts.length} posts for ${username}`);
+  if (run) {
+    await finishSyncRun(run, 'completed');
+  }
+
+  console.log(`✅ Completed syncing ${completedPostIds.length} of ${incompletePosts.length} posts for ${username}`);
+  return completedPostIds;
 }
 
 /**
  * Lightweight check if a creator has new posts since last sync
  * Only fetches first page (10 items) instead of full sync
  */
-export async function checkForNewPosts(username: string, userId: string): Promise<boolean> {
+export async function checkForNewPosts(username: string, userId: string, signal?: AbortSignal): Promise<boolean> {
+  let run: SyncRunRecorder | null = null;
+
   try {
     // Get last sync time from DB
-    const { data: creator } = await supabase
+    const { data: creator } = await db
       .from('creators')
       .select('last_synced_at')
       .eq('username', username)
@@ -570,17 +1356,21 @@ export async function checkForNewPosts(username: string, userId: string): Promis
 
     const lastSync = new Date(creator.last_synced_at);
     console.log(`🔍 Checking ${username} for new posts since ${lastSync.toISOString()}`);
+    run = await startSyncRun(userId, username, 'check');
 
     // Fetch just the first page (10 items) from Civitai
-    const response = await fetchImagesByUsername(username, 10);
+    run.requests++;
+    const page = await creatorSite.listCreatorPosts(username, { limit: 10, signal });
+    run.pages++;
 
-    if (!response.items || response.items.length === 0) {
+    if (page.images.length === 0) {
       console.log(`  ✅ ${username} - No posts found`);
+      await finishSyncRun(run, 'end_of_feed');
       return false;
     }
 
     // Check if ANY post is newer than last sync
-    const hasNewPosts = response.items.some(img => {
+    const hasNewPosts = page.images.some(img => {
       if (!img.createdAt) return false;
       const postDate = new Date(img.createdAt);
       return postDate > lastSync;
@@ -592,8 +1382,17 @@ export async function checkForNewPosts(username: string, userId: string): Promis
       console.log(`  ✅ ${username} - No new posts`);
     }
 
+    await finishSyncRun(run, hasNewPosts ? 'new_posts_found' : 'caught_up');
     return hasNewPosts;
   } catch (error) {
+    if (run) {
+      if (!signal?.aborted) {
+        run.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+      await finishSyncRun(run, signal?.aborted ? 'cancelled' : stopReasonForError(error));
+    }
+
+    throwIfCancelled(signal);
     console.error(`Error checking for new posts for ${username}:`, error);
     // On error, assume there might be new posts (safer to sync)
     return true;
@@ -605,19 +1404,49 @@ export async function checkForNewPosts(username: string, userId: string): Promis
  */
 export async function needsSync(): Promise<boolean> {
   // Get current user
-  const { data: { user } } = await supabase.auth.getUser();
+  const { data: { user } } = await db.auth.getUser();
   if (!user) {
     return false;
   }
 
-  const { data: creators } = await supabase
+  const { data: creators } = await getCreatorsNeedingSync(user.id);
+
+  return (creators && creators.length > 0) || false;
+}
+
+/**
+ * Change how often a creator is checked and plan its next check from now (for current user only)
+ * A creator waiting out a retry delay keeps it, the new frequency applies after its next sync
+ * Returns the creator's next_sync_at
+ */
+export async function setCreatorSyncFrequency(username: string, frequency: SyncFrequency): Promise<string | null> {
+  const { data: { user } } = await db.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to change sync frequency');
+  }
+
+  const { data: creator, error } = await db
     .from('creators')
-    .select('username, last_synced_at, sync_status')
+    .update({ sync_frequency: frequency, updated_at: new Date().toISOString() })
+    .eq('username', username)
     .eq('user_id', user.id)
-    .or('sync_status.eq.pending,last_synced_at.is.null,last_synced_at.lt.' +
-        new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+    .select('sync_status, next_sync_at')
+    .single();
 
-  return (creators && creators.length > 0) || false;
+  if (error) throw error;
+  if (creator.sync_status === 'error') return creator.next_sync_at;
+
+  const nextSyncAt = await scheduleNextSync(username, user.id);
+  const { error: scheduleError } = await db
+    .from('creators')
+    .update({ next_sync_at: nextSyncAt })
+    .eq('username', username)
+    .eq('user_id', user.id);
+
+  if (scheduleError) throw scheduleError;
+
+  console.log(`⏰ ${username} set to ${frequency}, next check ${nextSyncAt ?? 'only by hand'}`);
+  return nextSyncAt;
 }
 
 /**
@@ -627,17 +1456,22 @@ export async function forceResyncAll(): Promise<void> {
   console.log('🔄 Forcing re-sync of all creators...');
 
   // Get current user
-  const { data: { user } } = await supabase.auth.getUser();
+  const { data: { user } } = await db.auth.getUser();
   if (!user) {
     throw new Error('User must be logged in to force resync');
   }
 
-  await supabase
+  await db
     .from('creators')
     .update({
       sync_status: 'pending',
       last_synced_at: null,
-      last_cursor: null
+      last_cursor: null,
+      head_post_id: null,
+      tail_cursor: null,
+      backfill_images: 0,
+      backfill_total_images: null,
+      backfill_completed_at: null
     })
     .eq('user_id', user.id);
 
@@ -651,17 +1485,22 @@ export async function forceResyncCreator(username: string): Promise<void> {
   console.log(`🔄 Forcing re-sync of ${username}...`);
 
   // Get current user
-  const { data: { user } } = await supabase.auth.getUser();
+  const { data: { user } } = await db.auth.getUser();
   if (!user) {
     throw new Error('User must be logged in to force resync');
   }
 
-  await supabase
+  await db
     .from('creators')
     .update({
       sync_status: 'pending',
       last_synced_at: null,
-      last_cursor: null
+      last_cursor: null,
+      head_post_id: null,
+      tail_cursor: null,
+      backfill_images: 0,
+      backfill_total_images: null,
+      backfill_completed_at: null
     })
     .eq('username', username)
     .eq('user_id', user.id);
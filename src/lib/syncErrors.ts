@@ -0,0 +1,83 @@
+import { isCivitaiError } from './civitaiSchema';
+
+/**
+ * What went wrong in a failed sync, each with its own retry policy
+ * - rate_limited: Civitai kept answering 429
+ * - not_found: the creator doesn't exist (renamed, deleted or banned) - parked until synced by hand
+ * - network: fetch failed or Civitai returned 5xx
+ * - invalid_response: Civitai's response didn't validate, most likely an API change
+ * - database: a Supabase read or write failed
+ * - cancelled: stopped by the user, not an error
+ */
+export type SyncErrorCategory = 'rate_limited' | 'not_found' | 'network' | 'invalid_response' | 'database' | 'cancelled' | 'unknown';
+
+interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Categories without a policy are never retried automatically
+const RETRY_POLICIES: Partial<Record<SyncErrorCategory, RetryPolicy>> = {
+  rate_limited: { baseDelayMs: 15 * MINUTE, maxDelayMs: 24 * HOUR },
+  network: { baseDelayMs: 5 * MINUTE, maxDelayMs: 6 * HOUR },
+  invalid_response: { baseDelayMs: HOUR, maxDelayMs: 24 * HOUR },
+  database: { baseDelayMs: 10 * MINUTE, maxDelayMs: 6 * HOUR },
+  unknown: { baseDelayMs: HOUR, maxDelayMs: 24 * HOUR }
+};
+
+/**
+ * Work out the category of an error thrown by a sync
+ */
+export function classifySyncError(error: unknown): SyncErrorCategory {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === 'SYNC_CANCELLED' || (error instanceof Error && error.name === 'AbortError')) {
+    return 'cancelled';
+  }
+
+  if (isCivitaiError(error) && error.kind === 'invalid_response') return 'invalid_response';
+
+  const status = message.match(/^Civitai API error: (\d{3})/)?.[1];
+  if (status === '429') return 'rate_limited';
+  if (status === '404' || status === '410' || (status && /user.*(not found|banned)/i.test(message))) {
+    return 'not_found';
+  }
+  if (status?.startsWith('5')) return 'network';
+
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) return 'network';
+
+  // Supabase returns PostgrestError objects (plain objects with a code), not Error instances
+  if (error && typeof error === 'object' && 'code' in error && 'details' in error) {
+    return 'database';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * When to retry after a failure, or null if it shouldn't be retried automatically
+ * @param category - Category of the latest failure
+ * @param failures - Consecutive failures including this one
+ */
+export function getNextSyncAttempt(category: SyncErrorCategory, failures: number): Date | null {
+  const policy = RETRY_POLICIES[category];
+  if (!policy) return null;
+
+  const delayMs = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, Math.max(0, failures - 1)));
+  return new Date(Date.now() + delayMs);
+}
+
+/**
+ * Readable message for anything a sync may throw, including Supabase error objects
+ */
+export function describeSyncError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return 'Unknown error';
+}
@@ -0,0 +1,356 @@
+import { supabase } from './supabase';
+import { getCreatorsNeedingSync, getSourcesNeedingSync, type ReconcileSummary } from './sync';
+import { emit, type AppEvents } from './events';
+import type { RateLimiterState } from './civitai';
+
+export type SyncJobKind = 'check' | 'sync' | 'reconcile';
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SyncJob {
+  id: number;
+  user_id: string;
+  // Exactly one of creator_username and source_id is set
+  creator_username: string | null;
+  source_id: number | null;
+  kind: SyncJobKind;
+  full_backfill: boolean;
+  status: SyncJobStatus;
+  cursor: string | null;
+  pages_fetched: number;
+  total_posts: number;
+  total_images: number;
+  new_post_ids: number[];
+  reconcile_summary: ReconcileSummary | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string | null;
+  locked_by: string | null;
+  heartbeat_at: string | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+const ACTIVE_STATUSES: SyncJobStatus[] = ['queued', 'running'];
+
+// A worker that hasn't published for this long has stopped, its limiter state no longer applies
+const WORKER_STALE_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * Check if a job has finished (successfully or not)
+ */
+export function isSyncJobFinished(job: SyncJob): boolean {
+  return !ACTIVE_STATUSES.includes(job.status);
+}
+
+/**
+ * Queue a sync job for a creator (for current user only)
+ * If the creator already has a queued or running job, that job is returned instead
+ */
+export async function enqueueSyncJob(
+  username: string,
+  options?: { kind?: SyncJobKind; fullBackfill?: boolean }
+): Promise<SyncJob> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to sync creators');
+  }
+
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .insert({
+      user_id: user.id,
+      creator_username: username,
+      kind: options?.kind || 'sync',
+      full_backfill: options?.fullBackfill || false
+    })
+    .select()
+    .single();
+
+  if (!error) {
+    console.log(`📬 Queued ${data.kind} job ${data.id} for ${username}`);
+    return data;
+  }
+
+  // Unique violation - an active job already exists for this creator
+  if (error.code !== '23505') {
+    throw error;
+  }
+
+  const { data: activeJob, error: activeError } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('creator_username', username)
+    .in('status', ACTIVE_STATUSES)
+    .maybeSingle();
+
+  if (activeError) throw activeError;
+  if (!activeJob) {
+    // The active job finished between the insert and the lookup - try again
+    return enqueueSyncJob(username, options);
+  }
+
+  console.log(`📬 ${username} already has job ${activeJob.id} (${activeJob.status})`);
+  return activeJob;
+}
+
+/**
+ * Queue jobs for every creator that needs syncing (for current user only)
+ * Pending creators get a full sync, others a lightweight check first
+ */
+export async function enqueueStaleCreators(): Promise<SyncJob[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to sync creators');
+  }
+
+  const { data: creators, error } = await getCreatorsNeedingSync(user.id);
+
+  if (error) {
+    console.error('Error fetching creators:', error);
+    throw error;
+  }
+
+  const jobs: SyncJob[] = [];
+  for (const creator of creators || []) {
+    jobs.push(await enqueueSyncJob(creator.username, {
+      kind: creator.sync_status === 'pending' ? 'sync' : 'check'
+    }));
+  }
+
+  console.log(`📬 Queued ${jobs.length} sync jobs`);
+  return jobs;
+}
+
+/**
+ * Queue a sync job for a followed model, model version or collection
+ * If the source already has a queued or running job, that job is returned instead
+ */
+export async function enqueueSourceSyncJob(sourceId: number): Promise<SyncJob> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to sync sources');
+  }
+
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .insert({ user_id: user.id, source_id: sourceId, kind: 'sync' })
+    .select()
+    .single();
+
+  if (!error) {
+    console.log(`📬 Queued sync job ${data.id} for source ${sourceId}`);
+    return data;
+  }
+
+  // Unique violation - an active job already exists for this source
+  if (error.code !== '23505') {
+    throw error;
+  }
+
+  const { data: activeJob, error: activeError } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('source_id', sourceId)
+    .in('status', ACTIVE_STATUSES)
+    .maybeSingle();
+
+  if (activeError) throw activeError;
+  if (!activeJob) {
+    // The active job finished between the insert and the lookup - try again
+    return enqueueSourceSyncJob(sourceId);
+  }
+
+  console.log(`📬 Source ${sourceId} already has job ${activeJob.id} (${activeJob.status})`);
+  return activeJob;
+}
+
+/**
+ * Queue jobs for every source that is due (for current user only)
+ */
+export async function enqueueStaleSources(): Promise<SyncJob[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to sync sources');
+  }
+
+  const { data: sources, error } = await getSourcesNeedingSync(user.id);
+
+  if (error) {
+    console.error('Error fetching sources:', error);
+    throw error;
+  }
+
+  const jobs: SyncJob[] = [];
+  for (const source of sources || []) {
+    jobs.push(await enqueueSourceSyncJob(source.id));
+  }
+
+  if (jobs.length > 0) {
+    console.log(`📬 Queued ${jobs.length} source sync jobs`);
+  }
+  return jobs;
+}
+
+/**
+ * Cancel a creator's queued and running jobs (for current user only)
+ * The job rows are set to cancelled; the worker running one sees that on its 3s cancel poll and aborts
+ * the sync, mid-request or mid rate limit wait. The creator's sync_status is flipped too, which other
+ * tabs pick up and which the sync checks between pages, but only as a fallback
+ */
+export async function cancelSyncJobs(username: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to cancel syncs');
+  }
+
+  // Jobs can't be updated from the browser, only cancelled (migrations/add_sync_job_ownership.sql)
+  const { error } = await supabase.rpc('cancel_sync_jobs', { p_creator_username: username });
+
+  if (error) throw error;
+
+  const { error: creatorError } = await supabase
+    .from('creators')
+    .update({ sync_status: 'completed' })
+    .eq('username', username)
+    .eq('user_id', user.id);
+
+  if (creatorError) throw creatorError;
+}
+
+/**
+ * Build the syncCompleted event payload for a set of finished jobs
+ */
+export function summarizeSyncJobs(jobs: SyncJob[]): AppEvents['syncCompleted'] {
+  const newPostIds = Array.from(new Set(jobs.flatMap(job => job.new_post_ids || [])));
+  return {
+    creators: Array.from(new Set(jobs.flatMap(job => job.creator_username ? [job.creator_username] : []))),
+    newPostIds,
+    totalNewPosts: newPostIds.length
+  };
+}
+
+/**
+ * Publish a job's progress as a syncProgress event
+ */
+function emitJobProgress(job: SyncJob): void {
+  // Progress is per creator; source jobs only report through syncCompleted
+  if (job.status === 'queued' || job.status === 'cancelled' || !job.creator_username) return;
+
+  emit('syncProgress', {
+    creator: job.creator_username,
+    currentPage: job.pages_fetched,
+    totalImages: job.total_images,
+    totalPosts: job.total_posts,
+    status: job.status === 'running' ? 'syncing' : job.status === 'completed' ? 'completed' : 'error',
+    error: job.error || undefined,
+    cursor: job.cursor,
+    newPostIds: job.new_post_ids
+  });
+}
+
+/**
+ * Error thrown by waitForSyncJobs when no sync worker is running to finish the jobs
+ */
+export type NoSyncWorkerError = Error & { name: 'NoSyncWorkerError' };
+
+/**
+ * Check whether an error means no sync worker is running
+ */
+export function isNoSyncWorkerError(error: unknown): error is NoSyncWorkerError {
+  return error instanceof Error && error.name === 'NoSyncWorkerError';
+}
+
+/**
+ * Check whether any sync worker has published to sync_workers recently
+ */
+async function isSyncWorkerRunning(): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('sync_workers')
+    .select('*', { count: 'exact', head: true })
+    .gte('updated_at', new Date(Date.now() - WORKER_STALE_AFTER_MS).toISOString());
+
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+/**
+ * Poll jobs until all of them have finished
+ * Every changed job is also published as a syncProgress event
+ * Gives up with a NoSyncWorkerError once no worker has been running for WORKER_STALE_AFTER_MS, since
+ * nothing would finish the jobs; they stay queued and run when a worker starts
+ * @param jobIds - Jobs to watch
+ * @param onUpdate - Called with the latest job rows after every poll
+ * @param intervalMs - Delay between polls (default: 5s)
+ */
+export async function waitForSyncJobs(
+  jobIds: number[],
+  onUpdate?: (jobs: SyncJob[]) => void,
+  intervalMs: number = 5000
+): Promise<SyncJob[]> {
+  if (jobIds.length === 0) return [];
+
+  const lastUpdated = new Map<number, string>();
+  // A worker that is starting up hasn't published yet, so it gets the same grace as a stale one
+  let workerSeenAt = Date.now();
+
+  while (true) {
+    const { data: jobs, error } = await supabase
+      .from('sync_jobs')
+      .select('*')
+      .in('id', jobIds);
+
+    if (error) throw error;
+
+    for (const job of (jobs || []) as SyncJob[]) {
+      if (lastUpdated.get(job.id) !== job.updated_at) {
+        lastUpdated.set(job.id, job.updated_at);
+        emitJobProgress(job);
+      }
+    }
+
+    onUpdate?.(jobs || []);
+
+    if ((jobs || []).every(isSyncJobFinished)) {
+      return jobs || [];
+    }
+
+    if (await isSyncWorkerRunning()) {
+      workerSeenAt = Date.now();
+    } else if (Date.now() - workerSeenAt > WORKER_STALE_AFTER_MS) {
+      throw Object.assign(new Error('No sync worker is running. The sync stays queued and runs once a worker starts.'), {
+        name: 'NoSyncWorkerError' as const
+      });
+    }
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Rate limiter state published by the sync workers (sync_workers, migrations/add_sync_workers.sql)
+ * With several workers running, the most restricted one is returned: a paused one, else the slowest
+ * @returns null if no worker has published recently
+ */
+export async function fetchWorkerRateLimiterState(): Promise<RateLimiterState | null> {
+  const { data, error } = await supabase
+    .from('sync_workers')
+    .select('rate_limit')
+    .gte('updated_at', new Date(Date.now() - WORKER_STALE_AFTER_MS).toISOString());
+
+  if (error) throw error;
+
+  const now = Date.now();
+  const states = (data || []).map(row => row.rate_limit as RateLimiterState);
+  const isPaused = (state: RateLimiterState) => state.backoffUntil !== null && state.backoffUntil > now;
+
+  return states.reduce<RateLimiterState | null>((worst, state) => {
+    if (!worst) return state;
+    if (isPaused(state) !== isPaused(worst)) return isPaused(state) ? state : worst;
+    if (isPaused(state)) return state.backoffUntil! > worst.backoffUntil! ? state : worst;
+    return state.refillPerSecond / state.maxRefillPerSecond < worst.refillPerSecond / worst.maxRefillPerSecond ? state : worst;
+  }, null);
+}
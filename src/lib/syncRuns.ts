@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+
+export type SyncRunKind = 'sync' | 'check' | 'incomplete' | 'reconcile';
+
+/**
+ * Why a run stopped
+ * - caught_up: reached posts that were already saved
+ * - end_of_feed: Civitai had no more pages
+ * - max_requests: hit the per-run request limit with pages left
+ * - completed: worked through its whole list (incomplete posts)
+ * - new_posts_found: a check found new posts and handed over to a sync
+ */
+export type SyncStopReason =
+  | 'caught_up'
+  | 'end_of_feed'
+  | 'max_requests'
+  | 'completed'
+  | 'new_posts_found'
+  | 'cancelled'
+  | 'rate_limited'
+  | 'error';
+
+export interface SyncRun {
+  id: number;
+  user_id: string;
+  creator_username: string;
+  kind: SyncRunKind;
+  started_at: string;
+  finished_at: string | null;
+  requests: number;
+  pages: number;
+  new_posts: number;
+  new_images: number;
+  errors: string[];
+  stop_reason: SyncStopReason | null;
+  details: Record<string, unknown> | null;
+}
+
+/**
+ * Get a creator's most recent sync runs, newest first (for current user only)
+ * @param username - Creator username
+ * @param limit - Number of runs (default: 20)
+ */
+export async function fetchSyncRuns(username: string, limit: number = 20): Promise<SyncRun[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User must be logged in to view sync history');
+  }
+
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('creator_username', username)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
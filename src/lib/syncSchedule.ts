@@ -0,0 +1,85 @@
+/**
+ * How often the background sync checks a creator for new posts
+ * - adaptive: learned from the creator's posting history (see getSyncInterval)
+ * - manual: never checked automatically, only synced from Settings
+ */
+export type SyncFrequency = 'hourly' | 'daily' | 'weekly' | 'adaptive' | 'manual';
+
+export const SYNC_FREQUENCIES: SyncFrequency[] = ['hourly', 'daily', 'weekly', 'adaptive', 'manual'];
+
+export const SYNC_FREQUENCY_LABELS: Record<SyncFrequency, string> = {
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  adaptive: 'Adaptive',
+  manual: 'Manual only'
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const FIXED_INTERVALS: Partial<Record<SyncFrequency, number>> = {
+  hourly: HOUR,
+  daily: DAY,
+  weekly: 7 * DAY
+};
+
+// Adaptive checks stay between these bounds whatever the posting history says
+const MIN_ADAPTIVE_INTERVAL = HOUR;
+const MAX_ADAPTIVE_INTERVAL = 7 * DAY;
+
+// Posts looked at to learn a creator's cadence, and the fewest needed to trust it
+export const CADENCE_SAMPLE_SIZE = 20;
+const MIN_CADENCE_SAMPLES = 3;
+
+/**
+ * Typical time between a creator's posts (median gap), or null without enough history
+ * @param publishedAt - published_at of the creator's recent posts, any order
+ */
+export function estimatePostingInterval(publishedAt: string[]): number | null {
+  const times = publishedAt
+    .map(date => new Date(date).getTime())
+    .filter(time => !Number.isNaN(time))
+    .sort((a, b) => b - a);
+
+  if (times.length < MIN_CADENCE_SAMPLES) return null;
+
+  const gaps = times.slice(1).map((time, index) => times[index] - time).sort((a, b) => a - b);
+  const middle = Math.floor(gaps.length / 2);
+  return gaps.length % 2 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2;
+}
+
+/**
+ * Time to wait before the next check, or null for manual creators
+ * Adaptive creators are checked twice per typical posting gap, backing off when they've gone quiet
+ * @param frequency - The creator's sync_frequency
+ * @param publishedAt - published_at of recent posts (only used by adaptive)
+ * @param now - Current time (default: Date.now())
+ */
+export function getSyncInterval(frequency: SyncFrequency, publishedAt: string[] = [], now: number = Date.now()): number | null {
+  if (frequency === 'manual') return null;
+  if (frequency !== 'adaptive') return FIXED_INTERVALS[frequency] ?? DAY;
+
+  const postingInterval = estimatePostingInterval(publishedAt);
+  if (postingInterval === null) return DAY;
+
+  let interval = postingInterval / 2;
+
+  // Silent for much longer than usual - the cadence has probably changed, so check less often
+  const latest = Math.max(...publishedAt.map(date => new Date(date).getTime()).filter(time => !Number.isNaN(time)));
+  const quietFor = now - latest;
+  if (quietFor > postingInterval * 4) {
+    interval = Math.max(interval, quietFor / 4);
+  }
+
+  return Math.min(MAX_ADAPTIVE_INTERVAL, Math.max(MIN_ADAPTIVE_INTERVAL, interval));
+}
+
+/**
+ * When the background sync should next check a creator, or null for manual creators
+ */
+export function getNextScheduledSync(frequency: SyncFrequency, publishedAt: string[] = []): Date | null {
+  const now = Date.now();
+  const interval = getSyncInterval(frequency, publishedAt, now);
+  return interval === null ? null : new Date(now + interval);
+}
@@ -2,6 +2,10 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  build: {
+    // The SSR build is the sync worker (npm run worker), it doesn't need the app's static assets
+    copyPublicDir: !isSsrBuild,
+  },
+}))
@@ -0,0 +1,35 @@
+// Offline mock of the Civitai API, served from recorded fixtures (worker/mockCivitaiServer.ts)
+// Point the worker (CIVITAI_API_BASE) or the app (VITE_CIVITAI_API_BASE) at it to run
+// syncCreator, checkForNewPosts and syncIncompletePosts end to end without touching civitai.com.
+//
+// Serves:
+//   GET /api/v1/images?username|postId|modelId|modelVersionId|collectionId&limit&cursor&sort
+//   GET /api/v1/creators?query&limit
+//   GET /api/v1/models/:id, GET /api/v1/model-versions/:id
+// Controls (JSON bodies):
+//   POST /__mock/faults               {status, count?, match?, retryAfterSeconds?}  next matching requests fail
+//   POST /__mock/posts/:id/delete     the post disappears from listings and postId lookups
+//   POST /__mock/posts/:id/restore
+//   POST /__mock/publish              {username, imageCount?}  a new post, published now
+//   POST /__mock/reset                reload the fixtures and clear faults
+//   GET  /__mock/state                faults, deleted posts and a count of requests served
+//
+// Usage: npm run mock-civitai
+// Environment:
+//   MOCK_CIVITAI_PORT       - Port to listen on (default: 4010)
+//   MOCK_CIVITAI_FIXTURES   - Fixture file (default: worker/fixtures/civitai.json)
+//   MOCK_CIVITAI_PAGE_SIZE  - Largest page returned, to exercise cursor pagination (default: 200)
+//   MOCK_CIVITAI_FAULTS     - Faults to start with, as a JSON array of /__mock/faults bodies
+import { startMockCivitai } from './mockCivitaiServer';
+
+startMockCivitai({
+  port: Number(process.env.MOCK_CIVITAI_PORT) || 4010,
+  fixturesPath: process.env.MOCK_CIVITAI_FIXTURES,
+  maxPageSize: Number(process.env.MOCK_CIVITAI_PAGE_SIZE) || undefined,
+  faults: process.env.MOCK_CIVITAI_FAULTS ? JSON.parse(process.env.MOCK_CIVITAI_FAULTS) : undefined
+}).then(mock => {
+  console.log(`🚀 Mock Civitai API at ${mock.apiBase}`);
+}).catch(error => {
+  console.error('❌ Mock Civitai API failed to start:', error);
+  process.exit(1);
+});
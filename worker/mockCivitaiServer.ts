@@ -0,0 +1,289 @@
+// Offline mock of the Civitai API, served from recorded fixtures (see worker/mockCivitai.ts)
+// Started by npm run mock-civitai, and in-process by the sync tests (worker/test/)
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+
+interface FixtureImage {
+  id: number;
+  postId: number;
+  username: string;
+  createdAt: string;
+  modelVersionIds?: number[];
+  stats?: Record<string, number>;
+  [key: string]: unknown;
+}
+
+interface Fixtures {
+  creators: Array<{ username: string; modelCount?: number; link?: string }>;
+  models: Array<{ id: number; [key: string]: unknown }>;
+  modelVersions: Array<{ id: number; modelId: number; [key: string]: unknown }>;
+  collections: Record<string, number[]>;
+  // Posts the username listing leaves out (Civitai's does this), still found by postId
+  unlistedPostIds: number[];
+  deletedPostIds: number[];
+  images: FixtureImage[];
+}
+
+export interface MockCivitaiFault {
+  status: number;
+  count: number;
+  // Only requests whose path and query contain this fail (default: every API request)
+  match?: string;
+  retryAfterSeconds?: number;
+}
+
+export interface MockCivitaiOptions {
+  // Port to listen on, 0 for any free port (default: 4010)
+  port?: number;
+  // Fixture file (default: worker/fixtures/civitai.json)
+  fixturesPath?: string;
+  // Largest page returned, to exercise cursor pagination (default: 200)
+  maxPageSize?: number;
+  // Faults to start with, and to go back to on /__mock/reset
+  faults?: MockCivitaiFault[];
+}
+
+export interface MockCivitai {
+  // API base to point the app or the worker at, e.g. http://localhost:4010/api/v1
+  apiBase: string;
+  // Path and query of every API request served since the last reset, oldest first
+  requests: string[];
+  close(): Promise<void>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The app calls the mock straight from the browser
+    'Access-Control-Allow-Origin': '*',
+    ...headers
+  });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let text = '';
+  for await (const chunk of req) text += chunk;
+  return text ? JSON.parse(text) : {};
+}
+
+/**
+ * Start the mock Civitai API
+ * Resolves once it is listening
+ */
+export async function startMockCivitai(options: MockCivitaiOptions = {}): Promise<MockCivitai> {
+  const fixturesPath = options.fixturesPath || 'worker/fixtures/civitai.json';
+  const maxPageSize = options.maxPageSize || 200;
+
+  let fixtures: Fixtures;
+  let deletedPostIds: Set<number>;
+  let faults: MockCivitaiFault[];
+  const requests: string[] = [];
+
+  function loadFixtures(): void {
+    fixtures = JSON.parse(readFileSync(fixturesPath, 'utf8'));
+    // Newest first, like sort=Newest
+    fixtures.images.sort((a, b) => b.id - a.id);
+    deletedPostIds = new Set(fixtures.deletedPostIds);
+    faults = (options.faults || []).map(fault => ({ ...fault }));
+    requests.length = 0;
+    console.log(`📂 Loaded ${fixtures.images.length} images for ${fixtures.creators.length} creators from ${fixturesPath}`);
+  }
+
+  /**
+   * Take the first fault that matches the request, if any
+   */
+  function takeFault(pathAndQuery: string): MockCivitaiFault | null {
+    const fault = faults.find(f => f.count > 0 && (!f.match || pathAndQuery.includes(f.match)));
+    if (!fault) return null;
+
+    fault.count--;
+    faults = faults.filter(f => f.count > 0);
+    return fault;
+  }
+
+  /**
+   * Page through images with Civitai-style cursors: the cursor is the ID of the first image on the next page
+   */
+  function pageImages(url: URL, images: FixtureImage[]) {
+    const limit = Math.min(Number(url.searchParams.get('limit')) || 100, 200, maxPageSize);
+    const cursor = Number(url.searchParams.get('cursor')) || null;
+    const sorted = url.searchParams.get('sort') === 'Most Reactions'
+      ? [...images].sort((a, b) => (b.stats?.likeCount ?? 0) - (a.stats?.likeCount ?? 0) || b.id - a.id)
+      : images;
+
+    const start = cursor ? Math.max(0, sorted.findIndex(image => image.id === cursor)) : 0;
+    const items = sorted.slice(start, start + limit);
+    const next = sorted[start + limit];
+
+    const metadata: Record<string, unknown> = { totalItems: sorted.length };
+    if (next) {
+      const nextUrl = new URL(url);
+      nextUrl.searchParams.set('cursor', String(next.id));
+      metadata.nextCursor = String(next.id);
+      metadata.nextPage = nextUrl.toString();
+    }
+    return { items, metadata };
+  }
+
+  function handleImages(url: URL, res: ServerResponse): void {
+    const params = url.searchParams;
+    const live = fixtures.images.filter(image => !deletedPostIds.has(image.postId));
+
+    if (params.has('postId')) {
+      const postId = Number(params.get('postId'));
+      sendJson(res, 200, { items: live.filter(image => image.postId === postId), metadata: {} });
+      return;
+    }
+
+    let images: FixtureImage[];
+    if (params.has('username')) {
+      const username = params.get('username')!.toLowerCase();
+      if (!fixtures.creators.some(creator => creator.username.toLowerCase() === username)) {
+        sendJson(res, 404, { error: `User ${params.get('username')} not found` });
+        return;
+      }
+      const unlisted = new Set(fixtures.unlistedPostIds);
+      images = live.filter(image => image.username.toLowerCase() === username && !unlisted.has(image.postId));
+    } else if (params.has('modelVersionId')) {
+      const versionId = Number(params.get('modelVersionId'));
+      images = live.filter(image => image.modelVersionIds?.includes(versionId));
+    } else if (params.has('modelId')) {
+      const modelId = Number(params.get('modelId'));
+      const versionIds = fixtures.modelVersions.filter(version => version.modelId === modelId).map(version => version.id);
+      images = live.filter(image => image.modelVersionIds?.some(id => versionIds.includes(id)));
+    } else if (params.has('collectionId')) {
+      const imageIds = new Set(fixtures.collections[params.get('collectionId')!] || []);
+      images = live.filter(image => imageIds.has(image.id));
+    } else {
+      images = live;
+    }
+
+    sendJson(res, 200, pageImages(url, images));
+  }
+
+  function handleCreators(url: URL, res: ServerResponse): void {
+    const query = (url.searchParams.get('query') || '').toLowerCase();
+    const limit = Number(url.searchParams.get('limit')) || 20;
+    const items = fixtures.creators.filter(creator => creator.username.toLowerCase().includes(query)).slice(0, limit);
+    sendJson(res, 200, { items, metadata: { totalItems: items.length } });
+  }
+
+  /**
+   * Add a post to a creator, published now, with images copied from the creator's newest post
+   */
+  function publishPost(username: string, imageCount: number): number {
+    const template = fixtures.images.find(image => image.username === username) ?? fixtures.images[0];
+    const postId = Math.max(...fixtures.images.map(image => image.postId)) + 1;
+    let imageId = Math.max(...fixtures.images.map(image => image.id));
+    const createdAt = new Date().toISOString();
+
+    const images = Array.from({ length: imageCount }, () => {
+      const id = ++imageId;
+      return { ...template, id, url: String(template.url).replace(/[^/]+$/, `${id}.jpeg`), postId, username, createdAt };
+    });
+    fixtures.images = [...images.reverse(), ...fixtures.images];
+    if (!fixtures.creators.some(creator => creator.username === username)) {
+      fixtures.creators.push({ username });
+    }
+    return postId;
+  }
+
+  async function handleControl(req: IncomingMessage, url: URL, res: ServerResponse): Promise<void> {
+    const postMatch = url.pathname.match(/^\/__mock\/posts\/(\d+)\/(delete|restore)$/);
+
+    if (req.method === 'GET' && url.pathname === '/__mock/state') {
+      sendJson(res, 200, { faults, deletedPostIds: Array.from(deletedPostIds), requestCount: requests.length, images: fixtures.images.length });
+    } else if (req.method === 'POST' && url.pathname === '/__mock/faults') {
+      const body = await readBody(req);
+      const fault: MockCivitaiFault = {
+        status: Number(body.status) || 429,
+        count: Number(body.count) || 1,
+        match: typeof body.match === 'string' ? body.match : undefined,
+        retryAfterSeconds: typeof body.retryAfterSeconds === 'number' ? body.retryAfterSeconds : undefined
+      };
+      faults.push(fault);
+      console.log(`💥 Next ${fault.count} request(s)${fault.match ? ` matching "${fault.match}"` : ''} fail with ${fault.status}`);
+      sendJson(res, 200, { faults });
+    } else if (req.method === 'POST' && postMatch) {
+      const postId = Number(postMatch[1]);
+      if (postMatch[2] === 'delete') {
+        deletedPostIds.add(postId);
+      } else {
+        deletedPostIds.delete(postId);
+      }
+      console.log(`🗑️  Post ${postId} ${postMatch[2] === 'delete' ? 'deleted' : 'restored'}`);
+      sendJson(res, 200, { deletedPostIds: Array.from(deletedPostIds) });
+    } else if (req.method === 'POST' && url.pathname === '/__mock/publish') {
+      const body = await readBody(req);
+      const username = typeof body.username === 'string' ? body.username : fixtures.creators[0].username;
+      const postId = publishPost(username, Number(body.imageCount) || 1);
+      console.log(`📝 Published post ${postId} for ${username}`);
+      sendJson(res, 200, { postId });
+    } else if (req.method === 'POST' && url.pathname === '/__mock/reset') {
+      loadFixtures();
+      sendJson(res, 200, { ok: true });
+    } else {
+      sendJson(res, 404, { error: 'Unknown mock control' });
+    }
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (url.pathname.startsWith('/__mock/')) {
+      await handleControl(req, url, res);
+      return;
+    }
+
+    requests.push(url.pathname + url.search);
+    console.log(`🌐 ${req.method} ${url.pathname}${url.search}`);
+
+    const fault = takeFault(url.pathname + url.search);
+    if (fault) {
+      console.log(`💥 Failing with ${fault.status}`);
+      const headers: Record<string, string> = fault.retryAfterSeconds !== undefined
+        ? { 'Retry-After': String(fault.retryAfterSeconds) }
+        : {};
+      sendJson(res, fault.status, { error: `Mock fault ${fault.status}` }, headers);
+      return;
+    }
+
+    const modelMatch = url.pathname.match(/^\/api\/v1\/(models|model-versions)\/(\d+)$/);
+
+    if (url.pathname === '/api/v1/images') {
+      handleImages(url, res);
+    } else if (url.pathname === '/api/v1/creators') {
+      handleCreators(url, res);
+    } else if (modelMatch) {
+      const list = modelMatch[1] === 'models' ? fixtures.models : fixtures.modelVersions;
+      const found = list.find(item => item.id === Number(modelMatch[2]));
+      if (found) {
+        sendJson(res, 200, found);
+      } else {
+        sendJson(res, 404, { error: `No ${modelMatch[1] === 'models' ? 'model' : 'model version'} with id ${modelMatch[2]}` });
+      }
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  loadFixtures();
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('❌ Mock request failed:', error);
+      sendJson(res, 500, { error: error instanceof Error ? error.message : 'Mock error' });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 4010, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    apiBase: `http://localhost:${port}/api/v1`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
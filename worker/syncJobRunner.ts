@@ -0,0 +1,228 @@
+// Claims and runs sync jobs for the sync worker (worker/syncWorker.ts)
+// Kept apart from the worker's process setup so the sync tests (worker/test/) can run jobs in-process.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getRateLimiter, type RateLimiterState } from '../src/lib/civitai';
+import { syncCreator, syncSource, checkAndSyncCreator, type SyncProgress } from '../src/lib/sync';
+import type { SyncJob } from '../src/lib/syncJobs';
+import { classifySyncError, describeSyncError, getNextSyncAttempt } from '../src/lib/syncErrors';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+// How often a running job looks for a cancel between pages (a long rate limit wait has no page boundary)
+const CANCEL_POLL_INTERVAL_MS = 3000;
+const STALE_AFTER = '2 minutes';
+
+export interface SyncJobRunner {
+  /** Claim the next queued job (or a job abandoned by a crashed worker) */
+  claimJob(): Promise<SyncJob | null>;
+  /** Run a claimed job to completion, heartbeating while it runs */
+  runJob(job: SyncJob): Promise<void>;
+  /** Publish the shared limiter's state to sync_workers, if it changed or a heartbeat is due */
+  publishRateLimiterState(): Promise<void>;
+  /** Remove this worker's sync_workers row */
+  unpublishWorker(): Promise<void>;
+}
+
+/**
+ * Create a runner that claims jobs as one worker
+ * The sync functions must already use the same client (setSyncClient)
+ * @param db - Service role client, the worker syncs for every user
+ * @param workerId - Name recorded on claimed jobs
+ * @param staleAfter - Heartbeat age after which a running job is reclaimed (Postgres interval)
+ */
+export function createSyncJobRunner(db: SupabaseClient, workerId: string, staleAfter: string = STALE_AFTER): SyncJobRunner {
+  let publishedRateLimit: RateLimiterState | null = null;
+  let publishedRateLimitAt = 0;
+
+  async function claimJob(): Promise<SyncJob | null> {
+    const { data, error } = await db.rpc('claim_sync_job', {
+      p_worker_id: workerId,
+      p_stale_after: staleAfter
+    });
+
+    if (error) {
+      console.error('❌ Error claiming job:', error);
+      return null;
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  /**
+   * Update a job this worker holds
+   * Cancelled jobs are left alone so the user's cancel isn't overwritten
+   */
+  async function updateJob(job: SyncJob, fields: Partial<SyncJob>): Promise<void> {
+    const { error } = await db
+      .from('sync_jobs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('locked_by', workerId)
+      .neq('status', 'cancelled');
+
+    if (error) {
+      console.error(`❌ Error updating job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Check whether the user cancelled a job while it was running
+   */
+  async function isJobCancelled(job: SyncJob): Promise<boolean> {
+    const { data, error } = await db
+      .from('sync_jobs')
+      .select('status')
+      .eq('id', job.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`❌ Error checking job ${job.id}:`, error);
+      return false;
+    }
+
+    return data?.status === 'cancelled';
+  }
+
+  /**
+   * Check that a source job's source is followed by the user who queued it
+   * The sync looks sources up by id alone, with the service role
+   */
+  async function isOwnSource(job: SyncJob): Promise<boolean> {
+    const { data, error } = await db
+      .from('sources')
+      .select('id')
+      .eq('id', job.source_id!)
+      .eq('user_id', job.user_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  }
+
+  /**
+   * A cancel seen after a page or by the cancel poll aborts the sync, including an in-flight request or
+   * rate limit wait
+   */
+  async function runJob(job: SyncJob): Promise<void> {
+    const resuming = job.attempts > 1 && !!job.cursor;
+    console.log(`🔧 Job ${job.id}: ${job.kind} ${job.creator_username ?? `source ${job.source_id}`} (attempt ${job.attempts}/${job.max_attempts}${resuming ? ', resuming' : ''})`);
+
+    const controller = new AbortController();
+    const abortIfCancelled = async () => {
+      if (!controller.signal.aborted && await isJobCancelled(job)) {
+        console.log(`🛑 Job ${job.id} was cancelled, stopping`);
+        controller.abort();
+      }
+    };
+    const heartbeat = setInterval(() => {
+      updateJob(job, { heartbeat_at: new Date().toISOString() });
+    }, HEARTBEAT_INTERVAL_MS);
+    const cancelPoll = setInterval(abortIfCancelled, CANCEL_POLL_INTERVAL_MS);
+
+    // Persist the cursor after every page so a crash can resume from it
+    // Saved post IDs accumulate across attempts, a resumed run starts its own list
+    // Writes are chained so they land in order, and the job only finishes once the last one (with the
+    // reconcile summary and new post IDs) has landed
+    let progressWrites: Promise<void> = Promise.resolve();
+    const onProgress = (progress: SyncProgress) => {
+      if (progress.status === 'error') return;
+      // Every page boundary checks for a cancel too, so no further page is fetched after one
+      progressWrites = progressWrites.then(abortIfCancelled).then(() => updateJob(job, {
+        ...(progress.status === 'syncing' && {
+          cursor: progress.cursor ?? null,
+          pages_fetched: progress.currentPage,
+          total_posts: progress.totalPosts,
+          total_images: progress.totalImages
+        }),
+        new_post_ids: Array.from(new Set([...(job.new_post_ids || []), ...(progress.newPostIds || [])])),
+        ...(progress.reconcile && { reconcile_summary: progress.reconcile }),
+        heartbeat_at: new Date().toISOString()
+      }));
+    };
+
+    try {
+      if (job.source_id) {
+        if (!(await isOwnSource(job))) {
+          await updateJob(job, { status: 'failed', error: `Source ${job.source_id} is not followed by this user`, finished_at: new Date().toISOString() });
+          console.error(`❌ Job ${job.id} names source ${job.source_id}, which user ${job.user_id} doesn't follow`);
+          return;
+        }
+        await syncSource(job.source_id, onProgress, {
+          startCursor: resuming ? job.cursor : null,
+          signal: controller.signal
+        });
+      } else if (job.kind === 'check' && !resuming) {
+        await checkAndSyncCreator(job.creator_username!, job.user_id, onProgress, controller.signal);
+      } else {
+        await syncCreator(job.creator_username!, onProgress, {
+          userId: job.user_id,
+          fullBackfill: job.full_backfill,
+          startCursor: resuming ? job.cursor : null,
+          signal: controller.signal,
+          reconcile: job.kind === 'reconcile'
+        });
+      }
+
+      await progressWrites;
+      await updateJob(job, { status: 'completed', error: null, finished_at: new Date().toISOString() });
+      console.log(`✅ Job ${job.id} completed`);
+    } catch (error) {
+      // A retry resumes from the last cursor written
+      await progressWrites;
+      const message = describeSyncError(error);
+      const category = classifySyncError(error);
+      const retryAt = getNextSyncAttempt(category, job.attempts);
+
+      if (category === 'cancelled') {
+        await updateJob(job, { status: 'cancelled', finished_at: new Date().toISOString() });
+        console.log(`🛑 Job ${job.id} cancelled`);
+      } else if (retryAt && job.attempts < job.max_attempts) {
+        // Put it back on the queue, keeping the cursor so the retry resumes once the backoff has passed
+        await updateJob(job, { status: 'queued', error: message, locked_by: null, run_after: retryAt.toISOString() });
+        console.warn(`⚠️  Job ${job.id} failed (${category}: ${message}), retrying at ${retryAt.toISOString()}`);
+      } else {
+        await updateJob(job, { status: 'failed', error: message, finished_at: new Date().toISOString() });
+        console.error(`❌ Job ${job.id} failed after ${job.attempts} attempts (${category}): ${message}`);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      clearInterval(cancelPoll);
+    }
+  }
+
+  /**
+   * Settings shows this state when Civitai throttles syncs
+   * Unchanged state is only re-published as a heartbeat, which keeps the row from looking stale
+   */
+  async function publishRateLimiterState(): Promise<void> {
+    const state = getRateLimiter().getState();
+    if (state === publishedRateLimit && Date.now() - publishedRateLimitAt < HEARTBEAT_INTERVAL_MS) return;
+
+    const { error } = await db
+      .from('sync_workers')
+      .upsert({ worker_id: workerId, rate_limit: state, updated_at: new Date().toISOString() });
+
+    if (error) {
+      console.error('❌ Error publishing rate limiter state:', error);
+      return;
+    }
+
+    publishedRateLimit = state;
+    publishedRateLimitAt = Date.now();
+  }
+
+  /**
+   * A stopped worker's limiter state isn't shown
+   */
+  async function unpublishWorker(): Promise<void> {
+    const { error } = await db
+      .from('sync_workers')
+      .delete()
+      .eq('worker_id', workerId);
+
+    if (error) {
+      console.error('❌ Error removing worker status:', error);
+    }
+  }
+
+  return { claimJob, runJob, publishRateLimiterState, unpublishWorker };
+}
@@ -0,0 +1,110 @@
+// Server-side sync worker
+// Claims jobs from the sync_jobs table and runs them with the same logic the app used to run in the tab.
+// 'check' jobs sync only if the creator has new posts, 'sync' jobs always sync, and
+// 'reconcile' jobs also flag posts and images that were deleted on Civitai.
+// Jobs for a followed source (model, model version, collection) sync its newest images.
+//
+// Usage: npm run worker
+// Environment:
+//   SUPABASE_URL               - Supabase project URL (default: VITE_SUPABASE_URL)
+//   SUPABASE_SERVICE_ROLE_KEY  - Service role key, the worker syncs for every user
+//   SYNC_WORKER_ID             - Name recorded on claimed jobs (default: hostname-pid)
+//   SYNC_POLL_INTERVAL_MS      - Delay between polls when the queue is empty (default: 10000)
+//   SYNC_CONCURRENCY           - Jobs run at once, sharing one Civitai rate limiter (default: 3)
+//   VITE_CIVITAI_API_BASE      - Civitai API base URL, read at build time (e.g. a local stub)
+//   CIVITAI_API_BASE           - Civitai API base URL at runtime, overrides VITE_CIVITAI_API_BASE
+//                                (e.g. http://localhost:4010/api/v1 for npm run mock-civitai)
+//   CIVITAI_REQUESTS_PER_SECOND - Rate limit for Civitai requests (default: one every 3 seconds)
+import { hostname } from 'node:os';
+import { createClient } from '@supabase/supabase-js';
+import { setCivitaiApiBase, setRateLimiter, createTokenBucketLimiter } from '../src/lib/civitai';
+import { setSyncClient } from '../src/lib/sync';
+import { createSyncJobRunner } from './syncJobRunner';
+
+// How often the limiter state is published for Settings (sync_workers), when it changed or a heartbeat is due
+const RATE_LIMIT_PUBLISH_INTERVAL_MS = 5000;
+
+const supabaseUrl = process.env.SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const workerId = process.env.SYNC_WORKER_ID || `${hostname()}-${process.pid}`;
+const pollIntervalMs = Number(process.env.SYNC_POLL_INTERVAL_MS) || 10000;
+const concurrency = Math.max(1, Number(process.env.SYNC_CONCURRENCY) || 3);
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('❌ SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const db = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+setSyncClient(db);
+const runner = createSyncJobRunner(db, workerId);
+
+if (process.env.CIVITAI_API_BASE) {
+  setCivitaiApiBase(process.env.CIVITAI_API_BASE);
+  console.log(`🌐 Using Civitai API at ${process.env.CIVITAI_API_BASE}`);
+}
+
+const requestsPerSecond = Number(process.env.CIVITAI_REQUESTS_PER_SECOND);
+if (requestsPerSecond > 0) {
+  setRateLimiter(createTokenBucketLimiter(Math.max(5, Math.ceil(requestsPerSecond)), requestsPerSecond));
+}
+
+let running = true;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Claim and run jobs one after another until the worker is stopped
+ */
+async function runSlot(): Promise<void> {
+  while (running) {
+    const job = await runner.claimJob();
+
+    if (!job) {
+      await sleep(pollIntervalMs);
+      continue;
+    }
+
+    await runner.runJob(job);
+  }
+}
+
+async function main(): Promise<void> {
+  console.log(`🚀 Sync worker ${workerId} started (${concurrency} jobs at a time)`);
+
+  await runner.publishRateLimiterState();
+  const rateLimitPublisher = setInterval(runner.publishRateLimiterState, RATE_LIMIT_PUBLISH_INTERVAL_MS);
+
+  // Every slot goes through the same rate limiter, so more slots don't mean more Civitai requests per second
+  try {
+    await Promise.all(Array.from({ length: concurrency }, () => runSlot()));
+  } finally {
+    clearInterval(rateLimitPublisher);
+    await runner.unpublishWorker();
+  }
+
+  console.log(`👋 Sync worker ${workerId} stopped`);
+}
+
+// Finish the current jobs before exiting; a second signal exits immediately
+// (the job is then reclaimed once its heartbeat goes stale)
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    if (!running) process.exit(1);
+    console.log(`⏹️  ${signal} received, stopping after the current jobs...`);
+    running = false;
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Sync worker crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,345 @@
+// Supabase client stand-in for the sync tests, running queries on an in-process Postgres (PGlite)
+// Covers the part of the supabase-js query builder the sync code uses, translated to SQL the way
+// PostgREST does it; anything else throws so a test can't silently pass on an unsupported query.
+import type { PGlite } from '@electric-sql/pglite';
+import type { SupabaseClient, PostgrestError } from '@supabase/supabase-js';
+
+type Row = Record<string, unknown>;
+
+interface Filter {
+  column: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'is' | 'not.is';
+  value: unknown;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: PostgrestError | null;
+  count: number | null;
+}
+
+const COMPARISONS: Record<string, string> = { eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * The error supabase-js returns for a failed query
+ */
+function toPostgrestError(error: unknown): PostgrestError {
+  const { message, code, detail, hint } = error as { message?: string; code?: string; detail?: string; hint?: string };
+  return { message: message ?? String(error), code: code ?? '', details: detail ?? '', hint: hint ?? '' };
+}
+
+/**
+ * Split a select list on its top-level commas, e.g. 'post_id, images(count)'
+ */
+function splitColumns(columns: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of columns.replace(/\s+/g, '')) {
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  if (current) items.push(current);
+  return items;
+}
+
+/**
+ * Create a client that runs every query on a PGlite database
+ * Queries run as the database owner, like the worker's service role key, so RLS doesn't apply
+ * @param pg - Database with the schema already migrated
+ * @param user - What auth.getUser() returns
+ */
+export function createPgliteClient(pg: PGlite, user: { id: string } | null = null): SupabaseClient {
+  const foreignKeys = new Map<string, { childColumn: string; parentColumn: string }>();
+  const primaryKeys = new Map<string, string[]>();
+
+  async function run(sql: string, params: unknown[]): Promise<Row[]> {
+    const result = await pg.query<Row>(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * The foreign key an embedded table (child) references the queried table (parent) with
+   */
+  async function getForeignKey(child: string, parent: string) {
+    const key = `${child}->${parent}`;
+    if (!foreignKeys.has(key)) {
+      const rows = await run(
+        `SELECT a.attname AS child_column, af.attname AS parent_column
+         FROM pg_constraint c
+         JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+         JOIN pg_attribute af ON af.attrelid = c.confrelid AND af.attnum = c.confkey[1]
+         WHERE c.contype = 'f' AND c.conrelid = $1::text::regclass AND c.confrelid = $2::text::regclass`,
+        [child, parent]
+      );
+      if (rows.length !== 1) {
+        throw new Error(`Can't embed ${child} in ${parent}: ${rows.length} foreign keys between them`);
+      }
+      foreignKeys.set(key, { childColumn: String(rows[0].child_column), parentColumn: String(rows[0].parent_column) });
+    }
+    return foreignKeys.get(key)!;
+  }
+
+  async function getPrimaryKey(table: string): Promise<string[]> {
+    if (!primaryKeys.has(table)) {
+      const rows = await run(
+        `SELECT a.attname FROM pg_index i
+         JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+         WHERE i.indrelid = $1::text::regclass AND i.indisprimary`,
+        [table]
+      );
+      primaryKeys.set(table, rows.map(row => String(row.attname)));
+    }
+    return primaryKeys.get(table)!;
+  }
+
+  /**
+   * SQL for a select list, with embedded tables as JSON arrays like PostgREST returns them
+   */
+  async function toProjection(table: string, alias: string, columns: string): Promise<string> {
+    const items = await Promise.all(splitColumns(columns).map(async item => {
+      if (item === '*') return `${alias}.*`;
+
+      const embed = item.match(/^(\w+)\(([\w,]+)\)$/);
+      if (!embed) {
+        if (!/^\w+$/.test(item)) throw new Error(`Unsupported select item "${item}"`);
+        return `${alias}.${quote(item)}`;
+      }
+
+      const [, child, childColumns] = embed;
+      const { childColumn, parentColumn } = await getForeignKey(child, table);
+      const join = `FROM ${quote(child)} e WHERE e.${quote(childColumn)} = ${alias}.${quote(parentColumn)}`;
+      if (childColumns === 'count') {
+        return `json_build_array(json_build_object('count', (SELECT count(*) ${join}))) AS ${quote(child)}`;
+      }
+      const fields = childColumns.split(',').map(column => `'${column}', e.${quote(column)}`).join(', ');
+      return `COALESCE((SELECT json_agg(json_build_object(${fields})) ${join}), '[]'::json) AS ${quote(child)}`;
+    }));
+    return items.join(', ');
+  }
+
+  function toWhere(filters: Filter[], params: unknown[]): string {
+    if (filters.length === 0) return '';
+
+    const conditions = filters.map(({ column, operator, value }) => {
+      const target = `t.${quote(column)}`;
+      if (operator === 'is' || operator === 'not.is') {
+        const test = value === null ? 'NULL' : value ? 'TRUE' : 'FALSE';
+        return `${target} IS ${operator === 'not.is' ? 'NOT ' : ''}${test}`;
+      }
+      params.push(value);
+      return operator === 'in' ? `${target} = ANY($${params.length})` : `${target} ${COMPARISONS[operator]} $${params.length}`;
+    });
+    return ` WHERE ${conditions.join(' AND ')}`;
+  }
+
+  function from(table: string) {
+    let action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+    let columns = '*';
+    let returning: string | null = null;
+    let countRows = false;
+    let head = false;
+    let values: Row | Row[] = [];
+    let onConflict: string | null = null;
+    let ignoreDuplicates = false;
+    let expect: 'many' | 'single' | 'maybeSingle' = 'many';
+    let limit: number | null = null;
+    let offset = 0;
+    const filters: Filter[] = [];
+    const orders: string[] = [];
+    const t = quote(table);
+
+    async function toMutation(params: unknown[]): Promise<string> {
+      const rows = Array.isArray(values) ? values : [values];
+      const names = Array.from(new Set(rows.flatMap(row => Object.keys(row)))).map(quote);
+
+      if (action === 'update') {
+        params.push(rows[0]);
+        return `UPDATE ${t} AS t SET ${names.map(name => `${name} = v.${name}`).join(', ')}
+          FROM jsonb_populate_record(NULL::${t}, $1::jsonb) AS v${toWhere(filters, params)}`;
+      }
+      if (action === 'delete') {
+        return `DELETE FROM ${t} AS t${toWhere(filters, params)}`;
+      }
+
+      params.push(rows);
+      const insert = `INSERT INTO ${t} AS t (${names.join(', ')})
+        SELECT ${names.join(', ')} FROM jsonb_populate_recordset(NULL::${t}, $1::jsonb)`;
+      if (action === 'insert') return insert;
+
+      const target = (onConflict ? onConflict.split(',').map(column => column.trim()) : await getPrimaryKey(table)).map(quote);
+      return ignoreDuplicates
+        ? `${insert} ON CONFLICT (${target.join(', ')}) DO NOTHING`
+        : `${insert} ON CONFLICT (${target.join(', ')}) DO UPDATE SET ${names.map(name => `${name} = EXCLUDED.${name}`).join(', ')}`;
+    }
+
+    async function execute(): Promise<QueryResult> {
+      try {
+        const params: unknown[] = [];
+        let rows: Row[] | null = null;
+        let count: number | null = null;
+
+        if (action === 'select') {
+          const where = toWhere(filters, params);
+          if (countRows) {
+            const [{ count: total }] = await run(`SELECT count(*)::int AS count FROM ${t} AS t${where}`, params);
+            count = Number(total);
+          }
+          if (!head) {
+            const order = orders.length > 0 ? ` ORDER BY ${orders.join(', ')}` : '';
+            const page = `${limit !== null ? ` LIMIT ${limit}` : ''}${offset ? ` OFFSET ${offset}` : ''}`;
+            const query = `SELECT ${await toProjection(table, 't', columns)} FROM ${t} AS t${where}${order}${page}`;
+            const [{ data }] = await run(`SELECT COALESCE(json_agg(q), '[]'::json) AS data FROM (${query}) q`, params);
+            rows = data as Row[];
+          }
+        } else {
+          const mutation = await toMutation(params);
+          if (returning === null) {
+            await run(mutation, params);
+          } else {
+            const projection = await toProjection(table, 'm', returning);
+            const [{ data }] = await run(
+              `WITH m AS (${mutation} RETURNING t.*) SELECT COALESCE(json_agg(q), '[]'::json) AS data FROM (SELECT ${projection} FROM m) q`,
+              params
+            );
+            rows = data as Row[];
+          }
+        }
+
+        if (expect === 'many' || rows === null) {
+          return { data: rows, error: null, count };
+        }
+        if (rows.length > 1 || (rows.length === 0 && expect === 'single')) {
+          const error = { message: `JSON object requested, ${rows.length} rows returned`, code: 'PGRST116', details: '', hint: '' };
+          return { data: null, error: toPostgrestError(error), count };
+        }
+        return { data: rows[0] ?? null, error: null, count };
+      } catch (error) {
+        return { data: null, error: toPostgrestError(error), count: null };
+      }
+    }
+
+    const builder = {
+      select(selectColumns = '*', options: { count?: 'exact'; head?: boolean } = {}) {
+        if (action === 'select') {
+          columns = selectColumns;
+          countRows = options.count === 'exact';
+          head = !!options.head;
+        } else {
+          returning = selectColumns;
+        }
+        return builder;
+      },
+      insert(rows: Row | Row[]) {
+        action = 'insert';
+        values = rows;
+        return builder;
+      },
+      upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+        action = 'upsert';
+        values = rows;
+        onConflict = options.onConflict ?? null;
+        ignoreDuplicates = !!options.ignoreDuplicates;
+        return builder;
+      },
+      update(row: Row) {
+        action = 'update';
+        values = row;
+        return builder;
+      },
+      delete() {
+        action = 'delete';
+        return builder;
+      },
+      eq: (column: string, value: unknown) => addFilter(column, 'eq', value),
+      neq: (column: string, value: unknown) => addFilter(column, 'neq', value),
+      gt: (column: string, value: unknown) => addFilter(column, 'gt', value),
+      gte: (column: string, value: unknown) => addFilter(column, 'gte', value),
+      lt: (column: string, value: unknown) => addFilter(column, 'lt', value),
+      lte: (column: string, value: unknown) => addFilter(column, 'lte', value),
+      in: (column: string, value: unknown[]) => addFilter(column, 'in', value),
+      is: (column: string, value: boolean | null) => addFilter(column, 'is', value),
+      not(column: string, operator: string, value: unknown) {
+        if (operator !== 'is') throw new Error(`Unsupported filter not.${operator}`);
+        return addFilter(column, 'not.is', value);
+      },
+      order(column: string, options: { ascending?: boolean } = {}) {
+        orders.push(`t.${quote(column)} ${options.ascending === false ? 'DESC' : 'ASC'}`);
+        return builder;
+      },
+      limit(count: number) {
+        limit = count;
+        return builder;
+      },
+      range(fromIndex: number, toIndex: number) {
+        offset = fromIndex;
+        limit = toIndex - fromIndex + 1;
+        return builder;
+      },
+      single() {
+        expect = 'single';
+        return builder;
+      },
+      maybeSingle() {
+        expect = 'maybeSingle';
+        return builder;
+      },
+      then<TResult1 = QueryResult, TResult2 = never>(
+        onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+      ): Promise<TResult1 | TResult2> {
+        return execute().then(onfulfilled, onrejected);
+      }
+    };
+
+    function addFilter(column: string, operator: Filter['operator'], value: unknown) {
+      filters.push({ column, operator, value });
+      return builder;
+    }
+
+    return builder;
+  }
+
+  /**
+   * Call a function with named arguments, like POST /rpc/{name}
+   */
+  async function rpc(name: string, args: Row = {}): Promise<QueryResult> {
+    try {
+      const [fn] = await run(
+        `SELECT p.proretset AS returns_set, p.prorettype::regtype::text AS return_type
+         FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+         WHERE n.nspname = 'public' AND p.proname = $1`,
+        [name]
+      );
+      if (!fn) throw new Error(`Function public.${name} not found`);
+
+      const params = Object.values(args);
+      const call = `public.${quote(name)}(${Object.keys(args).map((arg, index) => `${quote(arg)} => $${index + 1}`).join(', ')})`;
+
+      if (fn.return_type === 'void') {
+        await run(`SELECT ${call}`, params);
+        return { data: null, error: null, count: null };
+      }
+      const [{ data }] = fn.returns_set
+        ? await run(`SELECT COALESCE(json_agg(r), '[]'::json) AS data FROM ${call} r`, params)
+        : await run(`SELECT to_json(${call}) AS data`, params);
+      return { data, error: null, count: null };
+    } catch (error) {
+      return { data: null, error: toPostgrestError(error), count: null };
+    }
+  }
+
+  const auth = {
+    getUser: async () => ({ data: { user }, error: null })
+  };
+
+  return { from, rpc, auth } as unknown as SupabaseClient;
+}
@@ -0,0 +1,302 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTokenBucketLimiter, setCivitaiApiBase, setRateLimiter } from '../../src/lib/civitai';
+import { setSyncClient, syncCreator } from '../../src/lib/sync';
+import { startMockCivitai, type MockCivitai } from '../mockCivitaiServer';
+import { createPgliteClient } from './pgliteClient';
+import { createTestDatabase, type TestDatabase } from './testDatabase';
+
+// mock_artist's listing in the fixtures: 9 posts, 23 images, so 5 pages of 5 images
+const USERNAME = 'mock_artist';
+const PAGE_SIZE = 5;
+const LISTED_POSTS = 9;
+
+let db: TestDatabase;
+let mock: MockCivitai;
+
+async function mockControl(path: string, body?: object): Promise<Record<string, unknown>> {
+  const res = await fetch(new URL(`/__mock/${path}`, mock.apiBase), { method: 'POST', body: JSON.stringify(body ?? {}) });
+  return res.json();
+}
+
+async function query<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+  const { rows } = await db.pg.query<T>(sql, params);
+  return rows;
+}
+
+async function getCreator() {
+  const [creator] = await query<Record<string, unknown>>(`SELECT * FROM creators WHERE username = $1`, [USERNAME]);
+  return creator;
+}
+
+async function getLastRun() {
+  const [run] = await query<Record<string, unknown>>(`SELECT * FROM sync_runs ORDER BY id DESC LIMIT 1`);
+  return run;
+}
+
+// One-image posts, newer than every fixture post, so the listing is longer than a sync's request cap
+async function publishPosts(count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await mockControl('publish', { username: USERNAME, imageCount: 1 });
+  }
+}
+
+async function countPosts(): Promise<number> {
+  const [{ count }] = await query<{ count: number }>(`SELECT count(*)::int AS count FROM posts WHERE creator_username = $1`, [USERNAME]);
+  return count;
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  db = await createTestDatabase();
+  mock = await startMockCivitai({ port: 0, maxPageSize: PAGE_SIZE });
+  setCivitaiApiBase(mock.apiBase);
+  setRateLimiter(createTokenBucketLimiter(100, 100));
+  setSyncClient(createPgliteClient(db.pg, { id: db.userId }));
+}, 60000);
+
+afterAll(async () => {
+  await mock?.close();
+  await db?.close();
+  vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  await db.reset();
+  await mockControl('reset');
+  await query(`INSERT INTO creators (username, user_id) VALUES ($1, $2)`, [USERNAME, db.userId]);
+});
+
+describe('syncCreator', () => {
+  it('walks the whole history on an initial sync', async () => {
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+
+    expect(mock.requests).toHaveLength(5);
+    expect(await countPosts()).toBe(LISTED_POSTS);
+
+    const creator = await getCreator();
+    expect(creator.sync_status).toBe('completed');
+    expect(creator.total_posts).toBe(LISTED_POSTS);
+    expect(creator.head_post_id).toBe(14200261);
+    expect(creator.tail_cursor).toBeNull();
+    expect(creator.backfill_completed_at).not.toBeNull();
+
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('end_of_feed');
+    expect(run.requests).toBe(5);
+    expect(run.new_posts).toBe(LISTED_POSTS);
+  });
+
+  it('stops at the newest post of the last sync when catching up', async () => {
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+    const { postId } = await mockControl('publish', { username: USERNAME, imageCount: 2 });
+    mock.requests.length = 0;
+
+    let newPostIds: number[] = [];
+    await syncCreator(USERNAME, progress => { newPostIds = progress.newPostIds ?? newPostIds; }, { userId: db.userId });
+
+    // The new post's page, then the page that reaches the old head
+    expect(mock.requests).toHaveLength(2);
+    expect(newPostIds).toEqual([postId]);
+    expect(await countPosts()).toBe(LISTED_POSTS + 1);
+
+    const creator = await getCreator();
+    expect(creator.head_post_id).toBe(postId);
+
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('caught_up');
+    expect(run.new_posts).toBe(1);
+  });
+
+  it('stops after the first page when nothing is new', async () => {
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+    mock.requests.length = 0;
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+
+    expect(mock.requests).toHaveLength(1);
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('caught_up');
+    expect(run.new_posts).toBe(0);
+  });
+
+  it('stops after two pages of saved posts when there is no head to stop at', async () => {
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+    await query(`UPDATE creators SET head_post_id = NULL WHERE username = $1`, [USERNAME]);
+    mock.requests.length = 0;
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+
+    expect(mock.requests).toHaveLength(2);
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('caught_up');
+    expect(run.new_posts).toBe(0);
+
+    // Catching up records the head again
+    const creator = await getCreator();
+    expect(creator.head_post_id).toBe(14200261);
+  });
+
+  it('saves the images of a saved post that has none', async () => {
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+    await query(`DELETE FROM images WHERE post_id = 14200237`);
+    mock.requests.length = 0;
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+
+    // The post is on the first page, which also reaches the head
+    expect(mock.requests).toHaveLength(1);
+    const images = await query<{ image_id: number }>(`SELECT image_id FROM images WHERE post_id = 14200237`);
+    expect(images).toEqual([{ image_id: 52000109 }]);
+
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('caught_up');
+    expect(run.new_posts).toBe(1);
+  });
+
+  it('saves the tail and stops at the request cap', async () => {
+    await publishPosts(250);
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+
+    // 50 pages of published posts; the fixture posts start at image 52000126
+    expect(mock.requests).toHaveLength(50);
+    const creator = await getCreator();
+    expect(creator.tail_cursor).toBe('52000126');
+    expect(creator.backfill_images).toBe(250);
+    expect(creator.backfill_total_images).toBe(273);
+    expect(creator.backfill_completed_at).toBeNull();
+
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('max_requests');
+    expect(run.requests).toBe(50);
+  }, 60000);
+
+  it('continues a backfill that hit the request cap from its tail', async () => {
+    await publishPosts(250);
+    const controller = new AbortController();
+    await expect(syncCreator(USERNAME, progress => {
+      if (progress.currentPage === 2) controller.abort();
+    }, { userId: db.userId, signal: controller.signal })).rejects.toThrow('SYNC_CANCELLED');
+    mock.requests.length = 0;
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId, fullBackfill: true });
+
+    // 2 pages to catch up at the head (the cancelled sync recorded none), then 48 pages of the tail
+    expect(mock.requests).toHaveLength(50);
+    let creator = await getCreator();
+    expect(creator.tail_cursor).toBe('52000126');
+    expect(creator.backfill_images).toBe(250);
+    expect(creator.backfill_completed_at).toBeNull();
+    expect((await getLastRun()).stop_reason).toBe('max_requests');
+    mock.requests.length = 0;
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId, fullBackfill: true });
+
+    // The first page reaches the head the last backfill caught up to, then the 5 fixture pages
+    expect(mock.requests).toHaveLength(6);
+    expect(mock.requests[1]).toContain('cursor=52000126');
+    expect(await countPosts()).toBe(250 + LISTED_POSTS);
+    creator = await getCreator();
+    expect(creator.tail_cursor).toBeNull();
+    expect(creator.backfill_completed_at).not.toBeNull();
+    expect((await getLastRun()).stop_reason).toBe('end_of_feed');
+  }, 60000);
+
+  it('saves the cursor of the last page and stops when cancelled', async () => {
+    const controller = new AbortController();
+    const onProgress = vi.fn((progress: { currentPage: number }) => {
+      if (progress.currentPage === 2) controller.abort();
+    });
+
+    await expect(syncCreator(USERNAME, onProgress, { userId: db.userId, signal: controller.signal }))
+      .rejects.toThrow('SYNC_CANCELLED');
+
+    // No page is fetched after the cancel
+    expect(mock.requests).toHaveLength(2);
+
+    const creator = await getCreator();
+    expect(creator.sync_status).toBe('completed');
+    expect(creator.last_cursor).toBe('52000084');
+    expect(creator.tail_cursor).toBe('52000084');
+    expect(creator.backfill_images).toBe(2 * PAGE_SIZE);
+    expect(creator.backfill_total_images).toBe(23);
+    expect(creator.backfill_completed_at).toBeNull();
+    expect(creator.last_synced_at).toBeNull();
+
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('cancelled');
+    expect(run.pages).toBe(2);
+  });
+
+  it('resumes an interrupted history walk from the saved tail', async () => {
+    const controller = new AbortController();
+    await expect(syncCreator(USERNAME, progress => {
+      if (progress.currentPage === 2) controller.abort();
+    }, { userId: db.userId, signal: controller.signal })).rejects.toThrow('SYNC_CANCELLED');
+    mock.requests.length = 0;
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId, fullBackfill: true });
+
+    // Catches up at the head (2 pages already saved), then jumps to the tail instead of walking the saved pages again
+    expect(mock.requests).toHaveLength(5);
+    expect(mock.requests[0]).not.toContain('cursor=');
+    expect(mock.requests[2]).toContain('cursor=52000084');
+    expect(await countPosts()).toBe(LISTED_POSTS);
+
+    const creator = await getCreator();
+    expect(creator.tail_cursor).toBeNull();
+    expect(creator.backfill_completed_at).not.toBeNull();
+
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('end_of_feed');
+  });
+
+  it('saves the rest of a page when one post hits a duplicate key', async () => {
+    // Another row already has the Civitai ID of one of post 14200237's images (unique on site, external_id)
+    await query(`INSERT INTO posts (post_id, creator_username) VALUES (1, 'someone_else')`);
+    await query(`INSERT INTO images (image_id, post_id, url, external_id) VALUES (1, 1, 'https://example.com/1.jpeg', '52000109')`);
+
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+
+    expect(await countPosts()).toBe(LISTED_POSTS);
+    const images = await query<{ post_id: number; count: number }>(
+      `SELECT post_id, count(*)::int AS count FROM images WHERE post_id IN (14200261, 14200237) GROUP BY post_id`
+    );
+    expect(images).toEqual([{ post_id: 14200261, count: 4 }]);
+
+    const run = await getLastRun();
+    expect(run.stop_reason).toBe('end_of_feed');
+  });
+
+  it('corrects image_count when a post\'s images fail to save', async () => {
+    await query(`ALTER TABLE images ADD CONSTRAINT images_test_reject CHECK (image_id <> 52000099)`);
+    try {
+      await syncCreator(USERNAME, undefined, { userId: db.userId });
+    } finally {
+      await query(`ALTER TABLE images DROP CONSTRAINT images_test_reject`);
+    }
+
+    const posts = await query<{ post_id: number; image_count: number }>(
+      `SELECT post_id, image_count FROM posts WHERE post_id IN (14200183, 14200219) ORDER BY post_id`
+    );
+    expect(posts).toEqual([
+      { post_id: 14200183, image_count: 0 },
+      { post_id: 14200219, image_count: 1 }
+    ]);
+  });
+});
+
+describe('refresh_post_stats', () => {
+  it('zeroes the counts of a post whose images were all removed upstream', async () => {
+    await syncCreator(USERNAME, undefined, { userId: db.userId });
+    await query(`UPDATE images SET removed_upstream = TRUE WHERE post_id = 14200237`);
+
+    await query(`SELECT refresh_post_stats(ARRAY[14200237, 14200261]::BIGINT[])`);
+
+    const posts = await query<{ post_id: number; like_count: number; reaction_count: number }>(
+      `SELECT post_id, like_count, reaction_count FROM posts WHERE post_id IN (14200237, 14200261) ORDER BY post_id`
+    );
+    expect(posts[0]).toEqual({ post_id: 14200237, like_count: 0, reaction_count: 0 });
+    expect(posts[1].reaction_count).toBeGreaterThan(0);
+  });
+});
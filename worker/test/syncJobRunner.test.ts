@@ -0,0 +1,203 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTokenBucketLimiter, setCivitaiApiBase, setRateLimiter } from '../../src/lib/civitai';
+import { setSyncClient } from '../../src/lib/sync';
+import { startMockCivitai, type MockCivitai } from '../mockCivitaiServer';
+import { createSyncJobRunner, type SyncJobRunner } from '../syncJobRunner';
+import { createPgliteClient } from './pgliteClient';
+import { createTestDatabase, type TestDatabase } from './testDatabase';
+
+const USERNAME = 'mock_artist';
+const WORKER_ID = 'worker-a';
+
+let db: TestDatabase;
+let mock: MockCivitai;
+let runner: SyncJobRunner;
+
+async function query<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+  const { rows } = await db.pg.query<T>(sql, params);
+  return rows;
+}
+
+/**
+ * Insert a sync job (for mock_artist unless fields say otherwise), returning its id
+ * @param fields - Columns to set, values are SQL expressions
+ */
+async function insertJob(fields: Record<string, string> = {}): Promise<number> {
+  const columns = { user_id: `'${db.userId}'`, creator_username: `'${USERNAME}'`, kind: `'sync'`, ...fields };
+  const [{ id }] = await query<{ id: number }>(
+    `INSERT INTO sync_jobs (${Object.keys(columns).join(', ')}) VALUES (${Object.values(columns).join(', ')}) RETURNING id`
+  );
+  return id;
+}
+
+async function getJob(id: number) {
+  const [job] = await query<Record<string, unknown>>(`SELECT * FROM sync_jobs WHERE id = $1`, [id]);
+  return job;
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  db = await createTestDatabase();
+  mock = await startMockCivitai({ port: 0, maxPageSize: 5 });
+  setCivitaiApiBase(mock.apiBase);
+  setRateLimiter(createTokenBucketLimiter(100, 100));
+
+  const client = createPgliteClient(db.pg);
+  setSyncClient(client);
+  runner = createSyncJobRunner(client, WORKER_ID);
+}, 60000);
+
+afterAll(async () => {
+  await mock?.close();
+  await db?.close();
+  vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  await db.reset();
+  await fetch(new URL('/__mock/reset', mock.apiBase), { method: 'POST' });
+  await query(`INSERT INTO creators (username, user_id) VALUES ($1, $2)`, [USERNAME, db.userId]);
+});
+
+describe('claim_sync_job', () => {
+  it('claims queued jobs oldest first, skipping ones that are held or waiting out a backoff', async () => {
+    // A creator has one active job at a time
+    await insertJob({ creator_username: `'creator_a'`, created_at: `NOW() - INTERVAL '3 minutes'`, run_after: `NOW() + INTERVAL '1 hour'` });
+    await insertJob({ creator_username: `'creator_b'`, created_at: `NOW() - INTERVAL '3 minutes'`, status: `'running'`, locked_by: `'worker-b'`, heartbeat_at: 'NOW()' });
+    const older = await insertJob({ creator_username: `'creator_c'`, created_at: `NOW() - INTERVAL '1 minute'` });
+    const newer = await insertJob();
+
+    const claimed = await runner.claimJob();
+    expect(claimed).toMatchObject({ id: older, status: 'running', locked_by: WORKER_ID, attempts: 1 });
+    expect(claimed?.started_at).not.toBeNull();
+
+    expect((await runner.claimJob())?.id).toBe(newer);
+    expect(await runner.claimJob()).toBeNull();
+  });
+
+  it('reclaims a running job whose worker stopped heartbeating', async () => {
+    const id = await insertJob({
+      status: `'running'`,
+      locked_by: `'worker-b'`,
+      attempts: '1',
+      heartbeat_at: `NOW() - INTERVAL '5 minutes'`
+    });
+
+    const claimed = await runner.claimJob();
+    expect(claimed).toMatchObject({ id, status: 'running', locked_by: WORKER_ID, attempts: 2 });
+    expect(new Date(claimed!.heartbeat_at!).getTime()).toBeGreaterThan(Date.now() - 60000);
+  });
+
+  it('fails a stale job that has used up its attempts instead of claiming it', async () => {
+    const id = await insertJob({
+      status: `'running'`,
+      locked_by: `'worker-b'`,
+      attempts: '5',
+      max_attempts: '5',
+      heartbeat_at: `NOW() - INTERVAL '5 minutes'`
+    });
+
+    expect(await runner.claimJob()).toBeNull();
+
+    const job = await getJob(id);
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Worker stopped heartbeating after 5 attempts');
+    expect(job.finished_at).not.toBeNull();
+  });
+});
+
+describe('runJob', () => {
+  it('resumes a reclaimed job from its saved cursor', async () => {
+    // A worker crashed after saving 2 of mock_artist's 5 pages
+    const id = await insertJob({
+      status: `'running'`,
+      locked_by: `'worker-b'`,
+      attempts: '1',
+      cursor: `'52000084'`,
+      pages_fetched: '2',
+      heartbeat_at: `NOW() - INTERVAL '5 minutes'`
+    });
+
+    const job = await runner.claimJob();
+    expect(job?.id).toBe(id);
+    await runner.runJob(job!);
+
+    // Only the 3 pages after the cursor are fetched
+    expect(mock.requests).toHaveLength(3);
+    expect(mock.requests[0]).toContain('cursor=52000084');
+
+    const finished = await getJob(id);
+    expect(finished.status).toBe('completed');
+    expect(finished.pages_fetched).toBe(3);
+    expect(finished.new_post_ids).toHaveLength(5);
+  });
+
+  it('fails a source job whose source another user follows, without syncing it', async () => {
+    const otherUserId = await db.createUser();
+    const [{ id: sourceId }] = await query<{ id: number }>(
+      `INSERT INTO sources (user_id, type, civitai_id) VALUES ($1, 'model', 9100) RETURNING id`, [otherUserId]
+    );
+    const id = await insertJob({ creator_username: 'NULL', source_id: String(sourceId) });
+
+    await runner.runJob((await runner.claimJob())!);
+
+    expect(mock.requests).toHaveLength(0);
+    const job = await getJob(id);
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe(`Source ${sourceId} is not followed by this user`);
+  });
+
+  it('leaves a job the user cancelled cancelled', async () => {
+    const id = await insertJob();
+    const job = await runner.claimJob();
+    await query(`UPDATE sync_jobs SET status = 'cancelled' WHERE id = $1`, [id]);
+
+    await runner.runJob(job!);
+
+    // The cancel is seen after the first page at the latest
+    expect(mock.requests.length).toBeLessThan(5);
+    expect((await getJob(id)).status).toBe('cancelled');
+  });
+});
+
+describe('sync_jobs policies', () => {
+  const insertAsUser = (userId: string, columns: string, values: string, params: unknown[]) =>
+    db.asUser(userId, tx => tx.query(`INSERT INTO sync_jobs (user_id, ${columns}) VALUES ($1, ${values})`, [userId, ...params]));
+
+  it('only lets users queue jobs for their own creators and sources', async () => {
+    const otherUserId = await db.createUser();
+    const [{ id: sourceId }] = await query<{ id: number }>(
+      `INSERT INTO sources (user_id, type, civitai_id) VALUES ($1, 'model', 9100) RETURNING id`, [otherUserId]
+    );
+
+    await insertAsUser(db.userId, 'creator_username', '$2', [USERNAME]);
+    await expect(insertAsUser(otherUserId, 'creator_username', '$2', [USERNAME])).rejects.toThrow('row-level security');
+    await expect(insertAsUser(db.userId, 'source_id', '$2', [sourceId])).rejects.toThrow('row-level security');
+    await insertAsUser(otherUserId, 'source_id', '$2', [sourceId]);
+  });
+
+  it('only lets users queue jobs without worker state', async () => {
+    await expect(insertAsUser(db.userId, 'creator_username, status', `$2, 'running'`, [USERNAME])).rejects.toThrow('row-level security');
+    await expect(insertAsUser(db.userId, 'creator_username, cursor', `$2, '52000084'`, [USERNAME])).rejects.toThrow('row-level security');
+  });
+
+  it('lets users cancel their jobs but not change them otherwise', async () => {
+    const id = await insertJob();
+    const otherUserId = await db.createUser();
+
+    const updated = await db.asUser(db.userId, tx => tx.query(`UPDATE sync_jobs SET status = 'queued', attempts = 0 WHERE id = $1`, [id]));
+    expect(updated.affectedRows).toBe(0);
+
+    await db.asUser(otherUserId, tx => tx.query(`SELECT cancel_sync_jobs($1)`, [USERNAME]));
+    expect((await getJob(id)).status).toBe('queued');
+
+    await db.asUser(db.userId, tx => tx.query(`SELECT cancel_sync_jobs($1)`, [USERNAME]));
+    const job = await getJob(id);
+    expect(job.status).toBe('cancelled');
+    expect(job.finished_at).not.toBeNull();
+  });
+
+  it('keeps claim_sync_job from signed-in users', async () => {
+    await expect(db.asUser(db.userId, tx => tx.query(`SELECT * FROM claim_sync_job('browser')`))).rejects.toThrow('permission denied');
+  });
+});
@@ -0,0 +1,108 @@
+// In-process Postgres (PGlite) with the app's schema, for the sync tests
+import { readFileSync } from 'node:fs';
+import { PGlite, type Transaction } from '@electric-sql/pglite';
+
+// Migrations in the order they apply to a fresh database
+// add_user_auth is left out: add_user_profiles supersedes it and creates the same policies
+export const MIGRATIONS = [
+  'create_base_schema',
+  'add_user_profiles',
+  'add_user_settings',
+  'add_nsfw_preference',
+  'add_slideshow_preferences',
+  'add_image_dimensions',
+  'add_last_checked_at',
+  'add_sync_jobs',
+  'add_sync_job_new_post_ids',
+  'add_removed_upstream',
+  'add_sync_runs',
+  'add_sync_error_scheduling',
+  'add_sync_frequency',
+  'add_image_generation_meta',
+  'add_prompt_search',
+  'add_resources',
+  'add_reaction_stats',
+  'add_sources',
+  'add_image_raw',
+  'add_site_namespacing',
+  'add_backfill_cursors',
+  'add_feed_posts',
+  'add_feed_cursors',
+  'add_feed_filters',
+  'add_smart_feeds',
+  'add_sync_workers',
+  'add_sync_job_ownership'
+];
+
+// What Supabase provides before any migration runs: its roles and their default grants, auth.users and
+// the auth helpers RLS uses
+const SUPABASE_AUTH = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN;
+  GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+  CREATE SCHEMA auth;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY DEFAULT gen_random_uuid(), email TEXT);
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS
+    $$ SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID $$;
+  CREATE FUNCTION auth.role() RETURNS TEXT LANGUAGE sql STABLE AS
+    $$ SELECT NULLIF(current_setting('request.jwt.claim.role', true), '') $$;
+`;
+
+export interface TestDatabase {
+  pg: PGlite;
+  // A user to own creators and jobs (auth.users row)
+  userId: string;
+  // Add another user, returning its id
+  createUser(): Promise<string>;
+  // Run queries as a signed-in user, through RLS like the browser's client
+  asUser<T>(userId: string, run: (tx: Transaction) => Promise<T>): Promise<T>;
+  // Empty every table, keeping the schema and the users
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a database and apply every migration
+ * Takes a few seconds, so a test file starts one and resets it between tests
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const pg = await PGlite.create();
+  await pg.exec(SUPABASE_AUTH);
+
+  for (const name of MIGRATIONS) {
+    try {
+      await pg.exec(readFileSync(new URL(`../../migrations/${name}.sql`, import.meta.url), 'utf8'));
+    } catch (error) {
+      throw Object.assign(new Error(`Migration ${name} failed: ${error instanceof Error ? error.message : error}`), { cause: error });
+    }
+  }
+
+  async function createUser(): Promise<string> {
+    const { rows: [user] } = await pg.query<{ id: string }>(`INSERT INTO auth.users (email) VALUES (NULL) RETURNING id`);
+    return user.id;
+  }
+
+  async function asUser<T>(userId: string, run: (tx: Transaction) => Promise<T>): Promise<T> {
+    return pg.transaction(async tx => {
+      await tx.query(`SELECT set_config('request.jwt.claim.sub', $1, true), set_config('request.jwt.claim.role', 'authenticated', true)`, [userId]);
+      await tx.exec('SET LOCAL ROLE authenticated');
+      return run(tx);
+    });
+  }
+
+  const userId = await createUser();
+
+  async function reset(): Promise<void> {
+    const { rows } = await pg.query<{ tables: string }>(
+      `SELECT string_agg(format('%I', tablename), ', ') AS tables FROM pg_tables WHERE schemaname = 'public' AND tablename <> 'profiles'`
+    );
+    await pg.exec(`TRUNCATE ${rows[0].tables} RESTART IDENTITY CASCADE`);
+  }
+
+  return { pg, userId, createUser, asUser, reset, close: () => pg.close() };
+}